@@ -1,4 +1,5 @@
 import { ErrorBoundary, Grid } from "@/components";
+import { REPORT_ID, firestoreDataSource } from "@/api";
 import "./App.css";
 
 function App() {
@@ -8,7 +9,7 @@ function App() {
         <h1 className="text-3xl font-bold mb-6">Interactive Grid</h1>
         <div className="border rounded-lg p-4 bg-card">
           <ErrorBoundary>
-            <Grid />
+            <Grid reportId={REPORT_ID} dataSource={firestoreDataSource} />
           </ErrorBoundary>
         </div>
       </div>
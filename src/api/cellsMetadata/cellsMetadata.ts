@@ -1,19 +1,43 @@
-import { doc, getDoc, updateDoc, setDoc, collection, getDocs, DocumentSnapshot, writeBatch } from 'firebase/firestore';
+import {
+  doc,
+  getDoc,
+  updateDoc,
+  setDoc,
+  collection,
+  getDocs,
+  DocumentSnapshot,
+  writeBatch,
+  query,
+  where,
+  documentId,
+  onSnapshot,
+  deleteField,
+} from 'firebase/firestore';
+import type { Unsubscribe } from 'firebase/firestore';
 import { db } from '../firebase';
 import { createAPIResponse } from '../utils';
 import type { CellFormatting } from '@/components/grid/types/common';
 import type { APIResponse } from '@/types/api';
 
+const REPORTS_COLLECTION = 'reports';
 const CELLS_METADATA_COLLECTION = 'cellsMetadata';
 
 /**
- * Fetches all cells metadata from Firestore
+ * Returns the formatting subcollection of a report: reports/{reportId}/cellsMetadata
+ */
+const getReportCellsMetadataCollection = (reportId: string) =>
+  collection(db, REPORTS_COLLECTION, reportId, CELLS_METADATA_COLLECTION);
+
+/**
+ * Fetches the cells metadata of a single report from its subcollection
+ * @param reportId - The ID of the report the cells belong to
  * @returns Promise<APIResponse<CellFormatting[]>>
  */
-export const getAllCellsMetadata = async (): Promise<APIResponse<CellFormatting[]>> => {
+export const getCellsMetadataByReportId = async (
+  reportId: string
+): Promise<APIResponse<CellFormatting[]>> => {
   try {
-    const collectionRef = collection(db, CELLS_METADATA_COLLECTION);
-    const querySnapshot = await getDocs(collectionRef);
+    const querySnapshot = await getDocs(getReportCellsMetadataCollection(reportId));
     
     const cellsMetadata: CellFormatting[] = [];
     querySnapshot.forEach((doc) => {
@@ -26,23 +50,59 @@ export const getAllCellsMetadata = async (): Promise<APIResponse<CellFormatting[
 
     return createAPIResponse(cellsMetadata, 200, 'Cells metadata fetched successfully');
   } catch (error) {
-    console.error('Error fetching all cells metadata:', error);
+    console.error('Error fetching cells metadata by report ID:', error);
     return createAPIResponse([], 500, error instanceof Error ? error.message : 'Failed to fetch cells metadata');
   }
 };
 
+/**
+ * Fetches a report's cells metadata from the legacy top-level collection
+ * Only queries the documents whose ID starts with "{reportId}:"
+ * @param reportId - The ID of the report the cells belong to
+ * @returns Promise<APIResponse<CellFormatting[]>>
+ */
+export const getLegacyCellsMetadataByReportId = async (
+  reportId: string
+): Promise<APIResponse<CellFormatting[]>> => {
+  try {
+    // ';' is the character right after ':', so this range matches the "{reportId}:" prefix
+    const legacyQuery = query(
+      collection(db, CELLS_METADATA_COLLECTION),
+      where(documentId(), '>=', `${reportId}:`),
+      where(documentId(), '<', `${reportId};`)
+    );
+    const querySnapshot = await getDocs(legacyQuery);
+
+    const cellsMetadata: CellFormatting[] = [];
+    querySnapshot.forEach((doc) => {
+      const data = doc.data() as Omit<CellFormatting, 'id'>;
+      cellsMetadata.push({
+        id: doc.id,
+        ...data
+      });
+    });
+
+    return createAPIResponse(cellsMetadata, 200, 'Legacy cells metadata fetched successfully');
+  } catch (error) {
+    console.error('Error fetching legacy cells metadata:', error);
+    return createAPIResponse([], 500, error instanceof Error ? error.message : 'Failed to fetch legacy cells metadata');
+  }
+};
+
 /**
  * Updates a cell metadata by its ID in Firestore, or creates it if it doesn't exist
+ * @param reportId - The ID of the report the cell belongs to
  * @param cellId - The ID of the cell to update or create
  * @param metadata - The cell metadata to update or create
  * @returns Promise<APIResponse<boolean>>
  */
 export const updateCellMetadataById = async (
+  reportId: string,
   cellId: string, 
   metadata: CellFormatting
 ): Promise<APIResponse<boolean>> => {
   try {
-    const cellDocRef = doc(db, CELLS_METADATA_COLLECTION, cellId);
+    const cellDocRef = doc(getReportCellsMetadataCollection(reportId), cellId);
     
     // Check if the document exists
     const cellSnapshot: DocumentSnapshot = await getDoc(cellDocRef);
@@ -67,26 +127,34 @@ export const updateCellMetadataById = async (
 };
 
 /**
- * Updates multiple cell metadata documents at once using Firestore batch operations
+ * Updates multiple cell metadata documents of a report at once using Firestore batch operations
+ * @param reportId - The ID of the report the cells belong to
  * @param cellUpdates - Map of cellId to metadata for bulk updates
  * @returns Promise<APIResponse<boolean>>
  */
 export const updateMultipleCellsMetadata = async (
+  reportId: string,
   cellUpdates: Map<string, CellFormatting>
 ): Promise<APIResponse<boolean>> => {
   try {
     const batch = writeBatch(db);
+    const cellsCollection = getReportCellsMetadataCollection(reportId);
     
     // Add all updates to the batch
     for (const [cellId, metadata] of cellUpdates.entries()) {
-      const cellDocRef = doc(db, CELLS_METADATA_COLLECTION, cellId);
+      const cellDocRef = doc(cellsCollection, cellId);
       
       // Extract data without id for Firestore operation
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
       const { id, ...metadataWithoutId } = metadata;
+
+      // Fields explicitly set to undefined are cleared, e.g. when undoing a new color
+      const fields = Object.fromEntries(
+        Object.entries(metadataWithoutId).map(([field, value]) => [field, value === undefined ? deleteField() : value])
+      );
       
       // Use set with merge option to update or create document
-      batch.set(cellDocRef, metadataWithoutId, { merge: true });
+      batch.set(cellDocRef, fields, { merge: true });
     }
     
     // Execute the batch
@@ -98,3 +166,42 @@ export const updateMultipleCellsMetadata = async (
     return createAPIResponse(false, 500, error instanceof Error ? error.message : 'Failed to update multiple cells metadata');
   }
 };
+
+/**
+ * Listens to the cells metadata subcollection of a report
+ * Only added and modified documents are reported, local pending writes are skipped.
+ * @param reportId - The ID of the report the cells belong to
+ * @param onChange - Called with the cells whose formatting changed
+ * @param onError - Called when the listener fails
+ * @returns Unsubscribe function
+ */
+export const subscribeToCellsMetadataByReportId = (
+  reportId: string,
+  onChange: (cells: CellFormatting[]) => void,
+  onError: (message: string) => void
+): Unsubscribe => {
+  return onSnapshot(
+    getReportCellsMetadataCollection(reportId),
+    (querySnapshot) => {
+      const changedCells: CellFormatting[] = [];
+      querySnapshot.docChanges().forEach((change) => {
+        if (change.type === 'removed' || change.doc.metadata.hasPendingWrites) {
+          return;
+        }
+        const data = change.doc.data() as Omit<CellFormatting, 'id'>;
+        changedCells.push({
+          id: change.doc.id,
+          ...data
+        });
+      });
+
+      if (changedCells.length > 0) {
+        onChange(changedCells);
+      }
+    },
+    (error) => {
+      console.error('Error listening to cells metadata:', error);
+      onError(error.message);
+    }
+  );
+};
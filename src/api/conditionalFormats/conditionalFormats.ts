@@ -0,0 +1,83 @@
+import { doc, getDoc, setDoc, onSnapshot } from 'firebase/firestore';
+import type { Unsubscribe } from 'firebase/firestore';
+import { db } from '../firebase';
+import { createAPIResponse } from '../utils';
+import type { ConditionalFormatRule } from '@/components/grid/types/common';
+import type { APIResponse } from '@/types/api';
+
+const REPORTS_COLLECTION = 'reports';
+const SETTINGS_COLLECTION = 'settings';
+const CONDITIONAL_FORMATS_DOCUMENT = 'conditionalFormats';
+
+/**
+ * Returns the document holding a report's rules: reports/{reportId}/settings/conditionalFormats
+ */
+const getConditionalFormatsDocument = (reportId: string) =>
+  doc(db, REPORTS_COLLECTION, reportId, SETTINGS_COLLECTION, CONDITIONAL_FORMATS_DOCUMENT);
+
+/**
+ * Fetches the conditional formatting rules of a report
+ * @param reportId - The ID of the report the rules belong to
+ * @returns Promise<APIResponse<ConditionalFormatRule[] | null>>, null when no rules were saved yet
+ */
+export const getConditionalFormatsByReportId = async (
+  reportId: string
+): Promise<APIResponse<ConditionalFormatRule[] | null>> => {
+  try {
+    const snapshot = await getDoc(getConditionalFormatsDocument(reportId));
+    if (!snapshot.exists()) {
+      return createAPIResponse(null, 200, 'No conditional formats saved yet');
+    }
+    return createAPIResponse(snapshot.data().rules as ConditionalFormatRule[], 200, 'Conditional formats fetched successfully');
+  } catch (error) {
+    console.error('Error fetching conditional formats:', error);
+    return createAPIResponse(null, 500, error instanceof Error ? error.message : 'Failed to fetch conditional formats');
+  }
+};
+
+/**
+ * Replaces the conditional formatting rules of a report
+ * @param reportId - The ID of the report the rules belong to
+ * @param rules - All rules of the report in priority order
+ * @returns Promise<APIResponse<boolean>>
+ */
+export const updateConditionalFormatsByReportId = async (
+  reportId: string,
+  rules: ConditionalFormatRule[]
+): Promise<APIResponse<boolean>> => {
+  try {
+    // Firestore rejects undefined fields, optional rule fields are left out instead
+    await setDoc(getConditionalFormatsDocument(reportId), { rules: JSON.parse(JSON.stringify(rules)) as unknown });
+    return createAPIResponse(true, 200, 'Conditional formats updated successfully');
+  } catch (error) {
+    console.error('Error updating conditional formats:', error);
+    return createAPIResponse(false, 500, error instanceof Error ? error.message : 'Failed to update conditional formats');
+  }
+};
+
+/**
+ * Listens to the conditional formatting rules of a report, local pending writes are skipped
+ * @param reportId - The ID of the report the rules belong to
+ * @param onChange - Called with all rules of the report
+ * @param onError - Called when the listener fails
+ * @returns Unsubscribe function
+ */
+export const subscribeToConditionalFormatsByReportId = (
+  reportId: string,
+  onChange: (rules: ConditionalFormatRule[]) => void,
+  onError: (message: string) => void
+): Unsubscribe => {
+  return onSnapshot(
+    getConditionalFormatsDocument(reportId),
+    (snapshot) => {
+      if (!snapshot.exists() || snapshot.metadata.hasPendingWrites) {
+        return;
+      }
+      onChange(snapshot.data().rules as ConditionalFormatRule[]);
+    },
+    (error) => {
+      console.error('Error listening to conditional formats:', error);
+      onError(error.message);
+    }
+  );
+};
@@ -0,0 +1,78 @@
+import {
+  getReportById,
+  subscribeToReportById,
+  updateReportById,
+  updateReportCellsById,
+} from '../reports/reports';
+import {
+  getCellsMetadataByReportId,
+  getLegacyCellsMetadataByReportId,
+  subscribeToCellsMetadataByReportId,
+  updateMultipleCellsMetadata,
+} from '../cellsMetadata/cellsMetadata';
+import {
+  getConditionalFormatsByReportId,
+  subscribeToConditionalFormatsByReportId,
+  updateConditionalFormatsByReportId,
+} from '../conditionalFormats/conditionalFormats';
+import type { ReportDataSource } from './types';
+
+/**
+ * Firestore implementation of the report data source
+ * Reports live in the `reports` collection and each report's formatting
+ * in its `reports/{reportId}/cellsMetadata` subcollection, conditional formatting
+ * rules in the `reports/{reportId}/settings/conditionalFormats` document.
+ */
+export const firestoreDataSource: ReportDataSource = {
+  getReport: getReportById,
+
+  getCellsMetadata: async (reportId) => {
+    const response = await getCellsMetadataByReportId(reportId);
+    if (response.status !== 200 || response.data.length > 0) {
+      return response;
+    }
+
+    // Nothing stored under the report yet, formatting may still be in the legacy
+    // top-level collection - copy it over once so later loads skip this step
+    const legacyResponse = await getLegacyCellsMetadataByReportId(reportId);
+    if (legacyResponse.status !== 200 || legacyResponse.data.length === 0) {
+      return response;
+    }
+
+    const copyResponse = await updateMultipleCellsMetadata(
+      reportId,
+      new Map(legacyResponse.data.map((cell) => [cell.id, cell]))
+    );
+    if (copyResponse.status !== 200) {
+      console.warn('Failed to move legacy cells metadata under the report:', copyResponse.message);
+    }
+
+    return legacyResponse;
+  },
+
+  updateReport: updateReportById,
+
+  updateCells: updateReportCellsById,
+
+  updateCellsMetadata: updateMultipleCellsMetadata,
+
+  getConditionalFormats: getConditionalFormatsByReportId,
+
+  updateConditionalFormats: updateConditionalFormatsByReportId,
+
+  subscribe: (reportId, listener) => {
+    const onError = (message: string) => listener.onError?.(message);
+    const unsubscribeReport = subscribeToReportById(reportId, listener.onReport, onError);
+    const unsubscribeCells = subscribeToCellsMetadataByReportId(reportId, listener.onCellsMetadata, onError);
+    const { onConditionalFormats } = listener;
+    const unsubscribeConditionalFormats = onConditionalFormats
+      ? subscribeToConditionalFormatsByReportId(reportId, onConditionalFormats, onError)
+      : undefined;
+
+    return () => {
+      unsubscribeReport();
+      unsubscribeCells();
+      unsubscribeConditionalFormats?.();
+    };
+  },
+};
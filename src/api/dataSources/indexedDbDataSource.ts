@@ -0,0 +1,217 @@
+import localforage from 'localforage';
+import { applyCellPatches, createAPIResponse, findCellConflicts, withoutConflicts } from '../utils';
+import type { CellFormatting, ConditionalFormatRule, ReportData, VersionedReport } from '@/components/grid/types/common';
+import type { ReportChangeListener, ReportDataSource } from './types';
+
+export interface IndexedDbDataSourceOptions {
+  // Database name, use different names to keep independent stores
+  name?: string;
+  // Reports written on first use when the store doesn't have them yet
+  seedReports?: Record<string, ReportData>;
+}
+
+type StoredCellsMetadata = Record<string, CellFormatting>;
+
+// Describes a write so subscribers can read back what changed
+type ChangeMessage =
+  | { reportId: string; kind: 'report' }
+  | { reportId: string; kind: 'cellsMetadata'; cellIds: string[] }
+  | { reportId: string; kind: 'conditionalFormats' };
+
+/**
+ * Creates a data source persisted in the browser's IndexedDB through localforage
+ * Reports are stored with their version by report ID, each report's formatting is stored
+ * as a single map of cell ID to formatting, and its conditional formatting rules as a list.
+ * Writes are broadcast to other tabs using the same database name,
+ * so subscribers see changes made in any tab.
+ */
+export const createIndexedDbDataSource = (
+  options: IndexedDbDataSourceOptions = {}
+): ReportDataSource => {
+  const { name = 'interactive-grid', seedReports = {} } = options;
+
+  const reportsStore = localforage.createInstance({
+    name,
+    storeName: 'reports',
+    driver: localforage.INDEXEDDB,
+  });
+  const cellsMetadataStore = localforage.createInstance({
+    name,
+    storeName: 'cellsMetadata',
+    driver: localforage.INDEXEDDB,
+  });
+  const conditionalFormatsStore = localforage.createInstance({
+    name,
+    storeName: 'conditionalFormats',
+    driver: localforage.INDEXEDDB,
+  });
+
+  /**
+   * Reads a report, writing its seed first if the store doesn't have it
+   */
+  const readReport = async (reportId: string): Promise<VersionedReport | null> => {
+    const report = await reportsStore.getItem<VersionedReport>(reportId);
+    if (report || !seedReports[reportId]) {
+      return report;
+    }
+    return reportsStore.setItem(reportId, { data: seedReports[reportId], version: 0 });
+  };
+
+  const listeners = new Map<string, Set<ReportChangeListener>>();
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(name) : null;
+
+  /**
+   * Reads the changed data back from the store and hands it to this tab's subscribers
+   */
+  const notify = async (message: ChangeMessage) => {
+    const reportListeners = listeners.get(message.reportId);
+    if (!reportListeners?.size) return;
+
+    try {
+      if (message.kind === 'report') {
+        const report = await reportsStore.getItem<VersionedReport>(message.reportId);
+        if (report) {
+          reportListeners.forEach((listener) => listener.onReport(report));
+        }
+      } else if (message.kind === 'conditionalFormats') {
+        const rules = (await conditionalFormatsStore.getItem<ConditionalFormatRule[]>(message.reportId)) ?? [];
+        reportListeners.forEach((listener) => listener.onConditionalFormats?.(rules));
+      } else {
+        const cells = (await cellsMetadataStore.getItem<StoredCellsMetadata>(message.reportId)) ?? {};
+        const changedCells = message.cellIds.flatMap((cellId) => (cells[cellId] ? [cells[cellId]] : []));
+        reportListeners.forEach((listener) => listener.onCellsMetadata(changedCells));
+      }
+    } catch (error) {
+      console.error('Error reading changes from IndexedDB:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to read changes';
+      reportListeners.forEach((listener) => listener.onError?.(errorMessage));
+    }
+  };
+
+  /**
+   * Tells subscribers in this tab and in other tabs about a write
+   */
+  const publish = (message: ChangeMessage) => {
+    void notify(message);
+    channel?.postMessage(message);
+  };
+
+  channel?.addEventListener('message', (event: MessageEvent<ChangeMessage>) => {
+    void notify(event.data);
+  });
+
+  return {
+    getReport: async (reportId) => {
+      try {
+        const report = await readReport(reportId);
+        if (!report) {
+          return createAPIResponse(null, 404, `Report with ID ${reportId} not found`);
+        }
+        return createAPIResponse(report, 200, 'Report fetched successfully');
+      } catch (error) {
+        console.error('Error fetching report from IndexedDB:', error);
+        return createAPIResponse(null, 500, error instanceof Error ? error.message : 'Failed to fetch report');
+      }
+    },
+
+    getCellsMetadata: async (reportId) => {
+      try {
+        const cells = await cellsMetadataStore.getItem<StoredCellsMetadata>(reportId);
+        return createAPIResponse(Object.values(cells ?? {}), 200, 'Cells metadata fetched successfully');
+      } catch (error) {
+        console.error('Error fetching cells metadata from IndexedDB:', error);
+        return createAPIResponse([], 500, error instanceof Error ? error.message : 'Failed to fetch cells metadata');
+      }
+    },
+
+    updateReport: async (reportId, reportData, baseVersion) => {
+      try {
+        const existing = await readReport(reportId);
+        if (!existing) {
+          return createAPIResponse(null, 404, `Report with ID ${reportId} not found`);
+        }
+        if (existing.version !== baseVersion) {
+          return createAPIResponse(existing.version, 409, 'Report was changed by someone else');
+        }
+        const version = existing.version + 1;
+        await reportsStore.setItem(reportId, { data: reportData, version });
+        publish({ reportId, kind: 'report' });
+        return createAPIResponse(version, 200, 'Report updated successfully');
+      } catch (error) {
+        console.error('Error updating report in IndexedDB:', error);
+        return createAPIResponse(null, 500, error instanceof Error ? error.message : 'Failed to update report');
+      }
+    },
+
+    updateCells: async (reportId, patches, baseVersion) => {
+      try {
+        const existing = await readReport(reportId);
+        if (!existing) {
+          return createAPIResponse(null, 404, `Report with ID ${reportId} not found`);
+        }
+
+        const conflicts = existing.version !== baseVersion ? findCellConflicts(existing.data, patches) : [];
+        const patchesToApply = withoutConflicts(patches, conflicts);
+        let { version } = existing;
+        if (patchesToApply.length > 0) {
+          version++;
+          await reportsStore.setItem(reportId, { data: applyCellPatches(existing.data, patchesToApply), version });
+          publish({ reportId, kind: 'report' });
+        }
+
+        if (conflicts.length > 0) {
+          return createAPIResponse({ version, conflicts }, 409, `${conflicts.length} cells were changed by someone else`);
+        }
+        return createAPIResponse({ version, conflicts }, 200, `Successfully updated ${patches.length} cells`);
+      } catch (error) {
+        console.error('Error updating cells in IndexedDB:', error);
+        return createAPIResponse(null, 500, error instanceof Error ? error.message : 'Failed to update cells');
+      }
+    },
+
+    updateCellsMetadata: async (reportId, cellUpdates) => {
+      try {
+        const cells = (await cellsMetadataStore.getItem<StoredCellsMetadata>(reportId)) ?? {};
+        for (const [cellId, metadata] of cellUpdates.entries()) {
+          cells[cellId] = { ...cells[cellId], ...metadata, id: cellId };
+        }
+        await cellsMetadataStore.setItem(reportId, cells);
+        publish({ reportId, kind: 'cellsMetadata', cellIds: Array.from(cellUpdates.keys()) });
+        return createAPIResponse(true, 200, `Successfully updated ${cellUpdates.size} cell metadata documents`);
+      } catch (error) {
+        console.error('Error updating cells metadata in IndexedDB:', error);
+        return createAPIResponse(false, 500, error instanceof Error ? error.message : 'Failed to update cells metadata');
+      }
+    },
+
+    getConditionalFormats: async (reportId) => {
+      try {
+        const rules = await conditionalFormatsStore.getItem<ConditionalFormatRule[]>(reportId);
+        return createAPIResponse(rules, 200, 'Conditional formats fetched successfully');
+      } catch (error) {
+        console.error('Error fetching conditional formats from IndexedDB:', error);
+        return createAPIResponse(null, 500, error instanceof Error ? error.message : 'Failed to fetch conditional formats');
+      }
+    },
+
+    updateConditionalFormats: async (reportId, rules) => {
+      try {
+        await conditionalFormatsStore.setItem(reportId, rules);
+        publish({ reportId, kind: 'conditionalFormats' });
+        return createAPIResponse(true, 200, 'Conditional formats updated successfully');
+      } catch (error) {
+        console.error('Error updating conditional formats in IndexedDB:', error);
+        return createAPIResponse(false, 500, error instanceof Error ? error.message : 'Failed to update conditional formats');
+      }
+    },
+
+    subscribe: (reportId, listener) => {
+      const reportListeners = listeners.get(reportId) ?? new Set<ReportChangeListener>();
+      reportListeners.add(listener);
+      listeners.set(reportId, reportListeners);
+      return () => {
+        reportListeners.delete(listener);
+      };
+    },
+  };
+};
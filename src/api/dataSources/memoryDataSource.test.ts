@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createInMemoryDataSource } from './memoryDataSource';
+import type { ReportData, VersionedReport } from '@/components/grid/types/common';
+
+const report: ReportData = {
+  Values: {
+    columns: [
+      { name: 'Product', key: 'product' },
+      { name: '2020', key: '2020' },
+    ],
+    items: [{ rowId: 'row-0', product: 'Product A', '2020': 100 }],
+  },
+};
+
+describe('createInMemoryDataSource', () => {
+  it('should return seeded reports', async () => {
+    const dataSource = createInMemoryDataSource({ reports: { r1: report } });
+
+    const response = await dataSource.getReport('r1');
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual({ data: report, version: 0 });
+  });
+
+  it('should return 404 for unknown reports', async () => {
+    const dataSource = createInMemoryDataSource();
+
+    expect((await dataSource.getReport('missing')).status).toBe(404);
+    expect((await dataSource.updateReport('missing', report, 0)).status).toBe(404);
+  });
+
+  it('should not share state with callers', async () => {
+    const dataSource = createInMemoryDataSource({ reports: { r1: report } });
+
+    const { data } = await dataSource.getReport('r1');
+    data!.data.Values.items[0]['2020'] = 999;
+
+    expect((await dataSource.getReport('r1')).data!.data.Values.items[0]['2020']).toBe(100);
+  });
+
+  it('should persist report updates', async () => {
+    const dataSource = createInMemoryDataSource({ reports: { r1: report } });
+    const updated = structuredClone(report);
+    updated.Values.items[0]['2020'] = 250;
+
+    expect((await dataSource.updateReport('r1', updated, 0)).data).toBe(1);
+    expect((await dataSource.getReport('r1')).data).toEqual({ data: updated, version: 1 });
+  });
+
+  it('should reject report updates based on a stale version', async () => {
+    const dataSource = createInMemoryDataSource({ reports: { r1: report } });
+    await dataSource.updateReport('r1', report, 0);
+
+    const response = await dataSource.updateReport('r1', report, 0);
+    expect(response.status).toBe(409);
+    expect(response.data).toBe(1);
+  });
+
+  it('should apply cell patches by row ID', async () => {
+    const dataSource = createInMemoryDataSource({ reports: { r1: report } });
+
+    const response = await dataSource.updateCells('r1', [
+      { section: 'Values', rowId: 'row-0', key: '2020', value: 300 },
+      { section: 'Values', rowId: 'missing-row', key: '2020', value: 1 },
+      { section: 'Missing Section', rowId: 'row-0', key: '2020', value: 1 },
+    ], 0);
+
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual({ version: 1, conflicts: [] });
+    expect((await dataSource.getReport('r1')).data!.data.Values.items).toEqual([
+      { rowId: 'row-0', product: 'Product A', '2020': 300 },
+    ]);
+  });
+
+  it('should store formulas next to the patched values', async () => {
+    const dataSource = createInMemoryDataSource({ reports: { r1: report } });
+
+    await dataSource.updateCells('r1', [
+      { section: 'Values', rowId: 'row-0', key: '2020', value: 200, formula: '=100*2' },
+    ], 0);
+    expect((await dataSource.getReport('r1')).data!.data.Values.formulas).toEqual({
+      'row-0': { '2020': '=100*2' },
+    });
+
+    await dataSource.updateCells('r1', [
+      { section: 'Values', rowId: 'row-0', key: '2020', value: 5, formula: null },
+    ], 1);
+    expect((await dataSource.getReport('r1')).data!.data.Values.formulas).toEqual({ 'row-0': {} });
+  });
+
+  it('should reject cells changed by someone else since the base version', async () => {
+    const dataSource = createInMemoryDataSource({
+      reports: { r1: { Values: { ...report.Values, items: [{ rowId: 'row-0', '2020': 100, '2021': 100 }] } } },
+    });
+    // Someone else saves 2020 first
+    await dataSource.updateCells('r1', [{ section: 'Values', rowId: 'row-0', key: '2020', value: 150, baseValue: 100 }], 0);
+
+    const response = await dataSource.updateCells('r1', [
+      { section: 'Values', rowId: 'row-0', key: '2020', value: 200, baseValue: 100 },
+      { section: 'Values', rowId: 'row-0', key: '2021', value: 210, baseValue: 100 },
+    ], 0);
+
+    expect(response.status).toBe(409);
+    expect(response.data).toEqual({
+      version: 2,
+      conflicts: [{ section: 'Values', rowId: 'row-0', key: '2020', theirValue: 150, yourValue: 200 }],
+    });
+    // The unrelated cell is still saved
+    expect((await dataSource.getReport('r1')).data!.data.Values.items[0]).toMatchObject({ '2020': 150, '2021': 210 });
+  });
+
+  it('should merge cell formatting per report', async () => {
+    const dataSource = createInMemoryDataSource();
+
+    await dataSource.updateCellsMetadata('r1', new Map([['r1:0:0', { id: 'r1:0:0', bold: true }]]));
+    await dataSource.updateCellsMetadata('r1', new Map([['r1:0:0', { id: 'r1:0:0', italic: true }]]));
+
+    expect((await dataSource.getCellsMetadata('r1')).data).toEqual([
+      { id: 'r1:0:0', bold: true, italic: true },
+    ]);
+    expect((await dataSource.getCellsMetadata('r2')).data).toEqual([]);
+  });
+
+  it('should store conditional formats per report', async () => {
+    const dataSource = createInMemoryDataSource();
+    const listener = { onReport: vi.fn(), onCellsMetadata: vi.fn(), onConditionalFormats: vi.fn() };
+    dataSource.subscribe!('r1', listener);
+    const rules = [{ id: 'rule-1', columnIds: ['values_2020'], condition: { type: 'negative' as const } }];
+
+    expect((await dataSource.getConditionalFormats('r1')).data).toBeNull();
+    await dataSource.updateConditionalFormats('r1', rules);
+
+    expect((await dataSource.getConditionalFormats('r1')).data).toEqual(rules);
+    expect((await dataSource.getConditionalFormats('r2')).data).toBeNull();
+    expect(listener.onConditionalFormats).toHaveBeenCalledWith(rules);
+  });
+
+  it('should notify subscribers of the report after writes', async () => {
+    const dataSource = createInMemoryDataSource({ reports: { r1: report } });
+    const listener = { onReport: vi.fn<(report: VersionedReport) => void>(), onCellsMetadata: vi.fn() };
+    const unsubscribe = dataSource.subscribe!('r1', listener);
+
+    await dataSource.updateCells('r1', [{ section: 'Values', rowId: 'row-0', key: '2020', value: 300 }], 0);
+    await dataSource.updateCellsMetadata('r1', new Map([['r1:row-0:product', { id: 'r1:row-0:product', bold: true }]]));
+    await dataSource.updateCellsMetadata('r2', new Map([['r2:row-0:product', { id: 'r2:row-0:product', bold: true }]]));
+
+    expect(listener.onReport).toHaveBeenCalledTimes(1);
+    expect(listener.onReport.mock.calls[0][0]).toMatchObject({ version: 1 });
+    expect(listener.onReport.mock.calls[0][0].data.Values.items[0]['2020']).toBe(300);
+    expect(listener.onCellsMetadata).toHaveBeenCalledTimes(1);
+    expect(listener.onCellsMetadata).toHaveBeenCalledWith([{ id: 'r1:row-0:product', bold: true }]);
+
+    unsubscribe();
+    await dataSource.updateReport('r1', report, 1);
+    expect(listener.onReport).toHaveBeenCalledTimes(1);
+  });
+});
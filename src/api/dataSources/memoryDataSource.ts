@@ -0,0 +1,137 @@
+import { applyCellPatches, createAPIResponse, findCellConflicts, withoutConflicts } from '../utils';
+import type { CellFormatting, ConditionalFormatRule, ReportData, VersionedReport } from '@/components/grid/types/common';
+import type { ReportChangeListener, ReportDataSource } from './types';
+
+export interface InMemoryDataSourceOptions {
+  // Reports available from the start at version 0, keyed by report ID
+  reports?: Record<string, ReportData>;
+  // Cell formatting available from the start, keyed by report ID
+  cellsMetadata?: Record<string, CellFormatting[]>;
+}
+
+/**
+ * Creates a data source that keeps everything in memory
+ * Useful for tests, demos and embedding the grid without a backend.
+ * Data is cloned on the way in and out so callers can't mutate the store.
+ * Subscribers of a report are notified after every successful write to it.
+ */
+export const createInMemoryDataSource = (
+  options: InMemoryDataSourceOptions = {}
+): ReportDataSource => {
+  const reports = new Map<string, VersionedReport>(
+    Object.entries(options.reports ?? {}).map(([reportId, report]) => [
+      reportId,
+      { data: structuredClone(report), version: 0 },
+    ])
+  );
+  const cellsMetadata = new Map<string, Map<string, CellFormatting>>(
+    Object.entries(options.cellsMetadata ?? {}).map(([reportId, cells]) => [
+      reportId,
+      new Map(cells.map((cell) => [cell.id, structuredClone(cell)])),
+    ])
+  );
+  const conditionalFormats = new Map<string, ConditionalFormatRule[]>();
+  const listeners = new Map<string, Set<ReportChangeListener>>();
+
+  const notifyReport = (reportId: string) => {
+    const report = reports.get(reportId);
+    if (!report) return;
+    listeners.get(reportId)?.forEach((listener) => listener.onReport(structuredClone(report)));
+  };
+
+  const notifyCellsMetadata = (reportId: string, cells: CellFormatting[]) => {
+    listeners.get(reportId)?.forEach((listener) => listener.onCellsMetadata(structuredClone(cells)));
+  };
+
+  return {
+    getReport: (reportId) => {
+      const report = reports.get(reportId);
+      if (!report) {
+        return Promise.resolve(createAPIResponse(null, 404, `Report with ID ${reportId} not found`));
+      }
+      return Promise.resolve(createAPIResponse(structuredClone(report), 200, 'Report fetched successfully'));
+    },
+
+    getCellsMetadata: (reportId) => {
+      const cells = Array.from(cellsMetadata.get(reportId)?.values() ?? [], (cell) => structuredClone(cell));
+      return Promise.resolve(createAPIResponse(cells, 200, 'Cells metadata fetched successfully'));
+    },
+
+    updateReport: (reportId, reportData, baseVersion) => {
+      const report = reports.get(reportId);
+      if (!report) {
+        return Promise.resolve(createAPIResponse(null, 404, `Report with ID ${reportId} not found`));
+      }
+      if (report.version !== baseVersion) {
+        return Promise.resolve(createAPIResponse(report.version, 409, 'Report was changed by someone else'));
+      }
+      const version = report.version + 1;
+      reports.set(reportId, { data: structuredClone(reportData), version });
+      notifyReport(reportId);
+      return Promise.resolve(createAPIResponse(version, 200, 'Report updated successfully'));
+    },
+
+    updateCells: (reportId, patches, baseVersion) => {
+      const report = reports.get(reportId);
+      if (!report) {
+        return Promise.resolve(createAPIResponse(null, 404, `Report with ID ${reportId} not found`));
+      }
+
+      const conflicts = report.version !== baseVersion ? findCellConflicts(report.data, patches) : [];
+      const patchesToApply = withoutConflicts(patches, conflicts);
+      let { version } = report;
+      if (patchesToApply.length > 0) {
+        version++;
+        reports.set(reportId, { data: applyCellPatches(report.data, structuredClone(patchesToApply)), version });
+        notifyReport(reportId);
+      }
+
+      if (conflicts.length > 0) {
+        return Promise.resolve(
+          createAPIResponse({ version, conflicts }, 409, `${conflicts.length} cells were changed by someone else`)
+        );
+      }
+      return Promise.resolve(
+        createAPIResponse({ version, conflicts }, 200, `Successfully updated ${patches.length} cells`)
+      );
+    },
+
+    updateCellsMetadata: (reportId, cellUpdates) => {
+      const reportCells = cellsMetadata.get(reportId) ?? new Map<string, CellFormatting>();
+      const updatedCells: CellFormatting[] = [];
+      for (const [cellId, metadata] of cellUpdates.entries()) {
+        // Merge like Firestore's set with { merge: true }
+        const cell = { ...reportCells.get(cellId), ...structuredClone(metadata), id: cellId };
+        reportCells.set(cellId, cell);
+        updatedCells.push(cell);
+      }
+      cellsMetadata.set(reportId, reportCells);
+      notifyCellsMetadata(reportId, updatedCells);
+      return Promise.resolve(
+        createAPIResponse(true, 200, `Successfully updated ${cellUpdates.size} cell metadata documents`)
+      );
+    },
+
+    getConditionalFormats: (reportId) => {
+      const rules = conditionalFormats.get(reportId);
+      return Promise.resolve(
+        createAPIResponse(rules ? structuredClone(rules) : null, 200, 'Conditional formats fetched successfully')
+      );
+    },
+
+    updateConditionalFormats: (reportId, rules) => {
+      conditionalFormats.set(reportId, structuredClone(rules));
+      listeners.get(reportId)?.forEach((listener) => listener.onConditionalFormats?.(structuredClone(rules)));
+      return Promise.resolve(createAPIResponse(true, 200, 'Conditional formats updated successfully'));
+    },
+
+    subscribe: (reportId, listener) => {
+      const reportListeners = listeners.get(reportId) ?? new Set<ReportChangeListener>();
+      reportListeners.add(listener);
+      listeners.set(reportId, reportListeners);
+      return () => {
+        reportListeners.delete(listener);
+      };
+    },
+  };
+};
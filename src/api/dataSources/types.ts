@@ -0,0 +1,82 @@
+import type {
+  CellConflict,
+  CellFormatting,
+  CellPatch,
+  ConditionalFormatRule,
+  ReportData,
+  VersionedReport,
+} from '@/components/grid/types/common';
+import type { APIResponse } from '@/types/api';
+
+/**
+ * Receives changes made to a report by anyone, including other users
+ */
+export interface ReportChangeListener {
+  /** Called with the latest report values whenever they change */
+  onReport: (report: VersionedReport) => void;
+  /** Called with the formatting of the cells that changed */
+  onCellsMetadata: (cells: CellFormatting[]) => void;
+  /** Called with all conditional formatting rules of the report when they change */
+  onConditionalFormats?: (rules: ConditionalFormatRule[]) => void;
+  /** Called when the subscription fails, no more changes are delivered after this */
+  onError?: (message: string) => void;
+}
+
+/**
+ * Result of a cell values save
+ * With status 409 `conflicts` lists the cells someone else changed since `baseVersion`,
+ * those were left untouched while the other cells were saved.
+ */
+export interface CellsUpdateResult {
+  version: number;
+  conflicts: CellConflict[];
+}
+
+/**
+ * Contract between the grid and whatever backend stores reports.
+ * The grid never talks to a database directly - it only calls these methods,
+ * so any backend can be plugged in by implementing this interface.
+ */
+export interface ReportDataSource {
+  /** Loads the report values and their version */
+  getReport: (reportId: string) => Promise<APIResponse<VersionedReport | null>>;
+  /** Loads the stored cell formatting of a report */
+  getCellsMetadata: (reportId: string) => Promise<APIResponse<CellFormatting[]>>;
+  /**
+   * Saves the whole report, used for structural changes
+   * Rejected with status 409 when the stored report is newer than `baseVersion`,
+   * resolves with the new version otherwise.
+   */
+  updateReport: (
+    reportId: string,
+    reportData: ReportData,
+    baseVersion: number
+  ) => Promise<APIResponse<number | null>>;
+  /**
+   * Saves changed cell values only, applied on top of the latest stored report
+   * When the stored report is newer than `baseVersion`, patches are checked
+   * against their `baseValue` and conflicting cells are rejected with status 409.
+   */
+  updateCells: (
+    reportId: string,
+    patches: CellPatch[],
+    baseVersion: number
+  ) => Promise<APIResponse<CellsUpdateResult | null>>;
+  /** Saves formatting for the given cells, creating entries that don't exist yet */
+  updateCellsMetadata: (
+    reportId: string,
+    cellUpdates: Map<string, CellFormatting>
+  ) => Promise<APIResponse<boolean>>;
+  /** Loads the conditional formatting rules of a report, null when none were saved yet */
+  getConditionalFormats: (reportId: string) => Promise<APIResponse<ConditionalFormatRule[] | null>>;
+  /** Replaces the conditional formatting rules of a report */
+  updateConditionalFormats: (
+    reportId: string,
+    rules: ConditionalFormatRule[]
+  ) => Promise<APIResponse<boolean>>;
+  /**
+   * Optional realtime stream of report and formatting changes
+   * Returns a function that stops the subscription.
+   */
+  subscribe?: (reportId: string, listener: ReportChangeListener) => () => void;
+}
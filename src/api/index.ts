@@ -7,4 +7,9 @@ export const REPORT_ID = 'report1000';
 
 // Export everything for easy access
 export * from './cellsMetadata/cellsMetadata'
-export * from './reports/reports';
\ No newline at end of file
+export * from './conditionalFormats/conditionalFormats';
+export * from './reports/reports';
+export * from './dataSources/types';
+export * from './dataSources/firestoreDataSource';
+export * from './dataSources/memoryDataSource';
+export * from './dataSources/indexedDbDataSource';
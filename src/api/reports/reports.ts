@@ -1,17 +1,30 @@
-import { doc, getDoc, updateDoc, DocumentSnapshot } from 'firebase/firestore';
+import { doc, getDoc, DocumentSnapshot, runTransaction, FieldPath, onSnapshot } from 'firebase/firestore';
+import type { DocumentData, Unsubscribe } from 'firebase/firestore';
 import { db } from '../firebase';
-import { createAPIResponse } from '../utils';
-import type { ReportData } from '@/components/grid/types/common';
+import { applyCellPatches, createAPIResponse, findCellConflicts, withoutConflicts } from '../utils';
+import type { CellsUpdateResult } from '../dataSources/types';
+import type { CellPatch, ReportData, VersionedReport } from '@/components/grid/types/common';
 import type { APIResponse } from '@/types/api';
 
 const REPORTS_COLLECTION = 'reports';
+// Top-level document field holding the report revision, next to the sections
+const VERSION_FIELD = 'version';
+
+/**
+ * Splits a stored report document into its sections and version
+ * Documents saved before versioning count as version 0.
+ */
+const toVersionedReport = (documentData: DocumentData): VersionedReport => {
+  const { [VERSION_FIELD]: version = 0, ...data } = documentData;
+  return { data: data as ReportData, version: Number(version) };
+};
 
 /**
  * Fetches a report by its ID from Firestore
  * @param reportId - The ID of the report to fetch
- * @returns Promise<APIResponse<SpreadsheetData | null>>
+ * @returns Promise<APIResponse<VersionedReport | null>>
  */
-export const getReportById = async (reportId: string): Promise<APIResponse<ReportData | null>> => {
+export const getReportById = async (reportId: string): Promise<APIResponse<VersionedReport | null>> => {
   try {
     const reportDocRef = doc(db, REPORTS_COLLECTION, reportId);
     const reportSnapshot: DocumentSnapshot = await getDoc(reportDocRef);
@@ -20,9 +33,7 @@ export const getReportById = async (reportId: string): Promise<APIResponse<Repor
       return createAPIResponse(null, 404, `Report with ID ${reportId} not found`);
     }
 
-    const reportData = reportSnapshot.data() as ReportData;
-    
-    return createAPIResponse(reportData, 200, 'Report fetched successfully');
+    return createAPIResponse(toVersionedReport(reportSnapshot.data()), 200, 'Report fetched successfully');
   } catch (error) {
     console.error('Error fetching report by ID:', error);
     return createAPIResponse(null, 500, error instanceof Error ? error.message : 'Failed to fetch report');
@@ -30,31 +41,145 @@ export const getReportById = async (reportId: string): Promise<APIResponse<Repor
 };
 
 /**
- * Updates a report by its ID in Firestore
+ * Updates a report by its ID in a Firestore transaction
+ * The save is rejected when someone else saved the report after `baseVersion`.
  * @param reportId - The ID of the report to update
  * @param reportData - The updated report data
- * @returns Promise<APIResponse<boolean>>
+ * @param baseVersion - Version of the report the changes were made on
+ * @returns Promise<APIResponse<number | null>> with the new version
  */
 export const updateReportById = async (
   reportId: string, 
-  reportData: ReportData
-): Promise<APIResponse<boolean>> => {
+  reportData: ReportData,
+  baseVersion: number
+): Promise<APIResponse<number | null>> => {
   try {
     const reportDocRef = doc(db, REPORTS_COLLECTION, reportId);
     
-    // Check if the document exists before updating
-    const reportSnapshot: DocumentSnapshot = await getDoc(reportDocRef);
-    
-    if (!reportSnapshot.exists()) {
-      return createAPIResponse(false, 404, `Report with ID ${reportId} not found`);
+    const result = await runTransaction(db, async (transaction) => {
+      const reportSnapshot: DocumentSnapshot = await transaction.get(reportDocRef);
+      if (!reportSnapshot.exists()) {
+        return { status: 404 as const };
+      }
+
+      const { version } = toVersionedReport(reportSnapshot.data());
+      if (version !== baseVersion) {
+        return { status: 409 as const, version };
+      }
+
+      // Replace the whole document, so deleted and renamed sections don't stay behind
+      transaction.set(reportDocRef, { ...reportData, [VERSION_FIELD]: version + 1 });
+      return { status: 200 as const, version: version + 1 };
+    });
+
+    if (result.status === 404) {
+      return createAPIResponse(null, 404, `Report with ID ${reportId} not found`);
+    }
+    if (result.status === 409) {
+      return createAPIResponse(result.version, 409, 'Report was changed by someone else');
     }
 
-    // Update the document with the new data
-    await updateDoc(reportDocRef, reportData);
-    
-    return createAPIResponse(true, 200, 'Report updated successfully');
+    return createAPIResponse(result.version, 200, 'Report updated successfully');
   } catch (error) {
     console.error('Error updating report by ID:', error);
-    return createAPIResponse(false, 500, error instanceof Error ? error.message : 'Failed to update report');
+    return createAPIResponse(null, 500, error instanceof Error ? error.message : 'Failed to update report');
+  }
+};
+
+/**
+ * Updates individual cells of a report in a Firestore transaction
+ * Patches are applied on top of the latest stored report and only the
+ * items of the touched sections are written, so concurrent edits to
+ * other cells are kept. When the report changed after `baseVersion`, cells
+ * someone else changed in the meantime are rejected as conflicts.
+ * @param reportId - The ID of the report to update
+ * @param patches - The changed cells
+ * @param baseVersion - Version of the report the changes were made on
+ * @returns Promise<APIResponse<CellsUpdateResult | null>>
+ */
+export const updateReportCellsById = async (
+  reportId: string,
+  patches: CellPatch[],
+  baseVersion: number
+): Promise<APIResponse<CellsUpdateResult | null>> => {
+  try {
+    const reportDocRef = doc(db, REPORTS_COLLECTION, reportId);
+
+    const result = await runTransaction(db, async (transaction): Promise<CellsUpdateResult | null> => {
+      const reportSnapshot = await transaction.get(reportDocRef);
+      if (!reportSnapshot.exists()) {
+        return null;
+      }
+
+      const { data, version } = toVersionedReport(reportSnapshot.data());
+      const conflicts = version !== baseVersion ? findCellConflicts(data, patches) : [];
+      const patchesToApply = withoutConflicts(patches, conflicts);
+
+      const patchedReport = applyCellPatches(data, patchesToApply);
+      const sectionNames = Array.from(new Set(patchesToApply.map((patch) => patch.section)))
+        .filter((sectionName) => patchedReport[sectionName]);
+      if (sectionNames.length === 0) {
+        return { version, conflicts };
+      }
+
+      // FieldPath keeps section names with spaces or dots intact
+      transaction.update(
+        reportDocRef,
+        VERSION_FIELD,
+        version + 1,
+        ...sectionNames.flatMap((sectionName) => [
+          new FieldPath(sectionName, 'items'),
+          patchedReport[sectionName].items,
+          // Formulas are only rewritten when a patch of the section changes one
+          ...(patchesToApply.some((patch) => patch.section === sectionName && patch.formula !== undefined)
+            ? [new FieldPath(sectionName, 'formulas'), patchedReport[sectionName].formulas]
+            : []),
+        ])
+      );
+      return { version: version + 1, conflicts };
+    });
+
+    if (!result) {
+      return createAPIResponse(null, 404, `Report with ID ${reportId} not found`);
+    }
+    if (result.conflicts.length > 0) {
+      return createAPIResponse(result, 409, `${result.conflicts.length} cells were changed by someone else`);
+    }
+
+    return createAPIResponse(result, 200, `Successfully updated ${patches.length} cells`);
+  } catch (error) {
+    console.error('Error updating report cells by ID:', error);
+    return createAPIResponse(null, 500, error instanceof Error ? error.message : 'Failed to update report cells');
   }
 };
+
+/**
+ * Listens to a report in Firestore and reports every change made to it
+ * Snapshots of this client's own pending writes are skipped, the grid
+ * already shows those optimistically.
+ * @param reportId - The ID of the report to listen to
+ * @param onChange - Called with the latest report data and version
+ * @param onError - Called when the listener fails
+ * @returns Unsubscribe function
+ */
+export const subscribeToReportById = (
+  reportId: string,
+  onChange: (report: VersionedReport) => void,
+  onError: (message: string) => void
+): Unsubscribe => {
+  const reportDocRef = doc(db, REPORTS_COLLECTION, reportId);
+
+  return onSnapshot(
+    reportDocRef,
+    (reportSnapshot) => {
+      if (!reportSnapshot.exists() || reportSnapshot.metadata.hasPendingWrites) {
+        return;
+      }
+      onChange(toVersionedReport(reportSnapshot.data()));
+    },
+    (error) => {
+      console.error('Error listening to report by ID:', error);
+      onError(error.message);
+    }
+  );
+};
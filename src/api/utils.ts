@@ -1,4 +1,6 @@
 import type { APIResponse } from "@/types/api";
+import type { CellConflict, CellPatch, ReportData } from "@/components/grid/types/common";
+import { ROW_ID_KEY } from "@/lib/cellKeys";
 
 export const createAPIResponse = <T>(
     data: T,
@@ -9,4 +11,78 @@ export const createAPIResponse = <T>(
     status,
     message,
     timestamp: new Date().toISOString(),
-  }); 
\ No newline at end of file
+  }); 
+
+/**
+ * Applies cell patches to a report, returning a new report
+ * Patches for sections or rows that no longer exist are skipped,
+ * so a concurrent delete doesn't fail unrelated changes.
+ * Formulas sent with a patch are stored next to the value.
+ */
+export const applyCellPatches = (
+    reportData: ReportData,
+    patches: CellPatch[]
+  ): ReportData => {
+    const patched: ReportData = { ...reportData };
+
+    for (const { section, rowId, key, value, formula } of patches) {
+      const sectionData = patched[section];
+      if (!sectionData) continue;
+
+      const itemIndex = sectionData.items.findIndex((item) => item[ROW_ID_KEY] === rowId);
+      if (itemIndex === -1) continue;
+
+      const items = [...sectionData.items];
+      items[itemIndex] = { ...items[itemIndex], [key]: value };
+      patched[section] = { ...sectionData, items };
+
+      if (formula !== undefined) {
+        const rowFormulas = { ...sectionData.formulas?.[rowId] };
+        if (formula === null) {
+          delete rowFormulas[key];
+        } else {
+          rowFormulas[key] = formula;
+        }
+        patched[section].formulas = { ...sectionData.formulas, [rowId]: rowFormulas };
+      }
+    }
+
+    return patched;
+  };
+
+/**
+ * Finds the patches whose cell was changed by someone else since the client read it
+ * A patch conflicts when the stored value differs from the value it was made on,
+ * unless the stored value already equals the new value.
+ */
+export const findCellConflicts = (
+    reportData: ReportData,
+    patches: CellPatch[]
+  ): CellConflict[] => {
+    const conflicts: CellConflict[] = [];
+
+    for (const { section, rowId, key, value, baseValue } of patches) {
+      if (baseValue === undefined) continue;
+
+      const item = reportData[section]?.items.find((item) => item[ROW_ID_KEY] === rowId);
+      if (!item) continue;
+
+      const storedValue = item[key] ?? '';
+      if (storedValue !== baseValue && storedValue !== value) {
+        conflicts.push({ section, rowId, key, theirValue: storedValue, yourValue: value });
+      }
+    }
+
+    return conflicts;
+  };
+
+/**
+ * Removes the patches that are part of the given conflicts
+ */
+export const withoutConflicts = (
+    patches: CellPatch[],
+    conflicts: CellConflict[]
+  ): CellPatch[] =>
+    patches.filter((patch) => !conflicts.some((conflict) =>
+      conflict.section === patch.section && conflict.rowId === patch.rowId && conflict.key === patch.key
+    ));
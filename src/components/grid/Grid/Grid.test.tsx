@@ -1,6 +1,10 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
-import { render, screen } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import type { ReportData } from "../types/common";
 import { Grid } from "./Grid";
+import { createInMemoryDataSource } from "@/api/dataSources/memoryDataSource";
+import { createAPIResponse } from "@/api/utils";
 
 // Mock the useReportData hook to return valid data
 const mockData = {
@@ -47,6 +51,23 @@ Object.defineProperty(window, "ResizeObserver", {
   })),
 });
 
+// The row virtualizer only renders rows that fit the container size,
+// which jsdom reports as zero
+const mockContainerSize = () => {
+  vi.spyOn(HTMLElement.prototype, "offsetHeight", "get").mockReturnValue(800);
+  vi.spyOn(HTMLElement.prototype, "offsetWidth", "get").mockReturnValue(1200);
+};
+
+const createReport = (product: string): ReportData => ({
+  Values: {
+    columns: [
+      { name: "Product", key: "product" },
+      { name: "2020", key: "2020" },
+    ],
+    items: [{ product, "2020": 100 }],
+  },
+});
+
 describe("Grid Component", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -54,14 +75,18 @@ describe("Grid Component", () => {
 
   describe("Basic Functionality", () => {
     it("should render without crashing", () => {
-      render(<Grid />);
+      render(
+        <Grid reportId="report1" dataSource={createInMemoryDataSource()} />
+      );
 
       // The component should render without throwing errors
       expect(document.body).toBeInTheDocument();
     });
 
     it("should render the main container structure", () => {
-      render(<Grid />);
+      render(
+        <Grid reportId="report1" dataSource={createInMemoryDataSource()} />
+      );
 
       // Check for main container
       const container = document.querySelector(
@@ -71,11 +96,239 @@ describe("Grid Component", () => {
     });
 
     it("should not show error state when data loads successfully", () => {
-      render(<Grid />);
+      render(
+        <Grid reportId="report1" dataSource={createInMemoryDataSource()} />
+      );
 
       // Should not contain error indicators
       expect(screen.queryByText(/error/i)).not.toBeInTheDocument();
       expect(screen.queryByText(/failed/i)).not.toBeInTheDocument();
     });
   });
+
+  describe("Multiple Reports", () => {
+    beforeEach(mockContainerSize);
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should render two grids for different reports side by side", async () => {
+      const dataSource = createInMemoryDataSource({
+        reports: {
+          first: createReport("First Product"),
+          second: createReport("Second Product"),
+        },
+      });
+
+      render(
+        <>
+          <Grid reportId="first" dataSource={dataSource} />
+          <Grid reportId="second" dataSource={dataSource} />
+        </>
+      );
+
+      expect(await screen.findByText("First Product")).toBeInTheDocument();
+      expect(await screen.findByText("Second Product")).toBeInTheDocument();
+    });
+
+    it("should only handle keys in the grid in use", async () => {
+      const user = userEvent.setup();
+      const dataSource = createInMemoryDataSource({
+        reports: {
+          first: createReport("First Product"),
+          second: createReport("Second Product"),
+        },
+      });
+
+      render(
+        <>
+          <input aria-label="Search" />
+          <Grid reportId="first" dataSource={dataSource} />
+          <Grid reportId="second" dataSource={dataSource} />
+        </>
+      );
+      await screen.findByText("Second Product");
+      const firstCell = screen.getByRole("gridcell", { name: /First Product/ });
+      const secondCell = screen.getByRole("gridcell", { name: /Second Product/ });
+
+      // Select all in an input elsewhere on the page is its own
+      await user.click(screen.getByRole("textbox", { name: "Search" }));
+      await user.keyboard("{Control>}a{/Control}");
+      expect(firstCell).toHaveAttribute("aria-selected", "false");
+      expect(secondCell).toHaveAttribute("aria-selected", "false");
+
+      await user.click(firstCell);
+      await user.keyboard("{Control>}a{/Control}");
+      expect(firstCell).toHaveAttribute("aria-selected", "true");
+      expect(secondCell).toHaveAttribute("aria-selected", "false");
+    });
+
+    it("should only paste into the grid in use", async () => {
+      const user = userEvent.setup();
+      const dataSource = createInMemoryDataSource({
+        reports: {
+          first: createReport("First Product"),
+          second: createReport("Second Product"),
+        },
+      });
+
+      render(
+        <>
+          <Grid reportId="first" dataSource={dataSource} />
+          <Grid reportId="second" dataSource={dataSource} />
+        </>
+      );
+      await screen.findByText("Second Product");
+
+      // Both grids keep a selection, only the one clicked last is in use
+      await user.click(screen.getByRole("gridcell", { name: /Second Product/ }));
+      await user.click(screen.getByRole("gridcell", { name: /First Product/ }));
+      await user.paste("Pasted Product");
+
+      // The saved report re-renders the cell, so the pasted value is looked up each time
+      await waitFor(() => expect(screen.getAllByText("Pasted Product")).toHaveLength(1));
+      expect(screen.getByText("Second Product")).toBeInTheDocument();
+    });
+  });
+
+  describe("Clipboard", () => {
+    beforeEach(mockContainerSize);
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should paste into a selected range from the active cell", async () => {
+      const user = userEvent.setup();
+      const dataSource = createInMemoryDataSource({
+        reports: {
+          first: {
+            Values: {
+              columns: [
+                { name: "Product", key: "product" },
+                { name: "2020", key: "2020" },
+              ],
+              items: [
+                { product: "Product A", "2020": 100 },
+                { product: "Product B", "2020": 200 },
+              ],
+            },
+          },
+        },
+      });
+
+      render(<Grid reportId="first" dataSource={dataSource} />);
+      await user.click(await screen.findByRole("gridcell", { name: /Product A/ }));
+      await user.keyboard("[ShiftLeft>]");
+      await user.click(screen.getByRole("gridcell", { name: /Product B/ }));
+      await user.keyboard("[/ShiftLeft]");
+      // Tab moves the active cell down to the second row of the range
+      await user.keyboard("{Tab}");
+      await user.paste("Pasted A\nPasted B");
+
+      await waitFor(() => expect(screen.getByText("Pasted A")).toBeInTheDocument());
+      expect(screen.getByText("Product A")).toBeInTheDocument();
+      expect(screen.queryByText("Product B")).not.toBeInTheDocument();
+      expect(screen.queryByText("Pasted B")).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Cell Saves", () => {
+    beforeEach(mockContainerSize);
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should undo an edit that could not be saved and say so", async () => {
+      const user = userEvent.setup();
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const dataSource = {
+        ...createInMemoryDataSource({ reports: { first: createReport("First Product") } }),
+        updateCells: vi.fn(() => Promise.resolve(createAPIResponse(null, 500, "Server unavailable"))),
+      };
+
+      render(<Grid reportId="first" dataSource={dataSource} />);
+      await user.dblClick(await screen.findByRole("gridcell", { name: /First Product/ }));
+      await user.keyboard("{Control>}a{/Control}Renamed Product{Enter}");
+
+      expect(await screen.findByRole("alert")).toHaveTextContent("Your change was undone: Server unavailable.");
+      expect(screen.getByText("First Product")).toBeInTheDocument();
+      expect(screen.queryByText("Renamed Product")).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole("button", { name: "Dismiss" }));
+      expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+    });
+
+    it("should say how many pasted values were invalid and skipped", async () => {
+      const user = userEvent.setup();
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const dataSource = createInMemoryDataSource({ reports: { first: createReport("First Product") } });
+
+      render(<Grid reportId="first" dataSource={dataSource} />);
+      await user.click(await screen.findByRole("gridcell", { name: /First Product/ }));
+      await user.paste("Pasted Product\tnot a number");
+
+      await waitFor(() => expect(screen.getByText("Pasted Product")).toBeInTheDocument());
+      expect(await screen.findByRole("alert")).toHaveTextContent("1 invalid value was skipped.");
+    });
+  });
+
+  describe("Structural Changes", () => {
+    beforeEach(mockContainerSize);
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should save a structural change after cell edits still being written", async () => {
+      const user = userEvent.setup();
+      const memoryDataSource = createInMemoryDataSource({ reports: { first: createReport("First Product") } });
+      // Without realtime updates the grid only learns the new version from the edit's response,
+      // the edit is stored right away and its response only arrives once released
+      let releaseCells = () => {};
+      const cellsResponded = new Promise<void>((resolve) => {
+        releaseCells = resolve;
+      });
+      const updateCells = vi.fn(async (...args: Parameters<typeof memoryDataSource.updateCells>) => {
+        const response = await memoryDataSource.updateCells(...args);
+        await cellsResponded;
+        return response;
+      });
+      const dataSource = { ...memoryDataSource, updateCells, subscribe: undefined };
+
+      render(<Grid reportId="first" dataSource={dataSource} />);
+      await user.dblClick(await screen.findByRole("gridcell", { name: /First Product/ }));
+      await user.keyboard("{Control>}a{/Control}Renamed Product{Enter}");
+      await waitFor(() => expect(updateCells).toHaveBeenCalled());
+
+      await user.pointer({ target: screen.getByLabelText("Row 1"), keys: "[MouseRight]" });
+      await user.click(await screen.findByRole("menuitem", { name: "Insert row below" }));
+      releaseCells();
+
+      await waitFor(async () => {
+        const stored = await dataSource.getReport("first");
+        expect(stored.data?.data.Values.items.map((item) => item.product)).toEqual(["Renamed Product", ""]);
+      });
+      expect(screen.getByLabelText("Row 2")).toBeInTheDocument();
+      expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+    });
+
+    it("should undo a structural change someone else's save rejected and say so", async () => {
+      const user = userEvent.setup();
+      const dataSource = {
+        ...createInMemoryDataSource({ reports: { first: createReport("First Product") } }),
+        updateReport: vi.fn(() => Promise.resolve(createAPIResponse(5, 409, "Report was changed by someone else"))),
+      };
+
+      render(<Grid reportId="first" dataSource={dataSource} />);
+      await screen.findByText("First Product");
+
+      await user.pointer({ target: screen.getByLabelText("Row 1"), keys: "[MouseRight]" });
+      await user.click(await screen.findByRole("menuitem", { name: "Insert row below" }));
+
+      expect(await screen.findByRole("alert")).toHaveTextContent("Someone else changed the report");
+      expect(screen.queryByLabelText("Row 2")).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole("button", { name: "Dismiss" }));
+      expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+    });
+  });
 });
@@ -1,52 +1,95 @@
 import * as React from "react";
 import {
   getCoreRowModel,
-  getSortedRowModel,
   useReactTable,
 } from "@tanstack/react-table";
 import type { SortingState } from "@tanstack/react-table";
-import type { CellPosition } from "../types/common";
+import type { CellData, CellMetadata, CellPosition } from "../types/common";
 import { useSelection } from "./hooks/useSelection/useSelection";
 import { createTableColumns } from "./tableColumns";
+import { getFilteredRowModelWithTotal, getSortedRowModelWithTotalLast } from "./rowModels";
 import { useEditData } from "./hooks/useEditData/useEditData";
 import useKeyboardEvents from "./hooks/useKeyboardEvents/useKeyboardEvents";
 import VirtualizedTable from "./components/VirtualizedTable/VirtualizedTable";
+import { ESTIMATED_ROW_HEIGHT } from "./components/VirtualizedTable/constants";
 import { FormattingToolbar } from "./components/FormattingToolbar/FormattingToolbar";
+import { StatusBar } from "./components/StatusBar/StatusBar";
+import { ConditionalFormatsDialog } from "./components/ConditionalFormatsDialog/ConditionalFormatsDialog";
+import { FindBar } from "./components/FindBar/FindBar";
+import { SaveErrorAlert } from "./components/SaveErrorAlert/SaveErrorAlert";
 import { useReportData } from "./hooks/useReportData/useReportData";
-import { REPORT_ID } from "@/api";
+import { ROW_ID_KEY } from "@/lib/cellKeys";
+import { getMetadataForCell, getSelectedCells } from "../utils/formatting";
+import { evaluateConditionalFormats, getDefaultConditionalFormats } from "../utils/conditionalFormatting";
+import { isTotalRow } from "../utils/derivedSections";
+import { useCellIdentity } from "./hooks/useCellIdentity/useCellIdentity";
+import { useHistory } from "./hooks/useHistory/useHistory";
+import { useClipboard } from "./hooks/useClipboard/useClipboard";
+import { useFormatPainter } from "./hooks/useFormatPainter/useFormatPainter";
+import { useColumnFilters } from "./hooks/useColumnFilters/useColumnFilters";
+import { useFindReplace } from "./hooks/useFindReplace/useFindReplace";
+import { useRowOperations } from "./hooks/useRowOperations/useRowOperations";
+import { useSaveReport } from "./hooks/useSaveReport/useSaveReport";
+import { useColumnOperations } from "./hooks/useColumnOperations/useColumnOperations";
+import { useFill } from "./hooks/useFill/useFill";
+import { useGridFocus } from "./hooks/useGridFocus/useGridFocus";
+import type { ReportDataSource } from "@/api/dataSources/types";
+import type { FormulaCell } from "../utils/formulas";
+import { ReportProvider } from "../contexts/ReportContext";
 import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+
+interface GridProps {
+  // Report to display, several grids can show different reports on one page
+  reportId: string;
+  // Backend the grid loads from and saves to
+  dataSource: ReportDataSource;
+  // Store the recomputed Total row, YoY Growth and Percent of Total cells along with edited values,
+  // useful when other consumers read the report straight from the backend
+  persistDerivedValues?: boolean;
+}
+
+const Grid: React.FC<GridProps> = ({ reportId, dataSource, persistDerivedValues = false }) => {
+  // Undo/redo history of value and formatting changes
+  const history = useHistory();
+  const { clear: clearHistory } = history;
+  React.useEffect(() => {
+    clearHistory();
+  }, [reportId, clearHistory]);
 
-const Grid: React.FC = () => {
   const {
     data,
     setData,
     updateCellFormatting,
     updateMultipleCellsFormatting,
+    conditionalFormats,
+    updateConditionalFormats,
     loading,
-  } = useReportData(REPORT_ID);
+  } = useReportData(reportId, dataSource, history.record);
   const [sorting, setSorting] = React.useState<SortingState>([]);
+  // Column filters are kept in the URL
+  const { columnFilters, onColumnFiltersChange } = useColumnFilters(reportId);
+  const [conditionalFormatsOpen, setConditionalFormatsOpen] = React.useState(false);
+
+  // Reports without saved rules color growth above and below zero
+  const conditionalFormatRules = React.useMemo(
+    () => conditionalFormats ?? getDefaultConditionalFormats(data.sections),
+    [conditionalFormats, data.sections]
+  );
+  const cellConditionalFormats = React.useMemo(
+    () => evaluateConditionalFormats(conditionalFormatRules, data.rows, reportId),
+    [conditionalFormatRules, data.rows, reportId]
+  );
 
   // Grid manages selection and edit state
   const selectionHook = useSelection();
-  const editHook = useEditData({ data, onDataUpdate: setData });
-
-  // Calculate grid dimensions
-  const totalRows = data.rows.length;
-  const totalColumns = data.columnOrder.length;
 
   // Ref for the scrollable container
   const tableContainerRef = React.useRef<HTMLDivElement>(null);
 
-  // Handle keyboard events at grid level
-  useKeyboardEvents({
-    selectionHook,
-    editHook,
-    totalRows,
-    totalColumns,
-    updateCellFormatting,
-    cellMetadata: data.cellMetadata,
-    updateMultipleCellsFormatting,
-  });
+  // Keyboard and clipboard events only act on the grid in use
+  const gridRef = React.useRef<HTMLDivElement>(null);
+  const isGridEvent = useGridFocus(gridRef);
 
   // Helper function to create cell position
   const createCellPosition = React.useCallback(
@@ -57,72 +100,325 @@ const Grid: React.FC = () => {
     []
   );
 
-  // Create selection context value with dimensions and edit state
-  const selectionContextValue = React.useMemo(
-    () => ({
-      ...selectionHook,
-      ...editHook,
-      totalRows,
-      totalColumns,
-    }),
-    [selectionHook, editHook, totalRows, totalColumns]
-  );
-
   // Create columns using TanStack Table's grouping
   const columns = React.useMemo(() => {
-    return createTableColumns(data, createCellPosition);
-  }, [data, createCellPosition]);
+    return createTableColumns(data, createCellPosition, reportId, cellConditionalFormats);
+  }, [data, createCellPosition, reportId, cellConditionalFormats]);
 
   const table = useReactTable({
     data: data.rows,
     columns,
+    // Rows are identified by their persistent ID rather than their index
+    getRowId: (row) => String(row[ROW_ID_KEY]),
     getCoreRowModel: getCoreRowModel(),
-    getSortedRowModel: getSortedRowModel(),
+    // Filters keep the Total row and recompute it over the rows they leave
+    getFilteredRowModel: getFilteredRowModelWithTotal(),
+    onColumnFiltersChange,
+    // Sorting never moves the Total row away from the bottom
+    getSortedRowModel: getSortedRowModelWithTotalLast(),
     onSortingChange: setSorting,
     state: {
       sorting,
+      columnFilters,
     },
+    meta: {
+      sections: data.sections,
+    },
+  });
+
+  // Calculate grid dimensions from the displayed rows
+  const totalRows = table.getRowModel().rows.length;
+  const totalColumns = data.columnOrder.length;
+
+  // Positions refer to other rows once filters change, start over with no selection
+  const { clearSelection } = selectionHook;
+  React.useEffect(() => {
+    clearSelection();
+  }, [columnFilters, clearSelection]);
+
+  // Positions follow the displayed row order, edits and formatting follow IDs
+  const { resolveCell, getCellKey, getCellPosition } = useCellIdentity({
+    table,
+    columnOrder: data.columnOrder,
+    reportId,
+  });
+
+  const editHook = useEditData({
+    data,
+    onDataUpdate: setData,
+    dataSource,
+    reportId,
+    resolveCell,
+    getCellPosition,
+    onHistoryRecord: history.record,
+    persistDerivedValues,
+  });
+
+  // Inserting, deleting and moving rows or columns saves the whole report
+  const { saveReport, saveError, clearSaveError } = useSaveReport({
+    data,
+    onDataUpdate: setData,
+    dataSource,
+    reportId,
+    getSavedVersion: editHook.getSavedVersion,
+  });
+  const rowOperations = useRowOperations({
+    data,
+    saveReport,
+    selectionHook,
+    resolveCell,
+  });
+  const columnOperations = useColumnOperations({ data, saveReport, selectionHook });
+
+  // Sorting and filters of deleted columns go with them, filters read from
+  // the URL wait for the report to load
+  React.useEffect(() => {
+    if (data.columnOrder.length === 0) return;
+    const columnIds = new Set(data.columnOrder);
+    setSorting((prev) => (prev.every(({ id }) => columnIds.has(id)) ? prev : prev.filter(({ id }) => columnIds.has(id))));
+    onColumnFiltersChange((prev) =>
+      prev.every(({ id }) => columnIds.has(id)) ? prev : prev.filter(({ id }) => columnIds.has(id))
+    );
+  }, [data.columnOrder, onColumnFiltersChange]);
+
+  // Undo/redo write back through the same save paths as the original change
+  const historyHandlers = {
+    saveCellValues: editHook.saveCellValues,
+    updateMultipleCellsFormatting,
+  };
+  const handleUndo = () => void history.undo(historyHandlers);
+  const handleRedo = () => void history.redo(historyHandlers);
+
+  // Ctrl+Arrow jumps over empty cells of the displayed rows
+  const isCellEmpty = React.useCallback((position: CellPosition) => {
+    const row = table.getRowModel().rows[position.row];
+    const value = row?.original[data.columnOrder[position.column]];
+    return value === undefined || String(value).trim() === "";
+  }, [table, data.columnOrder]);
+
+  // Metadata a displayed cell starts with before any formatting is applied
+  const getDefaultCellMetadata = React.useCallback((position: CellPosition): CellMetadata | null => {
+    const row = table.getRowModel().rows[position.row];
+    const columnId = data.columnOrder[position.column];
+    if (!row || columnId === undefined) return null;
+
+    return getMetadataForCell(columnId, data.columnMapping.get(columnId)?.originalSection ?? "", isTotalRow(row.original));
+  }, [table, data]);
+
+  // Value and metadata of a displayed cell, the same ones the cell renders with
+  const getCellData = React.useCallback((position: CellPosition): CellData | null => {
+    const row = table.getRowModel().rows[position.row];
+    const columnId = data.columnOrder[position.column];
+    const cellKey = getCellKey(position);
+    const defaultMetadata = getDefaultCellMetadata(position);
+    if (!row || columnId === undefined || !cellKey || !defaultMetadata) return null;
+
+    const metadata = data.cellMetadata.get(cellKey) || defaultMetadata;
+    return { rawValue: row.original[columnId] ?? "", metadata, position };
+  }, [table, data, getCellKey, getDefaultCellMetadata]);
+
+  // Text a displayed cell is edited with, its formula or raw value
+  const getEditText = React.useCallback((position: CellPosition): string => {
+    const row = table.getRowModel().rows[position.row];
+    const columnId = data.columnOrder[position.column];
+    const cellKey = getCellKey(position);
+    if (!row || columnId === undefined || !cellKey) return "";
+
+    return data.formulas.get(cellKey) ?? String(row.original[columnId] ?? "");
+  }, [table, data, getCellKey]);
+
+  const getColumnSection = React.useCallback(
+    (column: number) => data.columnMapping.get(data.columnOrder[column])?.section,
+    [data]
+  );
+
+  // Find and replace over the displayed cells
+  const findReplace = useFindReplace({
+    selectionHook,
+    rows: table.getRowModel().rows,
+    totalColumns,
+    getCellData,
+    getEditText,
+    getColumnSection,
+    resolveCell,
+    isCellReadOnly: editHook.isCellReadOnly,
+    saveCellInputs: editHook.saveCellInputs,
+  });
+
+  // Position of a displayed cell in the stored row order formulas refer to
+  const getFormulaCell = React.useCallback((position: CellPosition): FormulaCell | null => {
+    const identity = resolveCell(position);
+    if (!identity) return null;
+
+    const row = data.rows.findIndex((storedRow) => String(storedRow[ROW_ID_KEY]) === identity.rowId);
+    return row === -1 ? null : { row, column: position.column };
+  }, [data.rows, resolveCell]);
+
+  // Fill handle and Ctrl+D/Ctrl+R fill the selection like typing into each cell
+  const fill = useFill({
+    selectionHook,
+    getEditText,
+    resolveCell,
+    getFormulaCell,
+    saveCellInputs: editHook.saveCellInputs,
   });
 
+  // Selected cells offered as the target of new conditional formatting rules
+  const conditionalFormatSelection = React.useMemo(
+    () =>
+      conditionalFormatsOpen
+        ? getSelectedCells(selectionHook).flatMap((position) => resolveCell(position) ?? [])
+        : [],
+    [conditionalFormatsOpen, selectionHook, resolveCell]
+  );
+
+  // PageUp/PageDown move by the rows visible in the scroll container, less the sticky header rows
+  const getPageSize = React.useCallback(() => {
+    const viewportHeight = tableContainerRef.current?.clientHeight ?? 0;
+    return Math.floor(viewportHeight / ESTIMATED_ROW_HEIGHT) - table.getHeaderGroups().length;
+  }, [table]);
+
+  // Handle keyboard events at grid level
+  useKeyboardEvents({
+    selectionHook,
+    editHook,
+    isGridEvent,
+    totalRows,
+    totalColumns,
+    updateCellFormatting,
+    cellMetadata: data.cellMetadata,
+    getCellKey,
+    updateMultipleCellsFormatting,
+    onUndo: handleUndo,
+    onRedo: handleRedo,
+    isCellEmpty,
+    getPageSize,
+    getDefaultCellMetadata,
+    onFind: findReplace.open,
+    onFill: (direction) => void fill.fillSelection(direction),
+  });
+
+  // Copies the formatting of one cell onto the next selection
+  const formatPainter = useFormatPainter({
+    selectionHook,
+    getCellKey,
+    cellMetadata: data.cellMetadata,
+    updateCellFormatting,
+    updateMultipleCellsFormatting,
+  });
+
+  // Copy, cut and paste of the selected cells
+  useClipboard({
+    selectionHook,
+    editHook,
+    isGridEvent,
+    data,
+    totalRows,
+    totalColumns,
+    resolveCell,
+    getCellKey,
+  });
+
+  // Create selection context value with dimensions and edit state
+  const selectionContextValue = React.useMemo(
+    () => ({
+      ...selectionHook,
+      ...editHook,
+      totalRows,
+      totalColumns,
+      getFindMatch: findReplace.getMatchState,
+      fillHandleCell: fill.handleCell,
+      isFilling: fill.isFilling,
+      isCellInFillRange: fill.isCellInFillRange,
+      startFill: fill.startFill,
+      updateFill: fill.updateFill,
+    }),
+    [
+      selectionHook,
+      editHook,
+      totalRows,
+      totalColumns,
+      findReplace.getMatchState,
+      fill.handleCell,
+      fill.isFilling,
+      fill.isCellInFillRange,
+      fill.startFill,
+      fill.updateFill,
+    ]
+  );
+
+  // Report context shared with the toolbar and other grid components
+  const reportContextValue = React.useMemo(
+    () => ({ reportId, dataSource, getCellKey, rowOperations, columnOperations }),
+    [reportId, dataSource, getCellKey, rowOperations, columnOperations]
+  );
+
   return (
-    <div className="rounded-md border bg-card relative">
-      <VirtualizedTable
-        table={table}
-        tableContainerRef={tableContainerRef}
-        selectionContextValue={selectionContextValue}
-      />
-      <FormattingToolbar
-        selectionHook={selectionHook}
-        updateCellFormatting={updateCellFormatting}
-        cellMetadata={data.cellMetadata}
-        targetRef={tableContainerRef}
-      />
-
-      {/* TODO: move into a separate component */}
-      {loading && (
-        <div className="absolute inset-0 w-full h-full bg-background/80 backdrop-blur-sm z-50 p-4">
-          <div className="w-full h-full space-y-4">
-            {/* Full-width skeletons at top */}
-            <Skeleton className="h-10 w-full" />
-            <Skeleton className="h-8 w-full" />
-
-            {/* Table-like cell skeletons */}
-            <div className="space-y-2 mt-6 overflow-hidden h-full max-h-[calc(100%-8rem)]">
-              {Array.from({ length: 25 }).map((_, i) => (
-                <div key={i} className="grid grid-cols-6 gap-4 w-full">
-                  <Skeleton className="h-6 col-span-1" />
-                  <Skeleton className="h-6 col-span-1" />
-                  <Skeleton className="h-6 col-span-1" />
-                  <Skeleton className="h-6 col-span-1" />
-                  <Skeleton className="h-6 col-span-1" />
-                  <Skeleton className="h-6 col-span-1" />
-                </div>
-              ))}
+    <ReportProvider value={reportContextValue}>
+      <div
+        ref={gridRef}
+        className={cn(
+          "rounded-md border bg-card relative",
+          formatPainter.isActive && "[&_[role=gridcell]]:cursor-copy"
+        )}
+      >
+        {saveError && <SaveErrorAlert message={saveError} onDismiss={clearSaveError} />}
+        {editHook.saveError && (
+          <SaveErrorAlert message={editHook.saveError} onDismiss={editHook.clearSaveError} />
+        )}
+        <VirtualizedTable
+          table={table}
+          tableContainerRef={tableContainerRef}
+          columnOrder={data.columnOrder}
+          selectionContextValue={selectionContextValue}
+        />
+        <FindBar findReplace={findReplace} sections={data.sections.map(({ name }) => name)} />
+        <StatusBar selectionHook={selectionHook} getCellData={getCellData} />
+        <FormattingToolbar
+          selectionHook={selectionHook}
+          updateCellFormatting={updateCellFormatting}
+          updateMultipleCellsFormatting={updateMultipleCellsFormatting}
+          cellMetadata={data.cellMetadata}
+          targetRef={tableContainerRef}
+          onOpenConditionalFormats={() => setConditionalFormatsOpen(true)}
+          formatPainter={formatPainter}
+          getDefaultCellMetadata={getDefaultCellMetadata}
+        />
+        <ConditionalFormatsDialog
+          open={conditionalFormatsOpen}
+          onOpenChange={setConditionalFormatsOpen}
+          rules={conditionalFormatRules}
+          onRulesChange={(rules) => void updateConditionalFormats(rules)}
+          sections={data.sections}
+          selection={conditionalFormatSelection}
+        />
+
+        {/* TODO: move into a separate component */}
+        {loading && (
+          <div className="absolute inset-0 w-full h-full bg-background/80 backdrop-blur-sm z-50 p-4">
+            <div className="w-full h-full space-y-4">
+              {/* Full-width skeletons at top */}
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-8 w-full" />
+
+              {/* Table-like cell skeletons */}
+              <div className="space-y-2 mt-6 overflow-hidden h-full max-h-[calc(100%-8rem)]">
+                {Array.from({ length: 25 }).map((_, i) => (
+                  <div key={i} className="grid grid-cols-6 gap-4 w-full">
+                    <Skeleton className="h-6 col-span-1" />
+                    <Skeleton className="h-6 col-span-1" />
+                    <Skeleton className="h-6 col-span-1" />
+                    <Skeleton className="h-6 col-span-1" />
+                    <Skeleton className="h-6 col-span-1" />
+                    <Skeleton className="h-6 col-span-1" />
+                  </div>
+                ))}
+              </div>
             </div>
           </div>
-        </div>
-      )}
-    </div>
+        )}
+      </div>
+    </ReportProvider>
   );
 };
 
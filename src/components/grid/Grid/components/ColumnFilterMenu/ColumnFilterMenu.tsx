@@ -0,0 +1,242 @@
+import * as React from "react";
+import { Filter } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import type { ColumnFilter } from "../../../types/common";
+import { describeColumnFilter } from "../../../utils/columnFilters";
+
+interface ColumnFilterMenuProps {
+  columnName: string;
+  filter: ColumnFilter | undefined;
+  // Undefined removes the filter
+  onFilterChange: (filter: ColumnFilter | undefined) => void;
+  // Values offered by the checklist, numeric columns get conditions instead
+  options?: string[];
+}
+
+type NumericFilterType = Exclude<ColumnFilter["type"], "values">;
+
+const NUMERIC_FILTERS: Array<{ type: NumericFilterType; label: string }> = [
+  { type: "greaterThan", label: "Greater than" },
+  { type: "lessThan", label: "Less than" },
+  { type: "between", label: "Between" },
+  { type: "top", label: "Top N" },
+];
+
+/**
+ * Numeric filter described by the form, null while a number is missing
+ */
+const buildNumericFilter = (
+  type: NumericFilterType,
+  first: string,
+  second: string
+): ColumnFilter | null => {
+  const toNumber = (value: string) => (value.trim() === "" || isNaN(Number(value)) ? null : Number(value));
+  const a = toNumber(first);
+  const b = toNumber(second);
+
+  switch (type) {
+    case "greaterThan":
+    case "lessThan":
+      return a === null ? null : { type, value: a };
+    case "between":
+      return a === null || b === null ? null : { type, min: a, max: b };
+    case "top":
+      return a === null || a < 1 ? null : { type, count: Math.floor(a) };
+  }
+};
+
+/**
+ * Number shown in the first input for a filter: its value, lower bound or count
+ */
+const getFirstValue = (filter: ColumnFilter | undefined): string => {
+  switch (filter?.type) {
+    case "greaterThan":
+    case "lessThan":
+      return String(filter.value);
+    case "between":
+      return String(filter.min);
+    case "top":
+      return String(filter.count);
+    default:
+      return "";
+  }
+};
+
+/**
+ * ColumnFilterMenu - Filter button of a column header with a value checklist
+ * or numeric conditions, changes apply when the Apply button is pressed
+ */
+const ColumnFilterMenu: React.FC<ColumnFilterMenuProps> = ({
+  columnName,
+  filter,
+  onFilterChange,
+  options,
+}) => {
+  const [open, setOpen] = React.useState(false);
+  const [search, setSearch] = React.useState("");
+  const [checkedValues, setCheckedValues] = React.useState<string[]>([]);
+  const [numericType, setNumericType] = React.useState<NumericFilterType>("greaterThan");
+  const [first, setFirst] = React.useState("");
+  const [second, setSecond] = React.useState("");
+
+  // The form starts from the current filter each time the menu opens
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setSearch("");
+      setCheckedValues(filter?.type === "values" ? filter.values : options ?? []);
+      setNumericType(filter && filter.type !== "values" ? filter.type : "greaterThan");
+      setFirst(getFirstValue(filter));
+      setSecond(filter?.type === "between" ? String(filter.max) : "");
+    }
+    setOpen(isOpen);
+  };
+
+  const visibleOptions = (options ?? []).filter((value) =>
+    value.toLowerCase().includes(search.trim().toLowerCase())
+  );
+  const numericFilter = options ? null : buildNumericFilter(numericType, first, second);
+
+  const apply = () => {
+    if (options) {
+      // Every value checked is the same as no filter
+      onFilterChange(
+        checkedValues.length === options.length ? undefined : { type: "values", values: checkedValues }
+      );
+    } else if (numericFilter) {
+      onFilterChange(numericFilter);
+    }
+    setOpen(false);
+  };
+
+  const clear = () => {
+    onFilterChange(undefined);
+    setOpen(false);
+  };
+
+  const toggleValue = (value: string, checked: boolean) =>
+    setCheckedValues((prev) => (checked ? [...prev, value] : prev.filter((item) => item !== value)));
+
+  const label = filter
+    ? `Filter ${columnName}: ${describeColumnFilter(filter)}`
+    : `Filter ${columnName}`;
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            "h-6 w-6 p-0 shrink-0",
+            filter ? "text-blue-600 hover:text-blue-700" : "text-slate-400 hover:text-slate-600"
+          )}
+          aria-label={label}
+          title={label}
+          // Opening the menu doesn't sort the column
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Filter className="h-3.5 w-3.5" fill={filter ? "currentColor" : "none"} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        aria-label={`Filter ${columnName}`}
+        className="w-64 p-3 font-normal"
+        align="start"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {options ? (
+          <div className="grid gap-2">
+            <Input
+              placeholder="Search values"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="h-8"
+            />
+            <div className="flex justify-between text-xs">
+              <button type="button" className="text-blue-600 hover:underline" onClick={() => setCheckedValues(options)}>
+                Select all
+              </button>
+              <button type="button" className="text-blue-600 hover:underline" onClick={() => setCheckedValues([])}>
+                Clear
+              </button>
+            </div>
+            <ul className="max-h-48 overflow-y-auto grid gap-1">
+              {visibleOptions.map((value) => (
+                <li key={value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`filter-${columnName}-${value}`}
+                    checked={checkedValues.includes(value)}
+                    onCheckedChange={(checked) => toggleValue(value, checked === true)}
+                  />
+                  <Label htmlFor={`filter-${columnName}-${value}`} className="font-normal truncate">
+                    {value === "" ? "(Blanks)" : value}
+                  </Label>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <div className="grid gap-2">
+            <Select value={numericType} onValueChange={(value) => setNumericType(value as NumericFilterType)}>
+              <SelectTrigger className="w-full h-8" aria-label="Condition">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {NUMERIC_FILTERS.map(({ type, label }) => (
+                  <SelectItem key={type} value={type}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                aria-label={numericType === "between" ? "From" : numericType === "top" ? "Number of rows" : "Value"}
+                value={first}
+                onChange={(e) => setFirst(e.target.value)}
+                className="h-8"
+              />
+              {numericType === "between" && (
+                <Input
+                  type="number"
+                  aria-label="To"
+                  value={second}
+                  onChange={(e) => setSecond(e.target.value)}
+                  className="h-8"
+                />
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-3 flex justify-end gap-2">
+          <Button type="button" size="sm" variant="outline" disabled={!filter} onClick={clear}>
+            Clear filter
+          </Button>
+          <Button type="button" size="sm" disabled={!options && !numericFilter} onClick={apply}>
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export { ColumnFilterMenu };
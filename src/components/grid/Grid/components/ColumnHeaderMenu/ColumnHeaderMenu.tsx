@@ -0,0 +1,97 @@
+import * as React from "react";
+import { ArrowLeftToLine, ArrowRightToLine, Pencil, Trash2 } from "lucide-react";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import { useReportContext } from "../../../contexts/ReportContext";
+import type { ColumnMetadata } from "../../hooks/useReportData/utils";
+import type { ColumnPlacement } from "../../hooks/useColumnOperations/types";
+import { NameDialog } from "../NameDialog/NameDialog";
+
+interface ColumnHeaderMenuProps {
+  column: ColumnMetadata;
+  children: React.ReactNode;
+}
+
+type ColumnDialog = { type: "period"; placement: ColumnPlacement } | { type: "rename" };
+
+/**
+ * ColumnHeaderMenu - Right click menu of a data column header
+ * New periods are added to every section holding the column's period.
+ */
+const ColumnHeaderMenu: React.FC<ColumnHeaderMenuProps> = ({ column, children }) => {
+  const { columnOperations } = useReportContext();
+  const [dialog, setDialog] = React.useState<ColumnDialog | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setDialog(null);
+  };
+
+  return (
+    <>
+      <ContextMenu>
+        <ContextMenuTrigger asChild>
+          <div className="flex flex-1 items-center" data-column-header={column.id}>
+            {children}
+          </div>
+        </ContextMenuTrigger>
+        {/* Focus goes to the dialog opened from the menu */}
+        <ContextMenuContent onCloseAutoFocus={(e) => e.preventDefault()}>
+          <ContextMenuItem onSelect={() => setDialog({ type: "period", placement: "left" })}>
+            <ArrowLeftToLine />
+            Insert period left
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => setDialog({ type: "period", placement: "right" })}>
+            <ArrowRightToLine />
+            Insert period right
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => setDialog({ type: "rename" })}>
+            <Pencil />
+            Rename column
+          </ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem
+            variant="destructive"
+            disabled={!columnOperations.canDeleteColumn(column.id)}
+            onSelect={() => void columnOperations.deleteColumn(column.id)}
+          >
+            <Trash2 />
+            Delete column
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+
+      {dialog?.type === "period" && (
+        <NameDialog
+          open
+          onOpenChange={handleOpenChange}
+          title={`Insert period ${dialog.placement} of ${column.name}`}
+          description={`Adds the period to every section with a ${column.name} column.`}
+          label="Period"
+          submitLabel="Insert"
+          validate={(period) => columnOperations.getPeriodError(column.id, period)}
+          onSubmit={(period) => void columnOperations.addPeriod(column.id, dialog.placement, period)}
+        />
+      )}
+      {dialog?.type === "rename" && (
+        <NameDialog
+          open
+          onOpenChange={handleOpenChange}
+          title="Rename column"
+          description={`Changes the header of ${column.section} ${column.name}, its values stay as they are.`}
+          label="Column name"
+          submitLabel="Rename"
+          initialName={column.name}
+          validate={(name) => (name === "" ? "Enter a column name" : null)}
+          onSubmit={(name) => void columnOperations.renameColumn(column.id, name)}
+        />
+      )}
+    </>
+  );
+};
+
+export { ColumnHeaderMenu };
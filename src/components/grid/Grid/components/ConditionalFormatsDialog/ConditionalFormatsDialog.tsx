@@ -0,0 +1,403 @@
+import * as React from "react";
+import { ArrowDown, ArrowUp, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  CellIdentity,
+  ConditionalFormatCondition,
+  ConditionalFormatRule,
+} from "../../../types/common";
+import type { SectionMetadata } from "../../hooks/useReportData/utils";
+import { describeCondition, isHighlightRule } from "../../../utils/conditionalFormatting";
+import { FILL_COLORS, TEXT_COLORS } from "../../../utils/colors";
+
+interface ConditionalFormatsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Rules in priority order, the first matching rule wins
+  rules: ConditionalFormatRule[];
+  onRulesChange: (rules: ConditionalFormatRule[]) => void;
+  sections: SectionMetadata[];
+  // Selected cells, offered as the target of new rules
+  selection: CellIdentity[];
+}
+
+const CONDITION_TYPES: Array<{ type: ConditionalFormatCondition["type"]; label: string }> = [
+  { type: "greaterThan", label: "Greater than" },
+  { type: "lessThan", label: "Less than" },
+  { type: "between", label: "Between" },
+  { type: "top", label: "Top N" },
+  { type: "bottom", label: "Bottom N" },
+  { type: "negative", label: "Negative values" },
+  { type: "colorScale", label: "Color scale" },
+  { type: "dataBar", label: "Data bars" },
+  { type: "iconSet", label: "Icon set" },
+];
+
+// Select items can't have an empty value
+const NO_COLOR = "none";
+
+// Fields of the add rule form, numbers are kept as typed until the rule is added
+interface RuleDraft {
+  target: string;
+  type: ConditionalFormatCondition["type"];
+  value: string;
+  min: string;
+  max: string;
+  count: string;
+  minColor: string;
+  maxColor: string;
+  color: string;
+  icons: "arrows" | "circles";
+  backgroundColor: string;
+  textColor: string;
+  bold: boolean;
+}
+
+const INITIAL_DRAFT: Omit<RuleDraft, "target"> = {
+  type: "greaterThan",
+  value: "0",
+  min: "0",
+  max: "100",
+  count: "3",
+  minColor: "#ffffff",
+  maxColor: "#16a34a",
+  color: "#2563eb",
+  icons: "arrows",
+  backgroundColor: FILL_COLORS[4].value,
+  textColor: NO_COLOR,
+  bold: false,
+};
+
+/**
+ * Condition described by the form, null while a number is missing
+ */
+const buildCondition = (draft: RuleDraft): ConditionalFormatCondition | null => {
+  const toNumber = (value: string) => (value.trim() === "" || isNaN(Number(value)) ? null : Number(value));
+
+  switch (draft.type) {
+    case "greaterThan":
+    case "lessThan": {
+      const value = toNumber(draft.value);
+      return value === null ? null : { type: draft.type, value };
+    }
+    case "between": {
+      const min = toNumber(draft.min);
+      const max = toNumber(draft.max);
+      return min === null || max === null ? null : { type: "between", min, max };
+    }
+    case "top":
+    case "bottom": {
+      const count = toNumber(draft.count);
+      return count === null || count < 1 ? null : { type: draft.type, count: Math.floor(count) };
+    }
+    case "negative":
+      return { type: "negative" };
+    case "colorScale":
+      return { type: "colorScale", minColor: draft.minColor, maxColor: draft.maxColor };
+    case "dataBar":
+      return { type: "dataBar", color: draft.color };
+    case "iconSet":
+      return { type: "iconSet", icons: draft.icons };
+  }
+};
+
+/**
+ * ConditionalFormatsDialog - Lists the conditional formatting rules of the report
+ * and adds rules for the selected cells, their columns or a whole section
+ */
+const ConditionalFormatsDialog: React.FC<ConditionalFormatsDialogProps> = ({
+  open,
+  onOpenChange,
+  rules,
+  onRulesChange,
+  sections,
+  selection,
+}) => {
+  const hasSelection = selection.length > 0;
+  const [draft, setDraft] = React.useState<RuleDraft>({ ...INITIAL_DRAFT, target: "selection" });
+
+  // Start from the selection each time the dialog opens
+  React.useEffect(() => {
+    if (open) {
+      setDraft((prev) => ({ ...prev, target: hasSelection ? "selection" : `section:${sections[0]?.name ?? ""}` }));
+    }
+  }, [open, hasSelection, sections]);
+
+  const columnNames = React.useMemo(
+    () =>
+      new Map(
+        sections.flatMap((section) =>
+          section.columns.map((column) => [column.id, `${section.name} ${column.name}`] as const)
+        )
+      ),
+    [sections]
+  );
+
+  const setField = <K extends keyof RuleDraft>(field: K, value: RuleDraft[K]) =>
+    setDraft((prev) => ({ ...prev, [field]: value }));
+
+  const condition = buildCondition(draft);
+
+  const addRule = () => {
+    if (!condition) return;
+
+    let columnIds: string[];
+    let rowIds: string[] | undefined;
+    if (draft.target.startsWith("section:")) {
+      const section = sections.find(({ name }) => `section:${name}` === draft.target);
+      columnIds = section?.columns.map(({ id }) => id) ?? [];
+    } else {
+      columnIds = [...new Set(selection.map(({ columnId }) => columnId))];
+      rowIds = draft.target === "selection" ? [...new Set(selection.map(({ rowId }) => rowId))] : undefined;
+    }
+    if (columnIds.length === 0) return;
+
+    const rule: ConditionalFormatRule = {
+      id: `rule-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      columnIds,
+      condition,
+      ...(rowIds && { rowIds }),
+    };
+    if (isHighlightRule(condition)) {
+      rule.style = {
+        ...(draft.backgroundColor !== NO_COLOR && { backgroundColor: draft.backgroundColor }),
+        ...(draft.textColor !== NO_COLOR && { textColor: draft.textColor }),
+        ...(draft.bold && { bold: true }),
+      };
+    }
+    onRulesChange([...rules, rule]);
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const newRules = [...rules];
+    const [rule] = newRules.splice(index, 1);
+    newRules.splice(index + offset, 0, rule);
+    onRulesChange(newRules);
+  };
+
+  const describeTarget = (rule: ConditionalFormatRule) => {
+    const columns = rule.columnIds.map((id) => columnNames.get(id) ?? id).join(", ");
+    return rule.rowIds ? `${columns} (${rule.rowIds.length} rows)` : columns;
+  };
+
+  const renderColorSelect = (
+    field: "backgroundColor" | "textColor",
+    label: string,
+    colors: typeof FILL_COLORS
+  ) => (
+    <div className="grid gap-1">
+      <Label htmlFor={`conditional-${field}`}>{label}</Label>
+      <Select value={draft[field]} onValueChange={(value) => setField(field, value)}>
+        <SelectTrigger id={`conditional-${field}`} className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_COLOR}>None</SelectItem>
+          {colors.map((color) => (
+            <SelectItem key={color.value} value={color.value}>
+              <span className="h-3 w-3 rounded-sm border" style={{ backgroundColor: color.value }} />
+              {color.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const renderNumberInput = (field: "value" | "min" | "max" | "count", label: string) => (
+    <div className="grid gap-1">
+      <Label htmlFor={`conditional-${field}`}>{label}</Label>
+      <Input
+        id={`conditional-${field}`}
+        type="number"
+        value={draft[field]}
+        onChange={(e) => setField(field, e.target.value)}
+      />
+    </div>
+  );
+
+  const renderColorInput = (field: "minColor" | "maxColor" | "color", label: string) => (
+    <div className="grid gap-1">
+      <Label htmlFor={`conditional-${field}`}>{label}</Label>
+      <Input
+        id={`conditional-${field}`}
+        type="color"
+        className="p-1"
+        value={draft[field]}
+        onChange={(e) => setField(field, e.target.value)}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Conditional formatting</DialogTitle>
+          <DialogDescription>
+            Rules are checked from top to bottom, a rule listed higher wins where both apply.
+          </DialogDescription>
+        </DialogHeader>
+
+        {rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No rules yet.</p>
+        ) : (
+          <ul className="divide-y rounded-md border" aria-label="Rules">
+            {rules.map((rule, index) => (
+              <li key={rule.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                <span
+                  className="h-4 w-4 shrink-0 rounded-sm border"
+                  style={{ backgroundColor: rule.style?.backgroundColor ?? rule.style?.textColor }}
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium">{describeCondition(rule.condition)}</p>
+                  <p className="truncate text-xs text-muted-foreground">{describeTarget(rule)}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  aria-label="Move rule up"
+                  disabled={index === 0}
+                  onClick={() => moveRule(index, -1)}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  aria-label="Move rule down"
+                  disabled={index === rules.length - 1}
+                  onClick={() => moveRule(index, 1)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  aria-label="Delete rule"
+                  onClick={() => onRulesChange(rules.filter(({ id }) => id !== rule.id))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-2 gap-3 rounded-md border p-3">
+          <div className="grid gap-1">
+            <Label htmlFor="conditional-target">Apply to</Label>
+            <Select value={draft.target} onValueChange={(value) => setField("target", value)}>
+              <SelectTrigger id="conditional-target" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="selection" disabled={!hasSelection}>Selected cells</SelectItem>
+                <SelectItem value="columns" disabled={!hasSelection}>Selected columns</SelectItem>
+                {sections
+                  .filter((section) => section.type !== "product")
+                  .map((section) => (
+                    <SelectItem key={section.name} value={`section:${section.name}`}>
+                      {section.name} section
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-1">
+            <Label htmlFor="conditional-type">Format cells when</Label>
+            <Select
+              value={draft.type}
+              onValueChange={(value) => setField("type", value as RuleDraft["type"])}
+            >
+              <SelectTrigger id="conditional-type" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONDITION_TYPES.map(({ type, label }) => (
+                  <SelectItem key={type} value={type}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {(draft.type === "greaterThan" || draft.type === "lessThan") && renderNumberInput("value", "Value")}
+          {draft.type === "between" && (
+            <>
+              {renderNumberInput("min", "From")}
+              {renderNumberInput("max", "To")}
+            </>
+          )}
+          {(draft.type === "top" || draft.type === "bottom") && renderNumberInput("count", "Number of cells")}
+          {draft.type === "colorScale" && (
+            <>
+              {renderColorInput("minColor", "Lowest value")}
+              {renderColorInput("maxColor", "Highest value")}
+            </>
+          )}
+          {draft.type === "dataBar" && renderColorInput("color", "Bar color")}
+          {draft.type === "iconSet" && (
+            <div className="grid gap-1">
+              <Label htmlFor="conditional-icons">Icons</Label>
+              <Select value={draft.icons} onValueChange={(value) => setField("icons", value as RuleDraft["icons"])}>
+                <SelectTrigger id="conditional-icons" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="arrows">Arrows</SelectItem>
+                  <SelectItem value="circles">Circles</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {condition && isHighlightRule(condition) && (
+            <>
+              {renderColorSelect("backgroundColor", "Fill color", FILL_COLORS)}
+              {renderColorSelect("textColor", "Text color", TEXT_COLORS)}
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="conditional-bold"
+                  checked={draft.bold}
+                  onCheckedChange={(checked) => setField("bold", checked === true)}
+                />
+                <Label htmlFor="conditional-bold">Bold</Label>
+              </div>
+            </>
+          )}
+
+          <div className="col-span-2 flex justify-end">
+            <Button type="button" size="sm" disabled={!condition} onClick={addRule}>
+              Add rule
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export { ConditionalFormatsDialog };
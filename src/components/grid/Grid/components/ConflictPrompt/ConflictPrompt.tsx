@@ -0,0 +1,72 @@
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverAnchor,
+  PopoverContent,
+} from "@/components/ui/popover";
+import { formatValue } from "../../../utils/formatting";
+import type { CellMetadata } from "../../../types/common";
+import type { EditConflict } from "../../hooks/useEditData/types";
+
+interface ConflictPromptProps {
+  conflict: EditConflict;
+  metadata: CellMetadata;
+  // Shown while the conflicting cell is selected
+  open: boolean;
+  onResolve: (keep: "theirs" | "mine") => void;
+  // The cell the prompt points at
+  children: React.ReactElement;
+}
+
+/**
+ * ConflictPrompt - Lets the user choose between a value someone else saved
+ * and their own rejected value, anchored to the conflicting cell
+ */
+const ConflictPrompt: React.FC<ConflictPromptProps> = ({
+  conflict,
+  metadata,
+  open,
+  onResolve,
+  children,
+}) => {
+  return (
+    <Popover open={open}>
+      <PopoverAnchor asChild>{children}</PopoverAnchor>
+      <PopoverContent
+        className="w-64 p-3"
+        side="bottom"
+        align="start"
+        // Keep focus in the grid so keyboard navigation continues to work
+        onOpenAutoFocus={(e) => e.preventDefault()}
+      >
+        <p className="text-sm font-medium">Someone else changed this cell</p>
+        <dl className="mt-2 grid grid-cols-2 gap-1 text-sm">
+          <dt className="text-muted-foreground">Their value</dt>
+          <dd className="text-right font-mono">
+            {formatValue(conflict.theirValue, metadata)}
+          </dd>
+          <dt className="text-muted-foreground">Your value</dt>
+          <dd className="text-right font-mono">
+            {formatValue(conflict.yourValue, metadata)}
+          </dd>
+        </dl>
+        <div className="mt-3 flex justify-end gap-2">
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => onResolve("theirs")}
+          >
+            Keep theirs
+          </Button>
+          <Button type="button" size="sm" onClick={() => onResolve("mine")}>
+            Keep mine
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export { ConflictPrompt };
@@ -0,0 +1,206 @@
+import * as React from "react";
+import { CaseSensitive, ChevronDown, ChevronUp, Regex, WholeWord, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import type { FindOptions } from "../../../utils/findReplace";
+import type { FindScope, UseFindReplaceReturn } from "../../hooks/useFindReplace/types";
+
+interface FindBarProps {
+  findReplace: UseFindReplaceReturn;
+  // Section names offered as search scopes
+  sections: string[];
+}
+
+const FIND_OPTIONS: Array<{ option: keyof FindOptions; label: string; Icon: typeof CaseSensitive }> = [
+  { option: "matchCase", label: "Match case", Icon: CaseSensitive },
+  { option: "wholeCell", label: "Match entire cell", Icon: WholeWord },
+  { option: "regex", label: "Use regular expression", Icon: Regex },
+];
+
+/**
+ * FindBar - Search field over the grid with options, scope and replace field
+ * Enter shows the next match, Shift+Enter the previous one, Escape closes the bar
+ */
+const FindBar: React.FC<FindBarProps> = ({ findReplace, sections }) => {
+  const {
+    isOpen,
+    isReplacing,
+    close,
+    query,
+    setQuery,
+    options,
+    setOptions,
+    scope,
+    setScope,
+    canScopeToSelection,
+    isQueryValid,
+    matches,
+    currentIndex,
+    next,
+    previous,
+    replace,
+    replaceAll,
+  } = findReplace;
+  const [replacement, setReplacement] = React.useState("");
+  const queryRef = React.useRef<HTMLInputElement>(null);
+
+  // Ctrl+F while the bar is open moves back to the search field
+  React.useEffect(() => {
+    if (isOpen) {
+      queryRef.current?.focus();
+      queryRef.current?.select();
+    }
+  }, [isOpen, isReplacing]);
+
+  if (!isOpen) return null;
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  const handleQueryKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      if (e.shiftKey) {
+        previous();
+      } else {
+        next();
+      }
+    }
+  };
+
+  const handleReplacementKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      void replace(replacement);
+    }
+  };
+
+  const count = matches.length === 0 ? "No results" : `${currentIndex + 1} of ${matches.length}`;
+
+  return (
+    <div
+      role="search"
+      aria-label="Find and replace"
+      className="absolute right-2 top-2 z-50 grid gap-1 rounded-lg border bg-popover p-2 shadow-lg"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="flex items-center gap-1">
+        <Input
+          ref={queryRef}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleQueryKeyDown}
+          placeholder="Find"
+          aria-label="Find"
+          aria-invalid={!isQueryValid}
+          className="h-8 w-48"
+        />
+        {FIND_OPTIONS.map(({ option, label, Icon }) => (
+          <Button
+            key={option}
+            variant={options[option] ? "default" : "ghost"}
+            size="sm"
+            className="h-8 w-8 p-0"
+            aria-label={label}
+            aria-pressed={options[option]}
+            title={label}
+            onClick={() => setOptions({ ...options, [option]: !options[option] })}
+          >
+            <Icon className="h-4 w-4" />
+          </Button>
+        ))}
+        <span
+          className={cn("w-20 text-center text-xs", isQueryValid ? "text-slate-500" : "text-red-600")}
+          aria-live="polite"
+        >
+          {isQueryValid ? (query ? count : "") : "Invalid pattern"}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          aria-label="Previous match"
+          disabled={matches.length === 0}
+          onClick={previous}
+        >
+          <ChevronUp className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          aria-label="Next match"
+          disabled={matches.length === 0}
+          onClick={next}
+        >
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" aria-label="Close find" onClick={close}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <Select value={scope} onValueChange={(value) => setScope(value as FindScope)}>
+          <SelectTrigger className="h-8 w-48" aria-label="Search in">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All cells</SelectItem>
+            {canScopeToSelection && <SelectItem value="selection">Selected cells</SelectItem>}
+            {sections.map((section) => (
+              <SelectItem key={section} value={`section:${section}`}>
+                {section}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isReplacing && (
+        <div className="flex items-center gap-1">
+          <Input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            onKeyDown={handleReplacementKeyDown}
+            placeholder="Replace with"
+            aria-label="Replace with"
+            className="h-8 w-48"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8"
+            disabled={matches.length === 0}
+            onClick={() => void replace(replacement)}
+          >
+            Replace
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8"
+            disabled={matches.length === 0}
+            onClick={() => void replaceAll(replacement)}
+          >
+            Replace all
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export { FindBar };
@@ -6,6 +6,15 @@ import {
   AlignLeft,
   AlignCenter,
   AlignRight,
+  DecimalsArrowLeft,
+  DecimalsArrowRight,
+  Hash,
+  PaintBucket,
+  Baseline,
+  Highlighter,
+  Paintbrush,
+  RemoveFormatting,
+  X,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -14,26 +23,56 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { Separator } from "@/components/ui/separator";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
-import type { CellFormatting, CellMetadata } from "../../../types/common";
+import type { CellFormatting, CellMetadata, CellPosition, NumberFormat } from "../../../types/common";
 import type { UseSelectionReturn } from "../../hooks/useSelection/types";
+import type { UseFormatPainterReturn } from "../../hooks/useFormatPainter/types";
 import {
   applyFormattingToSelection,
   applyAlignmentToSelection,
+  applyNumberFormatToSelection,
+  applyColorToSelection,
+  clearFormattingOfSelection,
   getSelectedCells,
 } from "../../hooks/useKeyboardEvents/utils";
-import { generateCellKey } from "@/components/grid/utils/formatting";
-import { REPORT_ID } from "@/api";
+import {
+  CURRENCIES,
+  changeDecimals,
+  getDefaultNumberFormat,
+  hasNumberFormat,
+} from "../../../utils/numberFormat";
+import { FILL_COLORS, TEXT_COLORS, type CellColor } from "../../../utils/colors";
+import { useReportContext } from "../../../contexts/ReportContext";
 
 interface FormattingToolbarProps {
   selectionHook: UseSelectionReturn;
   updateCellFormatting: (
-    row: number,
-    column: number,
+    cellKey: string,
     formatting: Partial<CellFormatting>
   ) => Promise<void>;
+  // Applies a toolbar action to the whole selection as one undoable change
+  updateMultipleCellsFormatting?: (
+    cellUpdates: Array<{ cellKey: string; formatting: Partial<CellFormatting> }>
+  ) => Promise<void>;
   cellMetadata: Map<string, CellMetadata>;
   targetRef?: React.RefObject<HTMLElement | null>;
+  // Opens the conditional formatting rules of the report
+  onOpenConditionalFormats?: () => void;
+  // Copies the formatting of the active cell onto the next selection
+  formatPainter?: UseFormatPainterReturn;
+  // Metadata a cell starts with, clear formatting resets the selected cells to it
+  getDefaultCellMetadata?: (position: CellPosition) => CellMetadata | null;
 }
 
 interface ToolbarPosition {
@@ -45,8 +84,12 @@ interface ToolbarPosition {
 const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
   selectionHook,
   updateCellFormatting,
+  updateMultipleCellsFormatting,
   cellMetadata,
   targetRef,
+  onOpenConditionalFormats,
+  formatPainter,
+  getDefaultCellMetadata,
 }) => {
   const [position, setPosition] = React.useState<ToolbarPosition>({
     x: 0,
@@ -54,6 +97,7 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
     show: false,
   });
   const toolbarRef = React.useRef<HTMLDivElement>(null);
+  const { getCellKey } = useReportContext();
 
   const selectedCells = getSelectedCells(selectionHook);
   const hasSelection = selectedCells.length > 0;
@@ -67,27 +111,41 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
         italic: false,
         strikethrough: false,
         alignment: null,
+        backgroundColor: undefined,
+        textColor: undefined,
       };
 
     // Check if all selected cells have the same formatting
     const firstCell = selectedCells[0];
-    const firstCellKey = generateCellKey(
-      REPORT_ID,
-      firstCell.row,
-      firstCell.column
-    );
-    const firstCellMetadata = cellMetadata.get(firstCellKey);
+    const firstCellKey = getCellKey(firstCell);
+    const firstCellMetadata = firstCellKey
+      ? cellMetadata.get(firstCellKey)
+      : undefined;
 
     const bold = firstCellMetadata?.formatting?.bold || false;
     const italic = firstCellMetadata?.formatting?.italic || false;
     const strikethrough = firstCellMetadata?.formatting?.strikethrough || false;
     const alignment = firstCellMetadata?.formatting?.alignment || null;
+    const backgroundColor = firstCellMetadata?.formatting?.backgroundColor;
+    const textColor = firstCellMetadata?.formatting?.textColor;
 
-    return { bold, italic, strikethrough, alignment };
-  }, [selectedCells, cellMetadata]);
+    return { bold, italic, strikethrough, alignment, backgroundColor, textColor };
+  }, [selectedCells, cellMetadata, getCellKey]);
 
   const formattingState = getFormattingState();
 
+  // Number format of the first numeric selected cell, null when no numeric cell is selected
+  const numberFormat = React.useMemo((): NumberFormat | null => {
+    for (const cell of selectedCells) {
+      const cellKey = getCellKey(cell);
+      const metadata = cellKey ? cellMetadata.get(cellKey) : undefined;
+      if (metadata && hasNumberFormat(metadata.type)) {
+        return metadata.formatting?.numberFormat ?? getDefaultNumberFormat(metadata.type);
+      }
+    }
+    return null;
+  }, [selectedCells, cellMetadata, getCellKey]);
+
   // Calculate toolbar position
   const updatePosition = React.useCallback(() => {
     if (!hasSelection || isSelecting || !targetRef?.current) {
@@ -172,19 +230,139 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
         selectionHook,
         type,
         updateCellFormatting,
-        cellMetadata
+        cellMetadata,
+        getCellKey,
+        updateMultipleCellsFormatting
       );
     },
-    [selectionHook, updateCellFormatting, cellMetadata]
+    [selectionHook, updateCellFormatting, cellMetadata, getCellKey, updateMultipleCellsFormatting]
   );
 
   const handleAlignment = React.useCallback(
     (alignment: "left" | "center" | "right") => {
-      applyAlignmentToSelection(selectionHook, alignment, updateCellFormatting);
+      applyAlignmentToSelection(
+        selectionHook,
+        alignment,
+        updateCellFormatting,
+        getCellKey,
+        updateMultipleCellsFormatting
+      );
     },
-    [selectionHook, updateCellFormatting]
+    [selectionHook, updateCellFormatting, getCellKey, updateMultipleCellsFormatting]
   );
 
+  const handleNumberFormat = React.useCallback(
+    (changeFormat: (format: NumberFormat) => NumberFormat | undefined) => {
+      applyNumberFormatToSelection(
+        selectionHook,
+        changeFormat,
+        updateCellFormatting,
+        cellMetadata,
+        getCellKey,
+        updateMultipleCellsFormatting
+      );
+    },
+    [selectionHook, updateCellFormatting, cellMetadata, getCellKey, updateMultipleCellsFormatting]
+  );
+
+  const handleColor = React.useCallback(
+    (field: "backgroundColor" | "textColor", color: string | undefined) => {
+      applyColorToSelection(
+        selectionHook,
+        field,
+        color,
+        updateCellFormatting,
+        getCellKey,
+        updateMultipleCellsFormatting
+      );
+    },
+    [selectionHook, updateCellFormatting, getCellKey, updateMultipleCellsFormatting]
+  );
+
+  const handleClearFormatting = React.useCallback(() => {
+    if (!getDefaultCellMetadata) return;
+    clearFormattingOfSelection(
+      selectionHook,
+      getDefaultCellMetadata,
+      updateCellFormatting,
+      getCellKey,
+      updateMultipleCellsFormatting
+    );
+  }, [selectionHook, getDefaultCellMetadata, updateCellFormatting, getCellKey, updateMultipleCellsFormatting]);
+
+  // A click picks the painter up for one use, a double click keeps it until put down
+  const handleFormatPainterClick = (e: React.MouseEvent) => {
+    if (!formatPainter) return;
+    if (e.detail === 2) {
+      formatPainter.start(true);
+    } else if (formatPainter.isActive) {
+      formatPainter.cancel();
+    } else {
+      formatPainter.start(false);
+    }
+  };
+
+  // Palette menu, arrow keys move between the swatches and Enter applies one
+  const renderColorPicker = (
+    field: "backgroundColor" | "textColor",
+    colors: CellColor[],
+    currentColor: string | undefined,
+    label: string,
+    clearLabel: string,
+    icon: React.ReactNode
+  ) => (
+    <DropdownMenu>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0 flex-col gap-0" aria-label={label}>
+              {icon}
+              <span
+                className="h-1 w-4 rounded-sm border"
+                style={{ backgroundColor: currentColor ?? "transparent" }}
+              />
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>{label}</p>
+        </TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent align="start" aria-label={label}>
+        <div className="grid grid-cols-5 gap-1 p-1">
+          {colors.map((color) => (
+            <DropdownMenuItem
+              key={color.value}
+              aria-label={color.name}
+              title={color.name}
+              onSelect={() => handleColor(field, color.value)}
+              className={cn(
+                "h-6 w-6 p-0 rounded-sm border focus:ring-2 focus:ring-ring",
+                currentColor === color.value && "ring-2 ring-blue-600"
+              )}
+              style={{ backgroundColor: field === "backgroundColor" ? color.value : undefined }}
+            >
+              {field === "textColor" && (
+                <span className="w-full text-center text-sm font-bold" style={{ color: color.value }}>
+                  A
+                </span>
+              )}
+            </DropdownMenuItem>
+          ))}
+        </div>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => handleColor(field, undefined)}>
+          <X className="h-4 w-4" />
+          {clearLabel}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
+  // Sets one field of the number format of every selected cell
+  const setNumberFormatField = <K extends keyof NumberFormat>(field: K, value: NumberFormat[K]) =>
+    handleNumberFormat((format) => ({ ...format, [field]: value }));
+
   if (!position.show) {
     return null;
   }
@@ -201,6 +379,48 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
         top: position.y,
       }}
     >
+      {/* Copy and clear formatting */}
+      {formatPainter && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant={formatPainter.isActive ? "default" : "ghost"}
+              size="sm"
+              onClick={handleFormatPainterClick}
+              className="h-8 w-8 p-0"
+              aria-label="Paint Format"
+              aria-pressed={formatPainter.isActive}
+            >
+              <Paintbrush className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Paint Format (double click to keep painting)</p>
+          </TooltipContent>
+        </Tooltip>
+      )}
+
+      {getDefaultCellMetadata && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleClearFormatting}
+              className="h-8 w-8 p-0"
+              aria-label="Clear Formatting"
+            >
+              <RemoveFormatting className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Clear Formatting (Ctrl+\)</p>
+          </TooltipContent>
+        </Tooltip>
+      )}
+
+      <Separator orientation="vertical" className="h-6" />
+
       {/* Text Formatting */}
       <Tooltip>
         <TooltipTrigger asChild>
@@ -304,6 +524,169 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
           <p>Align Right (Ctrl+Shift+R)</p>
         </TooltipContent>
       </Tooltip>
+
+      <Separator orientation="vertical" className="h-6" />
+
+      {/* Colors */}
+      {renderColorPicker(
+        "backgroundColor",
+        FILL_COLORS,
+        formattingState.backgroundColor,
+        "Fill Color",
+        "Clear fill",
+        <PaintBucket className="h-3.5 w-3.5" />
+      )}
+      {renderColorPicker(
+        "textColor",
+        TEXT_COLORS,
+        formattingState.textColor,
+        "Text Color",
+        "Clear color",
+        <Baseline className="h-3.5 w-3.5" />
+      )}
+
+      <Separator orientation="vertical" className="h-6" />
+
+      {/* Number format */}
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={numberFormat === null}
+            onClick={() => handleNumberFormat((format) => changeDecimals(format, -1))}
+            className="h-8 w-8 p-0"
+          >
+            <DecimalsArrowLeft className="h-4 w-4" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>Decrease Decimals</p>
+        </TooltipContent>
+      </Tooltip>
+
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={numberFormat === null}
+            onClick={() => handleNumberFormat((format) => changeDecimals(format, 1))}
+            className="h-8 w-8 p-0"
+          >
+            <DecimalsArrowRight className="h-4 w-4" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>Increase Decimals</p>
+        </TooltipContent>
+      </Tooltip>
+
+      <DropdownMenu>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={numberFormat === null}
+                className="h-8 w-8 p-0"
+              >
+                <Hash className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Number Format</p>
+          </TooltipContent>
+        </Tooltip>
+        {numberFormat && (
+          <DropdownMenuContent align="start" className="w-56">
+            <DropdownMenuCheckboxItem
+              checked={numberFormat.thousandsSeparator}
+              onCheckedChange={(checked) => setNumberFormatField("thousandsSeparator", checked)}
+            >
+              Thousands separator
+            </DropdownMenuCheckboxItem>
+            <DropdownMenuCheckboxItem
+              checked={numberFormat.notation === "compact"}
+              onCheckedChange={(checked) => setNumberFormatField("notation", checked ? "compact" : "full")}
+            >
+              Compact (K, M, B)
+            </DropdownMenuCheckboxItem>
+
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Negative numbers</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={numberFormat.negative}
+              onValueChange={(value) => setNumberFormatField("negative", value as NumberFormat["negative"])}
+            >
+              <DropdownMenuRadioItem value="minus">-1,234</DropdownMenuRadioItem>
+              <DropdownMenuRadioItem value="parentheses">(1,234)</DropdownMenuRadioItem>
+              <DropdownMenuRadioItem value="red">
+                <span className="text-red-600 dark:text-red-400">-1,234</span>
+              </DropdownMenuRadioItem>
+            </DropdownMenuRadioGroup>
+
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Currency</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={numberFormat.currency}
+              onValueChange={(value) => setNumberFormatField("currency", value)}
+            >
+              {CURRENCIES.map((currency) => (
+                <DropdownMenuRadioItem key={currency} value={currency}>
+                  {currency}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+            <DropdownMenuCheckboxItem
+              checked={numberFormat.currencyDisplay === "code"}
+              onCheckedChange={(checked) => setNumberFormatField("currencyDisplay", checked ? "code" : "symbol")}
+            >
+              Show currency code
+            </DropdownMenuCheckboxItem>
+
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Percentages</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={numberFormat.percentScale}
+              onValueChange={(value) => setNumberFormatField("percentScale", value as NumberFormat["percentScale"])}
+            >
+              <DropdownMenuRadioItem value="percent">12.5 shows 12.5%</DropdownMenuRadioItem>
+              <DropdownMenuRadioItem value="fraction">0.125 shows 12.5%</DropdownMenuRadioItem>
+            </DropdownMenuRadioGroup>
+
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => handleNumberFormat(() => undefined)}>
+              Reset to default
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        )}
+      </DropdownMenu>
+
+      {onOpenConditionalFormats && (
+        <>
+          <Separator orientation="vertical" className="h-6" />
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onOpenConditionalFormats}
+                className="h-8 w-8 p-0"
+                aria-label="Conditional Formatting"
+              >
+                <Highlighter className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Conditional Formatting</p>
+            </TooltipContent>
+          </Tooltip>
+        </>
+      )}
     </div>
   );
 };
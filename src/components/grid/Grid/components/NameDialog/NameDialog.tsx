@@ -0,0 +1,100 @@
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface NameDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  label: string;
+  submitLabel: string;
+  // Name the field starts with
+  initialName?: string;
+  // Reason the trimmed name can't be used, null when it can
+  validate: (name: string) => string | null;
+  onSubmit: (name: string) => void;
+}
+
+/**
+ * NameDialog - Asks for the name of a new or renamed column or section
+ * Mounted when shown, so the field starts from the initial name every time.
+ * The name is trimmed, problems show under the field once something was typed.
+ */
+const NameDialog: React.FC<NameDialogProps> = ({
+  open,
+  onOpenChange,
+  title,
+  description,
+  label,
+  submitLabel,
+  initialName = "",
+  validate,
+  onSubmit,
+}) => {
+  const [name, setName] = React.useState(initialName);
+  const [touched, setTouched] = React.useState(false);
+  const inputId = React.useId();
+
+  const trimmedName = name.trim();
+  const error = validate(trimmedName);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setTouched(true);
+    if (error !== null) return;
+
+    onSubmit(trimmedName);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-2">
+            <Label htmlFor={inputId}>{label}</Label>
+            <Input
+              id={inputId}
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setTouched(true);
+              }}
+              aria-invalid={touched && error !== null}
+              autoFocus
+            />
+            {touched && error !== null && (
+              <p className="text-sm text-red-600" role="alert">
+                {error}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">{submitLabel}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export { NameDialog };
@@ -0,0 +1,137 @@
+import * as React from "react";
+import { ArrowDownToLine, ArrowUpToLine, Trash2 } from "lucide-react";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import { TableCell } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { useReportContext } from "../../../contexts/ReportContext";
+import { useSelectionContext } from "../../../contexts/SelectionContext";
+import type { RowPlacement } from "../../hooks/useRowOperations/types";
+import { getSelectionAnchor } from "../../hooks/useKeyboardEvents/utils";
+
+interface RowHeaderCellProps {
+  rowId: string;
+  // Position of the row in the stored order, formulas refer to rows by it
+  rowNumber: number;
+  // Position of the row in the displayed grid
+  displayRow: number;
+  isTotal: boolean;
+  // Rows can only be dragged while the grid shows them in the stored order
+  canReorder: boolean;
+  size: number;
+}
+
+// Drag data type of the moved row IDs
+const ROWS_DRAG_TYPE = "application/x-report-rows";
+
+/**
+ * RowHeaderCell - Row number in the gutter, selects the row when clicked,
+ * offers insert and delete on right click and moves rows by dragging
+ */
+const RowHeaderCell: React.FC<RowHeaderCellProps> = ({
+  rowId,
+  rowNumber,
+  displayRow,
+  isTotal,
+  canReorder,
+  size,
+}) => {
+  const { rowOperations } = useReportContext();
+  const { selectionState, selectRange, totalColumns } = useSelectionContext();
+  const [dropPlacement, setDropPlacement] = React.useState<RowPlacement | null>(null);
+  const [targetRowIds, setTargetRowIds] = React.useState<string[]>([]);
+
+  // Click selects the whole row, Shift+click every row from the selection's anchor
+  const handleClick = (e: React.MouseEvent) => {
+    if (totalColumns === 0) return;
+    const anchor = e.shiftKey && selectionState ? getSelectionAnchor(selectionState) : null;
+    selectRange({ row: anchor?.row ?? displayRow, column: 0 }, { row: displayRow, column: totalColumns - 1 });
+  };
+
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.setData(ROWS_DRAG_TYPE, JSON.stringify(rowOperations.getTargetRowIds(rowId)));
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!canReorder || !e.dataTransfer.types.includes(ROWS_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+
+    // The upper half drops above the row, the lower half below it
+    const { top, height } = e.currentTarget.getBoundingClientRect();
+    setDropPlacement(isTotal || e.clientY < top + height / 2 ? "above" : "below");
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const placement = dropPlacement;
+    setDropPlacement(null);
+
+    const movedRowIds = JSON.parse(e.dataTransfer.getData(ROWS_DRAG_TYPE) || "[]") as string[];
+    if (placement && movedRowIds.length > 0) {
+      void rowOperations.moveRows(movedRowIds, rowId, placement);
+    }
+  };
+
+  // The menu acts on the rows selected when it opened
+  const handleOpenChange = (open: boolean) => {
+    if (open) setTargetRowIds(rowOperations.getTargetRowIds(rowId));
+  };
+
+  const deletableCount = targetRowIds.length;
+
+  return (
+    <ContextMenu onOpenChange={handleOpenChange}>
+      <ContextMenuTrigger asChild>
+        <TableCell
+          className={cn(
+            "text-xs text-slate-400 text-right select-none cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800",
+            canReorder && !isTotal && "cursor-grab",
+            dropPlacement === "above" && "shadow-[inset_0_2px_0_var(--color-blue-500)]",
+            dropPlacement === "below" && "shadow-[inset_0_-2px_0_var(--color-blue-500)]"
+          )}
+          style={{ display: "flex", width: size, minWidth: size }}
+          aria-label={`Row ${rowNumber}`}
+          data-row-header={rowId}
+          draggable={canReorder && !isTotal}
+          onClick={handleClick}
+          onDragStart={handleDragStart}
+          onDragOver={handleDragOver}
+          onDragLeave={() => setDropPlacement(null)}
+          onDrop={handleDrop}
+        >
+          {rowNumber}
+        </TableCell>
+      </ContextMenuTrigger>
+      <ContextMenuContent>
+        <ContextMenuItem onSelect={() => void rowOperations.insertRow(rowId, "above")}>
+          <ArrowUpToLine />
+          Insert row above
+        </ContextMenuItem>
+        {!isTotal && (
+          <ContextMenuItem onSelect={() => void rowOperations.insertRow(rowId, "below")}>
+            <ArrowDownToLine />
+            Insert row below
+          </ContextMenuItem>
+        )}
+        {!isTotal && (
+          <>
+            <ContextMenuSeparator />
+            <ContextMenuItem variant="destructive" onSelect={() => void rowOperations.deleteRows(targetRowIds)}>
+              <Trash2 />
+              {deletableCount > 1 ? `Delete ${deletableCount} rows` : "Delete row"}
+            </ContextMenuItem>
+          </>
+        )}
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+};
+
+export { RowHeaderCell };
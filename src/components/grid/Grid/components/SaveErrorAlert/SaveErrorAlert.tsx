@@ -0,0 +1,31 @@
+import * as React from "react";
+import { X } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+
+interface SaveErrorAlertProps {
+  message: string;
+  onDismiss: () => void;
+}
+
+/**
+ * SaveErrorAlert - Banner above the grid telling the user a change was not saved
+ * Stays until dismissed, the change itself is already undone.
+ */
+export const SaveErrorAlert: React.FC<SaveErrorAlertProps> = ({ message, onDismiss }) => {
+  return (
+    <Alert variant="destructive" className="rounded-none border-x-0 border-t-0 pr-12">
+      <AlertTitle>Change not saved</AlertTitle>
+      <AlertDescription>{message}</AlertDescription>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="absolute right-2 top-2 h-6 w-6"
+        aria-label="Dismiss"
+        onClick={onDismiss}
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </Alert>
+  );
+};
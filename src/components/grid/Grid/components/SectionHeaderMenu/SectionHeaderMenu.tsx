@@ -0,0 +1,92 @@
+import * as React from "react";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import { useReportContext } from "../../../contexts/ReportContext";
+import type { SectionMetadata } from "../../hooks/useReportData/utils";
+import { NameDialog } from "../NameDialog/NameDialog";
+
+interface SectionHeaderMenuProps {
+  section: SectionMetadata;
+  children: React.ReactNode;
+}
+
+type SectionDialog = "add" | "rename";
+
+/**
+ * SectionHeaderMenu - Right click menu of a section's group header
+ * New sections start empty with the columns of the section they are added from.
+ */
+const SectionHeaderMenu: React.FC<SectionHeaderMenuProps> = ({ section, children }) => {
+  const { columnOperations } = useReportContext();
+  const [dialog, setDialog] = React.useState<SectionDialog | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setDialog(null);
+  };
+
+  return (
+    <>
+      <ContextMenu>
+        <ContextMenuTrigger asChild>
+          <div className="flex flex-1 items-center" data-section-header={section.name}>
+            {children}
+          </div>
+        </ContextMenuTrigger>
+        {/* Focus goes to the dialog opened from the menu */}
+        <ContextMenuContent onCloseAutoFocus={(e) => e.preventDefault()}>
+          <ContextMenuItem onSelect={() => setDialog("add")}>
+            <Plus />
+            Add section
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => setDialog("rename")}>
+            <Pencil />
+            Rename section
+          </ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem
+            variant="destructive"
+            disabled={!columnOperations.canDeleteSection(section.name)}
+            onSelect={() => void columnOperations.deleteSection(section.name)}
+          >
+            <Trash2 />
+            Delete section
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+
+      {dialog === "add" && (
+        <NameDialog
+          open
+          onOpenChange={handleOpenChange}
+          title="Add section"
+          description={`Adds an empty section with the columns of ${section.name}.`}
+          label="Section name"
+          submitLabel="Add"
+          validate={(name) => columnOperations.getSectionNameError(name)}
+          onSubmit={(name) => void columnOperations.addSection(name, section.name)}
+        />
+      )}
+      {dialog === "rename" && (
+        <NameDialog
+          open
+          onOpenChange={handleOpenChange}
+          title="Rename section"
+          description="Columns keep their values and formatting."
+          label="Section name"
+          submitLabel="Rename"
+          initialName={section.name}
+          validate={(name) => columnOperations.getSectionNameError(name, section.name)}
+          onSubmit={(name) => void columnOperations.renameSection(section.name, name)}
+        />
+      )}
+    </>
+  );
+};
+
+export { SectionHeaderMenu };
@@ -3,6 +3,7 @@ import { render, screen } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { SpreadsheetCell } from "./SpreadsheetCell";
 import type { CellPosition, CellMetadata } from "../../../types/common";
+import type { EditConflict } from "../../hooks/useEditData/types";
 
 // Mock the selection context
 const mockSelectionContext = {
@@ -30,6 +31,15 @@ const mockSelectionContext = {
   editError: null as string | null,
   isSaving: false,
   isCellEditing: vi.fn(() => false),
+  isCellReadOnly: vi.fn(() => false),
+  getCellConflict: vi.fn((): EditConflict | null => null),
+  resolveConflict: vi.fn(),
+  getFindMatch: vi.fn((): "match" | "current" | null => null),
+  fillHandleCell: null as CellPosition | null,
+  isFilling: false,
+  isCellInFillRange: vi.fn(() => false),
+  startFill: vi.fn(),
+  updateFill: vi.fn(),
 };
 
 vi.mock("../../../contexts/SelectionContext", () => ({
@@ -86,9 +96,15 @@ describe("SpreadsheetCell", () => {
     mockSelectionContext.isCellSelected.mockReturnValue(false);
     mockSelectionContext.isCellInRange.mockReturnValue(false);
     mockSelectionContext.isCellEditing.mockReturnValue(false);
+    mockSelectionContext.isCellReadOnly.mockReturnValue(false);
     mockSelectionContext.getActiveCell.mockReturnValue(null);
     mockSelectionContext.selectionState = null;
     mockSelectionContext.editError = null;
+    mockSelectionContext.getCellConflict.mockReturnValue(null);
+    mockSelectionContext.getFindMatch.mockReturnValue(null);
+    mockSelectionContext.fillHandleCell = null;
+    mockSelectionContext.isFilling = false;
+    mockSelectionContext.isCellInFillRange.mockReturnValue(false);
   });
 
   describe("Basic Rendering", () => {
@@ -385,6 +401,57 @@ describe("SpreadsheetCell", () => {
       expect(cell.className).toContain("w-12");
     });
 
+    it("should mark derived cells as read-only", () => {
+      mockSelectionContext.isCellReadOnly.mockReturnValue(true);
+
+      render(
+        <SpreadsheetCell
+          rawValue={12.5}
+          metadata={defaultMetadata}
+          position={defaultPosition}
+        />
+      );
+
+      const cell = screen.getByTestId("table-cell");
+      expect(cell).toHaveAttribute("aria-readonly", "true");
+      expect(cell.className).toContain("text-slate-500");
+    });
+
+    it("should render the fill and text color of the cell", () => {
+      const coloredMetadata: CellMetadata = {
+        ...defaultMetadata,
+        formatting: { id: "test-format", backgroundColor: "#fef9c3", textColor: "#dc2626" },
+      };
+
+      render(
+        <SpreadsheetCell
+          rawValue="Test"
+          metadata={coloredMetadata}
+          position={defaultPosition}
+        />
+      );
+
+      const cell = screen.getByTestId("table-cell");
+      expect(cell).toHaveClass("bg-(color:--cell-fill)", "text-(color:--cell-text)");
+      expect(cell.style.getPropertyValue("--cell-fill")).toBe("#fef9c3");
+    });
+
+    it("should show the selection instead of the fill when selected", () => {
+      mockSelectionContext.isCellSelected.mockReturnValue(true);
+
+      render(
+        <SpreadsheetCell
+          rawValue="Test"
+          metadata={{ ...defaultMetadata, formatting: { id: "test-format", backgroundColor: "#fef9c3" } }}
+          position={defaultPosition}
+        />
+      );
+
+      const cell = screen.getByTestId("table-cell");
+      expect(cell).toHaveClass("bg-blue-100");
+      expect(cell).not.toHaveClass("bg-(color:--cell-fill)");
+    });
+
     it("should apply right alignment for currency cells", () => {
       const currencyMetadata: CellMetadata = {
         type: "currency",
@@ -406,24 +473,129 @@ describe("SpreadsheetCell", () => {
     });
   });
 
-  describe("Growth Indicators", () => {
-    it("should add growth data attribute for YoY Growth section", () => {
-      const growthMetadata: CellMetadata = {
-        type: "percentage",
-        section: "YoY Growth",
-        formatting: { id: "growth-format", alignment: "right" },
-      };
+  describe("Conditional Formats", () => {
+    it("should draw rule colors over the stored formatting", () => {
+      render(
+        <SpreadsheetCell
+          rawValue={-3}
+          metadata={{ type: "percentage", section: "YoY Growth", formatting: { id: "growth-format", textColor: "#2563eb" } }}
+          position={defaultPosition}
+          conditionalFormat={{ textColor: "#dc2626", bold: true }}
+        />
+      );
 
+      const cell = screen.getByTestId("table-cell");
+      expect(cell).toHaveClass("text-(color:--cell-text)", "font-bold");
+      expect(cell.style.getPropertyValue("--cell-text")).toBe("#dc2626");
+    });
+
+    it("should render data bars and icons", () => {
       render(
         <SpreadsheetCell
-          rawValue={15.5}
-          metadata={growthMetadata}
+          rawValue={50}
+          metadata={defaultMetadata}
           position={defaultPosition}
+          conditionalFormat={{ dataBar: { color: "#2563eb", width: 40 }, icon: { name: "arrow-up", color: "#16a34a" } }}
         />
       );
 
+      expect(screen.getByTestId("data-bar").style.width).toBe("40%");
+      expect(screen.getByTestId("icon-arrow-up")).toBeInTheDocument();
+    });
+  });
+
+  describe("Find Results", () => {
+    it("should highlight matches", () => {
+      mockSelectionContext.getFindMatch.mockReturnValue("match");
+      render(<SpreadsheetCell rawValue="Product A" metadata={defaultMetadata} position={defaultPosition} />);
+
       const cell = screen.getByTestId("table-cell");
-      expect(cell).toHaveAttribute("data-growth");
+      expect(cell).toHaveAttribute("data-find-match", "match");
+      expect(cell).toHaveClass("bg-yellow-100");
+    });
+
+    it("should outline the match shown even while it is selected", () => {
+      mockSelectionContext.getFindMatch.mockReturnValue("current");
+      mockSelectionContext.isCellSelected.mockReturnValue(true);
+      render(<SpreadsheetCell rawValue="Product A" metadata={defaultMetadata} position={defaultPosition} />);
+
+      expect(screen.getByTestId("table-cell")).toHaveClass("bg-orange-200", "outline-orange-500");
+    });
+  });
+
+  describe("Fill Handle", () => {
+    it("should start a fill instead of a selection from the handle", async () => {
+      mockSelectionContext.fillHandleCell = defaultPosition;
+      render(<SpreadsheetCell rawValue="2024" metadata={defaultMetadata} position={defaultPosition} />);
+
+      await user.pointer({ target: screen.getByTestId("fill-handle"), keys: "[MouseLeft>]" });
+
+      expect(mockSelectionContext.startFill).toHaveBeenCalled();
+      expect(mockSelectionContext.startSelection).not.toHaveBeenCalled();
+    });
+
+    it("should only draw the handle on the bottom right cell of the selection", () => {
+      mockSelectionContext.fillHandleCell = { row: 2, column: 1 };
+      render(<SpreadsheetCell rawValue="2024" metadata={defaultMetadata} position={defaultPosition} />);
+
+      expect(screen.queryByTestId("fill-handle")).not.toBeInTheDocument();
+    });
+
+    it("should extend and outline the fill while dragging", async () => {
+      mockSelectionContext.isFilling = true;
+      mockSelectionContext.isCellInFillRange.mockReturnValue(true);
+      render(<SpreadsheetCell rawValue="2024" metadata={defaultMetadata} position={defaultPosition} />);
+
+      const cell = screen.getByTestId("table-cell");
+      await user.hover(cell);
+
+      expect(mockSelectionContext.updateFill).toHaveBeenCalledWith(defaultPosition);
+      expect(cell).toHaveClass("outline-dashed");
+    });
+  });
+
+  describe("Conflicts", () => {
+    const conflict: EditConflict = {
+      identity: { rowId: "row-0", columnId: "values_2020" },
+      theirValue: "Their Product",
+      yourValue: "My Product",
+    };
+
+    it("should offer both values when the selected cell has a conflict", async () => {
+      mockSelectionContext.getCellConflict.mockReturnValue(conflict);
+      mockSelectionContext.isCellSelected.mockReturnValue(true);
+
+      render(
+        <SpreadsheetCell
+          rawValue="My Product"
+          metadata={defaultMetadata}
+          position={defaultPosition}
+        />
+      );
+
+      expect(screen.getByText("Someone else changed this cell")).toBeInTheDocument();
+      expect(screen.getByText("Their Product")).toBeInTheDocument();
+
+      await user.click(screen.getByRole("button", { name: "Keep mine" }));
+      expect(mockSelectionContext.resolveConflict).toHaveBeenCalledWith(
+        conflict.identity,
+        "mine"
+      );
+    });
+
+    it("should only mark the cell while it is not selected", () => {
+      mockSelectionContext.getCellConflict.mockReturnValue(conflict);
+
+      render(
+        <SpreadsheetCell
+          rawValue="My Product"
+          metadata={defaultMetadata}
+          position={defaultPosition}
+        />
+      );
+
+      expect(screen.getByTestId("table-cell")).toHaveClass("outline-amber-500");
+      expect(screen.queryByText("Someone else changed this cell")).not.toBeInTheDocument();
     });
   });
 });
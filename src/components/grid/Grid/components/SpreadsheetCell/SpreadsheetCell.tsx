@@ -1,22 +1,25 @@
 import * as React from "react";
 import { cva, type VariantProps } from "class-variance-authority";
-import {
-  formatValue,
-  getCellClasses,
-  getGrowthIndicator,
-} from "../../../utils/formatting";
+import { ArrowDown, ArrowRight, ArrowUp, Circle } from "lucide-react";
+import { formatValue, getCellClasses } from "../../../utils/formatting";
+import { isRedNegative } from "../../../utils/numberFormat";
+import { getCellColorStyle } from "../../../utils/colors";
+import { layerConditionalFormat } from "../../../utils/conditionalFormatting";
 import { Input } from "@/components/ui/input";
 import { TableCell } from "@/components/ui/table";
-import type { CellPosition, CellMetadata } from "../../../types/common";
+import type { CellPosition, CellMetadata, ConditionalCellFormat } from "../../../types/common";
 import { useEventCallback } from "usehooks-ts";
 import { useSelectionContext } from "../../../contexts/SelectionContext";
 import { cn } from "@/lib/utils";
+import { ConflictPrompt } from "../ConflictPrompt/ConflictPrompt";
 
 interface SpreadsheetCellProps {
   // Raw data and metadata
   rawValue: string | number;
   metadata: CellMetadata;
   position: CellPosition;
+  // Result of the report's conditional formatting rules, drawn over the stored formatting
+  conditionalFormat?: ConditionalCellFormat;
 
   // Additional styling props
   isRowIndex?: boolean;
@@ -66,6 +69,37 @@ const cellVariants = cva(
         false: "",
         true: "opacity-50",
       },
+      // Computed from other cells, can't be edited
+      readOnly: {
+        false: "",
+        true: "text-slate-500 dark:text-slate-400",
+      },
+      // Save rejected because someone else changed the cell
+      conflict: {
+        false: "",
+        true: "outline outline-2 outline-amber-500 outline-offset-[-1px] bg-amber-50 dark:bg-amber-950 z-[25]",
+      },
+      // Find result, the match shown stands out from the other matches
+      findMatch: {
+        none: "",
+        match: "bg-yellow-100 dark:bg-yellow-900",
+        current: "bg-orange-200 dark:bg-orange-800 outline outline-2 outline-orange-500 outline-offset-[-1px] z-20",
+      },
+      // Covered by the dragged fill handle
+      fillPreview: {
+        false: "",
+        true: "outline outline-1 outline-dashed outline-gray-500 outline-offset-[-1px] z-[5]",
+      },
+      // Fill chosen for the cell, selection, editing and conflict backgrounds replace it
+      filled: {
+        false: "",
+        true: "bg-(color:--cell-fill) hover:bg-(color:--cell-fill) hover:brightness-95",
+      },
+      // Text color chosen for the cell
+      colored: {
+        false: "",
+        true: "text-(color:--cell-text)",
+      },
       // Section border
       sectionBorder: {
         false: "",
@@ -78,6 +112,12 @@ const cellVariants = cva(
       validation: "valid",
       cellType: "normal",
       saving: false,
+      readOnly: false,
+      conflict: false,
+      findMatch: "none",
+      fillPreview: false,
+      filled: false,
+      colored: false,
       sectionBorder: false,
     },
   }
@@ -86,6 +126,13 @@ const cellVariants = cva(
 // Type for cell variant props
 type CellVariantProps = VariantProps<typeof cellVariants>;
 
+const CONDITIONAL_ICONS = {
+  "arrow-up": ArrowUp,
+  "arrow-right": ArrowRight,
+  "arrow-down": ArrowDown,
+  circle: Circle,
+};
+
 /**
  * SpreadsheetCell - Dumb component for rendering individual cells
  * Gets all state from context and only handles mouse events
@@ -98,6 +145,7 @@ const SpreadsheetCell: React.FC<SpreadsheetCellProps> = (
     rawValue,
     metadata,
     position,
+    conditionalFormat,
     isRowIndex = false,
     hasSectionBorder = false,
     size,
@@ -123,12 +171,29 @@ const SpreadsheetCell: React.FC<SpreadsheetCellProps> = (
     editError,
     isSaving,
     isCellEditing,
+    isCellReadOnly,
+    getCellConflict,
+    resolveConflict,
+    getFindMatch,
+    // Fill handle
+    fillHandleCell,
+    isFilling,
+    isCellInFillRange,
+    startFill,
+    updateFill,
   } = useSelectionContext();
 
   // Compute selection state
   const isSelected = isCellSelected(position);
   const isInRange = isCellInRange(position);
   const isEditing = isCellEditing(position);
+  const isReadOnly = isCellReadOnly(position);
+  const conflict = getCellConflict(position);
+  const findMatch = getFindMatch(position);
+  const hasFillHandle =
+    !isRowIndex &&
+    fillHandleCell?.row === position.row &&
+    fillHandleCell.column === position.column;
   const isRangeEndpoint =
     selectionState?.selectedCells?.type === "range" && isSelected;
 
@@ -142,8 +207,14 @@ const SpreadsheetCell: React.FC<SpreadsheetCellProps> = (
   // Format the value using the uniform formatter
   const formattedValue = formatValue(rawValue, metadata);
 
+  // Conditional formatting only changes how the cell is drawn, never its stored formatting
+  const displayMetadata = layerConditionalFormat(metadata, conditionalFormat);
+  const dataBar = conditionalFormat?.dataBar;
+  const icon = conditionalFormat?.icon;
+  const Icon = icon ? CONDITIONAL_ICONS[icon.name] : null;
+
   // Get base CSS classes from metadata
-  const baseCellClasses = getCellClasses(metadata);
+  const baseCellClasses = getCellClasses(displayMetadata);
 
   if (isActiveCell) {
     console.log("metadata", metadata);
@@ -167,26 +238,34 @@ const SpreadsheetCell: React.FC<SpreadsheetCellProps> = (
     return "none";
   };
 
-  // Get growth indicator for YoY Growth section
-  const getGrowthAttributes = () => {
-    if (metadata.section === "YoY Growth") {
-      const indicator = getGrowthIndicator(rawValue);
-      return { "data-growth": indicator };
-    }
-    return {};
-  };
-
   // Generate cell classes using cva and cn
+  const selectionVariant = getSelectionVariant();
+  // Other matches only show outside the selection, the match shown is selected itself
+  const findMatchVariant =
+    findMatch === "current" || (findMatch === "match" && selectionVariant === "none") ? findMatch : "none";
   const cellClasses = cn(
     cellVariants({
-      selection: getSelectionVariant(),
+      selection: selectionVariant,
       editing: isEditing,
       validation: isEditing && !isEditValid ? "invalid" : "valid",
       cellType: isRowIndex ? "rowIndex" : "normal",
       saving: isSaving,
+      readOnly: isReadOnly,
+      conflict: conflict !== null,
+      findMatch: isEditing ? "none" : findMatchVariant,
+      fillPreview: isCellInFillRange(position),
+      filled:
+        !!displayMetadata.formatting?.backgroundColor &&
+        selectionVariant === "none" &&
+        findMatchVariant === "none" &&
+        !isEditing &&
+        conflict === null,
+      colored: !!displayMetadata.formatting?.textColor && !isEditing,
       sectionBorder: hasSectionBorder,
     }),
-    baseCellClasses
+    baseCellClasses,
+    !conditionalFormat?.textColor && isRedNegative(rawValue, metadata) && "text-red-600 dark:text-red-400",
+    (dataBar || hasFillHandle) && "relative"
   );
 
   // Get consistent cell content styling
@@ -283,6 +362,10 @@ const SpreadsheetCell: React.FC<SpreadsheetCellProps> = (
   // Handle mouse enter for drag selection
   const handleMouseEnter = useEventCallback(() => {
     console.log("mouse enter");
+    if (isFilling) {
+      updateFill(position);
+      return;
+    }
     if (!isEditing && selectionState?.isSelecting) {
       // Update selection during drag
       updateSelection(position);
@@ -297,6 +380,13 @@ const SpreadsheetCell: React.FC<SpreadsheetCellProps> = (
     }
   });
 
+  // Dragging the fill handle fills instead of selecting, the fill ends on mouse up anywhere
+  const handleFillHandleMouseDown = useEventCallback((e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    startFill();
+  });
+
   // Handle edit input change
   const handleEditChange = useEventCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -336,7 +426,7 @@ const SpreadsheetCell: React.FC<SpreadsheetCellProps> = (
     );
   }
 
-  return (
+  const cell = (
     <TableCell
       className={cellClasses}
       onClick={handleClick}
@@ -345,13 +435,14 @@ const SpreadsheetCell: React.FC<SpreadsheetCellProps> = (
       onMouseEnter={handleMouseEnter}
       onMouseUp={handleMouseUp}
       // No onKeyDown - handled at grid level
-      {...getGrowthAttributes()}
       role="gridcell"
       // No tabIndex - cells are not focusable
       aria-label={`Cell at row ${position.row + 1}, column ${
         position.column
       }: ${formattedValue}`}
       aria-selected={isSelected}
+      aria-readonly={isReadOnly || undefined}
+      data-find-match={findMatch ?? undefined}
       data-cell-position={`${position.row}-${position.column}`}
       style={{
         display: "flex",
@@ -359,13 +450,55 @@ const SpreadsheetCell: React.FC<SpreadsheetCellProps> = (
         width: size,
         minWidth: size,
         ...getCellContentStyle(),
+        ...getCellColorStyle(displayMetadata.formatting),
       }}
     >
-      <span className="w-full overflow-hidden text-ellipsis whitespace-nowrap">
+      {dataBar && (
+        <span
+          aria-hidden
+          data-testid="data-bar"
+          className="pointer-events-none absolute inset-y-1 left-0 rounded-r-sm opacity-40"
+          style={{ width: `${dataBar.width}%`, backgroundColor: dataBar.color }}
+        />
+      )}
+      {Icon && (
+        <Icon
+          aria-hidden
+          data-testid={`icon-${icon!.name}`}
+          className="mr-1 h-3.5 w-3.5 shrink-0"
+          style={{ color: icon!.color }}
+          fill={icon!.name === "circle" ? "currentColor" : "none"}
+        />
+      )}
+      <span className="relative w-full overflow-hidden text-ellipsis whitespace-nowrap">
         {formattedValue}
       </span>
+      {hasFillHandle && (
+        <span
+          aria-hidden
+          data-testid="fill-handle"
+          className="absolute -bottom-1 -right-1 z-30 h-2 w-2 cursor-crosshair border border-white bg-blue-600"
+          onMouseDown={handleFillHandleMouseDown}
+          onClick={(e) => e.stopPropagation()}
+        />
+      )}
     </TableCell>
   );
+
+  if (conflict) {
+    return (
+      <ConflictPrompt
+        conflict={conflict}
+        metadata={metadata}
+        open={isSelected || !!isActiveCell}
+        onResolve={(keep) => void resolveConflict(conflict.identity, keep)}
+      >
+        {cell}
+      </ConflictPrompt>
+    );
+  }
+
+  return cell;
 };
 
 export { SpreadsheetCell };
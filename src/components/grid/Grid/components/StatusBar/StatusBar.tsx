@@ -0,0 +1,96 @@
+import * as React from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { CellData, CellPosition } from "../../../types/common";
+import type { UseSelectionReturn } from "../../hooks/useSelection/types";
+import { getSelectedCells } from "../../../utils/formatting";
+import {
+  SELECTION_AGGREGATES,
+  formatAggregate,
+  getSummaryMetadata,
+  summarizeValues,
+  type SelectionAggregate,
+} from "../../../utils/selectionAggregates";
+
+interface StatusBarProps {
+  selectionHook: UseSelectionReturn;
+  // Value and metadata a cell renders with
+  getCellData: (position: CellPosition) => CellData | null;
+}
+
+/**
+ * StatusBar - Aggregates of the selected cells, shown while a range or
+ * several cells are selected and updated live while dragging
+ */
+const StatusBar: React.FC<StatusBarProps> = ({ selectionHook, getCellData }) => {
+  const [visibleAggregates, setVisibleAggregates] = React.useState<SelectionAggregate[]>(
+    SELECTION_AGGREGATES.map(({ id }) => id)
+  );
+
+  const cells = React.useMemo(
+    () => getSelectedCells(selectionHook).flatMap((position) => getCellData(position) ?? []),
+    [selectionHook, getCellData]
+  );
+
+  const summary = React.useMemo(() => summarizeValues(cells.map(({ rawValue }) => rawValue)), [cells]);
+  const metadata = React.useMemo(() => getSummaryMetadata(cells), [cells]);
+
+  if (cells.length < 2) return null;
+
+  const toggleAggregate = (aggregate: SelectionAggregate, checked: boolean) => {
+    setVisibleAggregates((prev) =>
+      SELECTION_AGGREGATES.map(({ id }) => id).filter((id) =>
+        id === aggregate ? checked : prev.includes(id)
+      )
+    );
+  };
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="flex items-center justify-end gap-4 px-3 py-1 text-xs text-slate-600 dark:text-slate-300"
+    >
+      {SELECTION_AGGREGATES.filter(({ id }) => visibleAggregates.includes(id)).map(({ id, label }) => (
+        <span key={id}>
+          {label}:{" "}
+          <span className="font-medium text-slate-900 dark:text-slate-100 tabular-nums">
+            {formatAggregate(summary, id, metadata)}
+          </span>
+        </span>
+      ))}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-6 w-6" aria-label="Choose aggregates">
+            <SlidersHorizontal className="h-3.5 w-3.5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Show in status bar</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {SELECTION_AGGREGATES.map(({ id, label }) => (
+            <DropdownMenuCheckboxItem
+              key={id}
+              checked={visibleAggregates.includes(id)}
+              onCheckedChange={(checked) => toggleAggregate(id, checked)}
+              // Keep the menu open to pick several aggregates
+              onSelect={(e) => e.preventDefault()}
+            >
+              {label}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
+
+export { StatusBar };
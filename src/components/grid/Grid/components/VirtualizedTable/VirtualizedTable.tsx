@@ -8,12 +8,14 @@ import { Table as TableUI } from "@/components/ui/table";
 interface VirtualizedTableProps {
   table: Table<FlattenedRow>;
   tableContainerRef: React.RefObject<HTMLDivElement | null>;
+  columnOrder: string[];
   selectionContextValue: SelectionContextValue;
 }
 
 const VirtualizedTable: React.FC<VirtualizedTableProps> = ({
   table,
   tableContainerRef,
+  columnOrder,
   selectionContextValue,
 }) => {
   // Calculate responsive height (70% of viewport minus some padding for better fit)
@@ -37,6 +39,7 @@ const VirtualizedTable: React.FC<VirtualizedTableProps> = ({
         <VirtualizedTableBody
           table={table}
           tableContainerRef={tableContainerRef}
+          columnOrder={columnOrder}
           selectionContextValue={selectionContextValue}
         />
       </TableUI>
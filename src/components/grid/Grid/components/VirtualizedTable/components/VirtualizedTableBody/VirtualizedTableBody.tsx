@@ -4,31 +4,53 @@ import {
 } from "@/components/grid/contexts/SelectionContext";
 import type { Table } from "@tanstack/react-table";
 import type { FlattenedRow } from "@/components/grid/Grid/hooks/useReportData/utils";
-import type { FC, RefObject } from "react";
+import { useLayoutEffect, useState, type FC, type RefObject } from "react";
 import { useVirtualizer } from "@tanstack/react-virtual";
 import VirtualizedTableRow from "./components/VirtualizedTableRow/VirtualizedTableRow";
-import { safeStringify } from "@/components/grid/utils/formatting";
+import { isTotalRow } from "@/components/grid/utils/derivedSections";
+import { ESTIMATED_ROW_HEIGHT } from "../../constants";
+import { useScrollToActiveCell } from "@/components/grid/Grid/hooks/useScrollToActiveCell/useScrollToActiveCell";
 import { TableBody } from "@/components/ui/table";
 
 interface VirtualizedTableBodyProps {
   table: Table<FlattenedRow>;
   tableContainerRef: RefObject<HTMLDivElement | null>;
+  columnOrder: string[];
   selectionContextValue: SelectionContextValue;
 }
 
 const VirtualizedTableBody: FC<VirtualizedTableBodyProps> = ({
   table,
   tableContainerRef,
+  columnOrder,
   selectionContextValue,
 }) => {
   const { rows } = table.getRowModel();
 
+  // The sticky header covers the top of the scroll container, measured again when the columns change
+  const [headerHeight, setHeaderHeight] = useState(0);
+  useLayoutEffect(() => {
+    setHeaderHeight(tableContainerRef.current?.querySelector("thead")?.offsetHeight ?? 0);
+  }, [tableContainerRef, columnOrder]);
+
   // Row virtualizer with better sizing
   const rowVirtualizer = useVirtualizer({
     count: rows.length,
     getScrollElement: () => tableContainerRef.current,
-    estimateSize: () => 40,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
     overscan: 15,
+    // Rows are offset by the header, so a row at the bottom edge needs the header height more
+    scrollPaddingEnd: headerHeight,
+  });
+
+  // Keep the active cell in view as the selection moves
+  useScrollToActiveCell({
+    table,
+    rowVirtualizer,
+    tableContainerRef,
+    columnOrder,
+    selectionState: selectionContextValue.selectionState,
+    editingCell: selectionContextValue.editingCell,
   });
 
   const virtualRows = rowVirtualizer.getVirtualItems();
@@ -45,8 +67,7 @@ const VirtualizedTableBody: FC<VirtualizedTableBodyProps> = ({
       >
         {virtualRows.map((virtualRow) => {
           const row = rows[virtualRow.index];
-          const isTotal =
-            safeStringify(row.original.product).toLowerCase() === "total";
+          const isTotal = isTotalRow(row.original);
 
           return (
             <VirtualizedTableRow
@@ -1,6 +1,7 @@
 import type { FlattenedRow } from "@/components/grid/Grid/hooks/useReportData/utils";
 import { TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { flexRender, type Table } from "@tanstack/react-table";
+import { cn } from "@/lib/utils";
 
 interface VirtualizedTableHeaderProps {
   table: Table<FlattenedRow>;
@@ -9,6 +10,9 @@ interface VirtualizedTableHeaderProps {
 const VirtualizedTableHeader: React.FC<VirtualizedTableHeaderProps> = ({
   table,
 }) => {
+  // Priorities only mean something with more than one sorted column
+  const isMultiSorted = table.getState().sorting.length > 1;
+
   return (
     <TableHeader
       style={{
@@ -24,25 +28,49 @@ const VirtualizedTableHeader: React.FC<VirtualizedTableHeaderProps> = ({
           key={headerGroup.id}
           style={{ display: "flex", width: "100%" }}
         >
-          {headerGroup.headers.map((header) => (
-            <TableHead
-              key={header.id}
-              className="font-semibold text-slate-900 dark:text-slate-100 px-4 py-3 text-left border-r border-slate-200 dark:border-slate-700 last:border-r-0 bg-slate-50 dark:bg-slate-800"
-              style={{
-                display: "flex",
-                alignItems: "center",
-                width: header.getSize(),
-                minWidth: header.getSize(),
-              }}
-            >
-              {header.isPlaceholder
-                ? null
-                : flexRender(
-                    header.column.columnDef.header,
-                    header.getContext()
-                  )}
-            </TableHead>
-          ))}
+          {headerGroup.headers.map((header) => {
+            // Filtered columns are tinted, groups when any of their columns is filtered
+            const isFiltered = header.isPlaceholder
+              ? false
+              : header.column.getLeafColumns().some((column) => column.getIsFiltered());
+            const sortIndex =
+              isMultiSorted && !header.isPlaceholder && header.subHeaders.length === 0
+                ? header.column.getSortIndex()
+                : -1;
+
+            return (
+              <TableHead
+                key={header.id}
+                className={cn(
+                  "font-semibold text-slate-900 dark:text-slate-100 px-4 py-3 text-left border-r border-slate-200 dark:border-slate-700 last:border-r-0 bg-slate-50 dark:bg-slate-800",
+                  isFiltered && "bg-blue-50 dark:bg-blue-950 border-b-2 border-b-blue-500"
+                )}
+                data-filtered={isFiltered || undefined}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  width: header.getSize(),
+                  minWidth: header.getSize(),
+                }}
+              >
+                {header.isPlaceholder
+                  ? null
+                  : flexRender(
+                      header.column.columnDef.header,
+                      header.getContext()
+                    )}
+                {sortIndex !== -1 && (
+                  <span
+                    className="ml-1 inline-flex h-4 min-w-4 items-center justify-center rounded-full bg-blue-600 px-1 text-[10px] font-semibold text-white"
+                    aria-label={`Sort priority ${sortIndex + 1}`}
+                    data-testid="sort-priority"
+                  >
+                    {sortIndex + 1}
+                  </span>
+                )}
+              </TableHead>
+            );
+          })}
         </TableRow>
       ))}
     </TableHeader>
@@ -0,0 +1,2 @@
+// Estimated height of a body row, the virtualizer measures rendered rows
+export const ESTIMATED_ROW_HEIGHT = 40;
@@ -0,0 +1,18 @@
+import type { Table } from "@tanstack/react-table";
+import type { FlattenedRow } from "@/components/grid/Grid/hooks/useReportData/utils";
+import type { CellIdentity, CellPosition } from "@/components/grid/types/common";
+
+export interface UseCellIdentityProps {
+    table: Table<FlattenedRow>;
+    columnOrder: string[];
+    reportId: string;
+  }
+
+export interface UseCellIdentityReturn {
+    // Position in the displayed (sorted) grid -> persistent row and column IDs
+    resolveCell: (position: CellPosition) => CellIdentity | null;
+    // Position in the displayed (sorted) grid -> cell key used for formatting
+    getCellKey: (position: CellPosition) => string | null;
+    // Persistent IDs -> current position in the displayed grid
+    getCellPosition: (identity: CellIdentity) => CellPosition | null;
+}
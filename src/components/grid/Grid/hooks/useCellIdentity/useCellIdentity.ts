@@ -0,0 +1,50 @@
+import { useCallback, useMemo } from 'react';
+import { generateCellKey } from '@/lib/cellKeys';
+import type { CellIdentity, CellPosition } from '@/components/grid/types/common';
+import type { UseCellIdentityProps, UseCellIdentityReturn } from './types';
+
+/**
+ * useCellIdentity - Translates between grid positions and persistent cell IDs
+ * Selection works with positions in the displayed row order, while edits and
+ * formatting are stored by row and column ID so they survive sorting.
+ */
+export const useCellIdentity = ({
+  table,
+  columnOrder,
+  reportId,
+}: UseCellIdentityProps): UseCellIdentityReturn => {
+  // Rows in display order, row.id is the persistent row ID
+  const { rows } = table.getRowModel();
+
+  const rowIndexById = useMemo(
+    () => new Map(rows.map((row, index) => [row.id, index])),
+    [rows]
+  );
+
+  const resolveCell = useCallback((position: CellPosition): CellIdentity | null => {
+    const row = rows[position.row];
+    const columnId = columnOrder[position.column];
+    if (!row || columnId === undefined) return null;
+
+    return { rowId: row.id, columnId };
+  }, [rows, columnOrder]);
+
+  const getCellKey = useCallback((position: CellPosition): string | null => {
+    const identity = resolveCell(position);
+    return identity ? generateCellKey(reportId, identity.rowId, identity.columnId) : null;
+  }, [resolveCell, reportId]);
+
+  const getCellPosition = useCallback((identity: CellIdentity): CellPosition | null => {
+    const row = rowIndexById.get(identity.rowId);
+    const column = columnOrder.indexOf(identity.columnId);
+    if (row === undefined || column === -1) return null;
+
+    return { row, column };
+  }, [rowIndexById, columnOrder]);
+
+  return {
+    resolveCell,
+    getCellKey,
+    getCellPosition,
+  };
+};
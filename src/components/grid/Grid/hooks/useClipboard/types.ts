@@ -0,0 +1,22 @@
+import type { AdapterOutput } from "@/components/grid/Grid/hooks/useReportData/utils";
+import type { CellFormatting, CellIdentity, CellPosition } from "@/components/grid/types/common";
+import type { UseSelectionReturn } from "../useSelection/types";
+import type { UseEditDataReturn } from "../useEditData/types";
+import type { IsGridEvent } from "../useGridFocus/types";
+
+export interface UseClipboardProps {
+    selectionHook: UseSelectionReturn;
+    editHook: UseEditDataReturn;
+    isGridEvent: IsGridEvent;
+    data: AdapterOutput;
+    totalRows: number;
+    totalColumns: number;
+    resolveCell: (position: CellPosition) => CellIdentity | null;
+    getCellKey: (position: CellPosition) => string | null;
+  }
+
+// Copied cell, formatting is carried over in the HTML flavor
+export interface ClipboardCell {
+    value: string | number;
+    formatting?: CellFormatting;
+}
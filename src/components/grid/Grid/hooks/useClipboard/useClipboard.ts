@@ -0,0 +1,128 @@
+import { useEffect } from 'react';
+import { ROW_ID_KEY } from '@/lib/cellKeys';
+import { getSelectedCells } from '../useKeyboardEvents/utils';
+import type { CellIdentity, CellPosition } from '@/components/grid/types/common';
+import type { ClipboardCell, UseClipboardProps } from './types';
+import { getPasteTargets, getSelectionBounds, parseTsv, toHtmlTable, toTsv } from './utils';
+
+/**
+ * Whether a clipboard event belongs to a text field rather than the grid
+ */
+const isTextFieldEvent = (e: ClipboardEvent): boolean =>
+  e.target instanceof HTMLElement &&
+  e.target.closest('input, textarea, [contenteditable="true"]') !== null;
+
+/**
+ * useClipboard - Copy, cut and paste of the selected cells
+ * Listens to the document's clipboard events, which Ctrl/Cmd+C/X/V and the
+ * browser's edit menu both fire, and which allow writing plain text and HTML
+ * synchronously without asking for clipboard permissions. Only events meant
+ * for this grid are handled, so several grids on a page don't all respond.
+ */
+export const useClipboard = ({
+  selectionHook,
+  editHook,
+  isGridEvent,
+  data,
+  totalRows,
+  totalColumns,
+  resolveCell,
+  getCellKey,
+}: UseClipboardProps) => {
+  useEffect(() => {
+    const getCellValue = (identity: CellIdentity) =>
+      data.rows.find((row) => row[ROW_ID_KEY] === identity.rowId)?.[identity.columnId] ?? '';
+
+    /**
+     * Writes the selection to the clipboard, returns the copied cells
+     */
+    const copySelection = (e: ClipboardEvent): CellPosition[] => {
+      const positions = getSelectedCells(selectionHook);
+      const bounds = getSelectionBounds(positions);
+      if (!bounds || !e.clipboardData) return [];
+
+      // Multiple selections copy their bounding box, unselected cells stay empty
+      const isSelected = (row: number, column: number) =>
+        positions.some((position) => position.row === row && position.column === column);
+
+      const cells: ClipboardCell[][] = [];
+      for (let row = bounds.start.row; row <= bounds.end.row; row++) {
+        const rowCells: ClipboardCell[] = [];
+        for (let column = bounds.start.column; column <= bounds.end.column; column++) {
+          const position = { row, column };
+          const identity = resolveCell(position);
+          if (!identity || !isSelected(row, column)) {
+            rowCells.push({ value: '' });
+            continue;
+          }
+          const cellKey = getCellKey(position);
+          rowCells.push({
+            value: getCellValue(identity),
+            formatting: cellKey ? data.cellMetadata.get(cellKey)?.formatting : undefined,
+          });
+        }
+        cells.push(rowCells);
+      }
+
+      e.clipboardData.setData('text/plain', toTsv(cells.map((row) => row.map((cell) => String(cell.value)))));
+      e.clipboardData.setData('text/html', toHtmlTable(cells));
+      e.preventDefault();
+      return positions;
+    };
+
+    const handleCopy = (e: ClipboardEvent) => {
+      if (!isGridEvent(e) || isTextFieldEvent(e) || editHook.editingCell) return;
+      copySelection(e);
+    };
+
+    const handleCut = (e: ClipboardEvent) => {
+      if (!isGridEvent(e) || isTextFieldEvent(e) || editHook.editingCell) return;
+
+      // Cut clears the copied cells right away as one undoable change
+      const positions = copySelection(e);
+      const inputs = positions.flatMap((position) => {
+        const identity = resolveCell(position);
+        return identity ? [{ identity, input: '' }] : [];
+      });
+      void editHook.saveCellInputs(inputs);
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (!isGridEvent(e) || isTextFieldEvent(e) || editHook.editingCell) return;
+
+      const bounds = getSelectionBounds(getSelectedCells(selectionHook));
+      const text = e.clipboardData?.getData('text/plain') ?? '';
+      const values = parseTsv(text);
+      if (!bounds || values.length === 0) return;
+      e.preventDefault();
+
+      // A single value fills the selected range, anything else is pasted from the active cell
+      const start = selectionHook.getActiveCell() ?? bounds.start;
+      const fillsRange = selectionHook.selectionState.selectedCells?.type === 'range' &&
+        values.length === 1 && values[0].length === 1;
+      const target = fillsRange ? bounds : { start, end: start };
+      const targets = getPasteTargets(values, target, totalRows, totalColumns);
+
+      const inputs = targets.flatMap(({ position, input }) => {
+        const identity = resolveCell(position);
+        return identity ? [{ identity, input }] : [];
+      });
+      void editHook.saveCellInputs(inputs);
+
+      // Select what was pasted so it can be formatted or copied again
+      if (targets.length > 1) {
+        selectionHook.selectRange(targets[0].position, targets[targets.length - 1].position);
+      }
+    };
+
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCut);
+    document.addEventListener('paste', handlePaste);
+
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCut);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [selectionHook, editHook, isGridEvent, data, totalRows, totalColumns, resolveCell, getCellKey]);
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { getPasteTargets, getSelectionBounds, parseTsv, toHtmlTable, toTsv } from './utils';
+
+describe('getSelectionBounds', () => {
+  it('should return the bounding box of the cells', () => {
+    expect(getSelectionBounds([
+      { row: 3, column: 1 },
+      { row: 1, column: 4 },
+    ])).toEqual({ start: { row: 1, column: 1 }, end: { row: 3, column: 4 } });
+  });
+
+  it('should return null without cells', () => {
+    expect(getSelectionBounds([])).toBeNull();
+  });
+});
+
+describe('toTsv and parseTsv', () => {
+  it('should round-trip values with tabs, line breaks and quotes', () => {
+    const rows = [
+      ['Product "A"', '1200'],
+      ['Line\nbreak', 'Tab\there'],
+    ];
+
+    expect(parseTsv(toTsv(rows))).toEqual(rows);
+  });
+
+  it('should parse spreadsheet output with CRLF and a trailing line break', () => {
+    expect(parseTsv('a\tb\r\nc\td\r\n')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+  });
+
+  it('should keep empty cells', () => {
+    expect(parseTsv('\t1\t')).toEqual([['', '1', '']]);
+    expect(parseTsv('')).toEqual([]);
+  });
+});
+
+describe('toHtmlTable', () => {
+  it('should carry formatting as inline styles and escape values', () => {
+    const html = toHtmlTable([[
+      { value: '<b>', formatting: { id: 'c1', bold: true, italic: true, alignment: 'right' } },
+      { value: 5 },
+    ]]);
+
+    expect(html).toBe(
+      '<table><tbody><tr>' +
+        '<td style="font-weight:bold;font-style:italic;text-align:right">&lt;b&gt;</td>' +
+        '<td>5</td>' +
+        '</tr></tbody></table>'
+    );
+  });
+});
+
+describe('getPasteTargets', () => {
+  it('should place values from the top-left cell and drop cells beyond the grid', () => {
+    const targets = getPasteTargets(
+      [['1', '2'], ['3', '4']],
+      { start: { row: 4, column: 2 }, end: { row: 4, column: 2 } },
+      5,
+      4
+    );
+
+    expect(targets).toEqual([
+      { position: { row: 4, column: 2 }, input: '1' },
+      { position: { row: 4, column: 3 }, input: '2' },
+    ]);
+  });
+
+  it('should fill the whole range with a single value', () => {
+    const targets = getPasteTargets(
+      [['7']],
+      { start: { row: 0, column: 1 }, end: { row: 1, column: 2 } },
+      10,
+      10
+    );
+
+    expect(targets.map((target) => target.position)).toEqual([
+      { row: 0, column: 1 },
+      { row: 0, column: 2 },
+      { row: 1, column: 1 },
+      { row: 1, column: 2 },
+    ]);
+    expect(targets.every((target) => target.input === '7')).toBe(true);
+  });
+});
@@ -0,0 +1,149 @@
+import type { CellPosition, CellRange } from '@/components/grid/types/common';
+import type { ClipboardCell } from './types';
+
+/**
+ * Smallest range containing all given cells
+ */
+export const getSelectionBounds = (positions: CellPosition[]): CellRange | null => {
+  if (positions.length === 0) return null;
+
+  const rows = positions.map((position) => position.row);
+  const columns = positions.map((position) => position.column);
+  return {
+    start: { row: Math.min(...rows), column: Math.min(...columns) },
+    end: { row: Math.max(...rows), column: Math.max(...columns) },
+  };
+};
+
+/**
+ * Quotes a TSV field like spreadsheets do when it contains tabs, line breaks or quotes
+ */
+const quoteTsvField = (field: string): string =>
+  /[\t\n\r"]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+
+/**
+ * Serializes rows of cells as tab separated values
+ */
+export const toTsv = (rows: string[][]): string =>
+  rows.map((row) => row.map(quoteTsvField).join('\t')).join('\n');
+
+/**
+ * Parses tab separated values as copied from Excel or Google Sheets
+ * Supports quoted fields with tabs, line breaks and doubled quotes,
+ * and ignores the trailing line break spreadsheets append.
+ */
+export const parseTsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const normalized = text.replace(/\r\n?/g, '\n').replace(/\n$/, '');
+  if (normalized === '') return [];
+
+  for (let index = 0; index < normalized.length; index++) {
+    const char = normalized[index];
+
+    if (inQuotes) {
+      if (char === '"' && normalized[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === '\t') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  rows.push(row);
+  return rows;
+};
+
+/**
+ * Escapes text for use inside HTML
+ */
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Inline styles of a copied cell, spreadsheets read these when pasting HTML
+ */
+const getCellStyle = ({ formatting }: ClipboardCell): string => {
+  const styles: string[] = [];
+  if (formatting?.bold) styles.push('font-weight:bold');
+  if (formatting?.italic) styles.push('font-style:italic');
+  if (formatting?.strikethrough) styles.push('text-decoration:line-through');
+  if (formatting?.alignment) styles.push(`text-align:${formatting.alignment}`);
+  return styles.join(';');
+};
+
+/**
+ * Serializes rows of cells as an HTML table carrying bold, italic and alignment
+ */
+export const toHtmlTable = (rows: ClipboardCell[][]): string => {
+  const body = rows
+    .map((row) => {
+      const cells = row
+        .map((cell) => {
+          const style = getCellStyle(cell);
+          const styleAttribute = style ? ` style="${style}"` : '';
+          return `<td${styleAttribute}>${escapeHtml(String(cell.value))}</td>`;
+        })
+        .join('');
+      return `<tr>${cells}</tr>`;
+    })
+    .join('');
+
+  return `<table><tbody>${body}</tbody></table>`;
+};
+
+/**
+ * Cells a paste writes to, starting at the top-left of the target
+ * A single copied value fills the whole selected range, like in spreadsheets.
+ * Cells beyond the grid are dropped.
+ */
+export const getPasteTargets = (
+  values: string[][],
+  target: CellRange,
+  totalRows: number,
+  totalColumns: number
+): Array<{ position: CellPosition; input: string }> => {
+  const targets: Array<{ position: CellPosition; input: string }> = [];
+  const isSingleValue = values.length === 1 && values[0].length === 1;
+  const height = isSingleValue ? target.end.row - target.start.row + 1 : values.length;
+
+  for (let rowOffset = 0; rowOffset < height; rowOffset++) {
+    const rowValues = isSingleValue ? null : values[rowOffset];
+    const width = rowValues ? rowValues.length : target.end.column - target.start.column + 1;
+
+    for (let columnOffset = 0; columnOffset < width; columnOffset++) {
+      const position = {
+        row: target.start.row + rowOffset,
+        column: target.start.column + columnOffset,
+      };
+      if (position.row >= totalRows || position.column >= totalColumns) continue;
+
+      targets.push({ position, input: rowValues ? rowValues[columnOffset] : values[0][0] });
+    }
+  }
+
+  return targets;
+};
@@ -0,0 +1,7 @@
+import type { ColumnFiltersState, OnChangeFn } from "@tanstack/react-table";
+
+export interface UseColumnFiltersReturn {
+    // Filters of the report's columns, as TanStack's column filter state
+    columnFilters: ColumnFiltersState;
+    onColumnFiltersChange: OnChangeFn<ColumnFiltersState>;
+}
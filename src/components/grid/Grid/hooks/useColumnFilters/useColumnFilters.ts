@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ColumnFiltersState, Updater } from '@tanstack/react-table';
+import { parseColumnFilters, serializeColumnFilters } from '../../../utils/columnFilters';
+import type { UseColumnFiltersReturn } from './types';
+
+/**
+ * useColumnFilters - Column filters of a report kept in the URL
+ * The URL is replaced rather than pushed, so filtering doesn't fill the
+ * browser history, and filters follow the URL when it changes (back/forward).
+ */
+export const useColumnFilters = (reportId: string): UseColumnFiltersReturn => {
+  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>(() =>
+    parseColumnFilters(window.location.search, reportId)
+  );
+
+  // Read the filters of a newly shown report and follow URL changes
+  useEffect(() => {
+    const readFilters = () => setColumnFilters(parseColumnFilters(window.location.search, reportId));
+    readFilters();
+    window.addEventListener('popstate', readFilters);
+    return () => window.removeEventListener('popstate', readFilters);
+  }, [reportId]);
+
+  const onColumnFiltersChange = useCallback((updater: Updater<ColumnFiltersState>) => {
+    setColumnFilters((prev) => (typeof updater === 'function' ? updater(prev) : updater));
+  }, []);
+
+  // Keep the URL in step with the filters
+  useEffect(() => {
+    const search = serializeColumnFilters(window.location.search, reportId, columnFilters);
+    if (search === window.location.search) return;
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${search}${window.location.hash}`);
+  }, [reportId, columnFilters]);
+
+  return { columnFilters, onColumnFiltersChange };
+};
@@ -0,0 +1,28 @@
+import type { AdapterOutput } from "@/components/grid/Grid/hooks/useReportData/utils";
+import type { UseSelectionReturn } from "../useSelection/types";
+import type { SaveReport } from "../useSaveReport/types";
+
+export interface UseColumnOperationsProps {
+    data: AdapterOutput;
+    saveReport: SaveReport;
+    selectionHook: UseSelectionReturn;
+}
+
+// Side of the column a new period column goes to
+export type ColumnPlacement = "left" | "right";
+
+export interface UseColumnOperationsReturn {
+    // Reasons a name can't be used, null when it can
+    getPeriodError: (anchorColumnId: string, period: string) => string | null;
+    getSectionNameError: (name: string, currentName?: string) => string | null;
+    // Columns and sections can be deleted as long as one data column is left
+    canDeleteColumn: (columnId: string) => boolean;
+    canDeleteSection: (sectionName: string) => boolean;
+    // Each resolves to false when the save failed and the change was rolled back
+    addPeriod: (anchorColumnId: string, placement: ColumnPlacement, period: string) => Promise<boolean>;
+    renameColumn: (columnId: string, name: string) => Promise<boolean>;
+    deleteColumn: (columnId: string) => Promise<boolean>;
+    addSection: (name: string, templateSectionName: string) => Promise<boolean>;
+    renameSection: (sectionName: string, newName: string) => Promise<boolean>;
+    deleteSection: (sectionName: string) => Promise<boolean>;
+}
@@ -0,0 +1,116 @@
+import { useCallback, useMemo } from 'react';
+import { ROW_ID_KEY } from '@/lib/cellKeys';
+import { isProductColumn } from '@/components/grid/Grid/hooks/useReportData/utils';
+import {
+  addPeriodColumn,
+  addSection as addReportSection,
+  deleteColumn as deleteReportColumn,
+  deleteSection as deleteReportSection,
+  renameColumn as renameReportColumn,
+  renameSection as renameReportSection,
+} from './utils';
+import type { ColumnPlacement, UseColumnOperationsProps, UseColumnOperationsReturn } from './types';
+
+/**
+ * useColumnOperations - Adds, renames and deletes columns and sections of the report
+ * Columns are addressed by their persistent ID, the whole report is saved in
+ * one write, see useSaveReport. Derived sections pick up new periods on their own.
+ */
+export const useColumnOperations = ({
+  data,
+  saveReport,
+  selectionHook,
+}: UseColumnOperationsProps): UseColumnOperationsReturn => {
+  const dataSections = useMemo(() => data.sections.filter(({ type }) => type !== 'product'), [data.sections]);
+
+  const getPeriodError = useCallback((anchorColumnId: string, period: string) => {
+    const anchor = data.columnMapping.get(anchorColumnId);
+    if (!anchor) return 'The column no longer exists';
+    if (period === '') return 'Enter a period';
+    if (period === ROW_ID_KEY || isProductColumn({ key: period, name: period })) return `${period} can't be used as a period`;
+
+    // Every section holding the anchor period gets the new one
+    const exists = dataSections.some(({ columns }) =>
+      columns.some(({ originalKey }) => originalKey === anchor.originalKey) &&
+      columns.some(({ originalKey }) => originalKey === period)
+    );
+    return exists ? `${period} already exists` : null;
+  }, [data.columnMapping, dataSections]);
+
+  const getSectionNameError = useCallback((name: string, currentName?: string) => {
+    if (name === '') return 'Enter a section name';
+    if (name === currentName) return null;
+    return data.sections.some((section) => section.name === name) ? `${name} already exists` : null;
+  }, [data.sections]);
+
+  const canDeleteSection = useCallback(
+    (sectionName: string) => dataSections.some(({ name }) => name !== sectionName),
+    [dataSections]
+  );
+
+  const canDeleteColumn = useCallback((columnId: string) => {
+    const section = dataSections.find(({ columns }) => columns.some(({ id }) => id === columnId));
+    // The last column of a section goes along with the section
+    return section !== undefined && (section.columns.length > 1 || canDeleteSection(section.name));
+  }, [dataSections, canDeleteSection]);
+
+  const addPeriod = useCallback(async (anchorColumnId: string, placement: ColumnPlacement, period: string) => {
+    const anchor = data.columnMapping.get(anchorColumnId);
+    if (!anchor || getPeriodError(anchorColumnId, period) !== null) return false;
+
+    return saveReport((report) => addPeriodColumn(report, period, anchor.originalKey, placement));
+  }, [data.columnMapping, getPeriodError, saveReport]);
+
+  const renameColumn = useCallback(async (columnId: string, name: string) => {
+    const column = data.columnMapping.get(columnId);
+    if (!column || name === '') return false;
+    if (name === column.name) return true;
+
+    return saveReport((report) => renameReportColumn(report, column.originalSection, column.originalKey, name));
+  }, [data.columnMapping, saveReport]);
+
+  const deleteColumn = useCallback(async (columnId: string) => {
+    const column = data.columnMapping.get(columnId);
+    if (!column || !canDeleteColumn(columnId)) return false;
+
+    // Positions after the column refer to other cells now
+    selectionHook.clearSelection();
+    return saveReport((report) => deleteReportColumn(report, column.originalSection, column.originalKey));
+  }, [data.columnMapping, canDeleteColumn, selectionHook, saveReport]);
+
+  const addSection = useCallback(async (name: string, templateSectionName: string) => {
+    if (getSectionNameError(name) !== null) return false;
+
+    return saveReport((report) => addReportSection(report, name, templateSectionName));
+  }, [getSectionNameError, saveReport]);
+
+  const renameSection = useCallback(async (sectionName: string, newName: string) => {
+    if (getSectionNameError(newName, sectionName) !== null) return false;
+    if (newName === sectionName) return true;
+
+    return saveReport((report) => renameReportSection(report, sectionName, newName));
+  }, [getSectionNameError, saveReport]);
+
+  const deleteSection = useCallback(async (sectionName: string) => {
+    if (!canDeleteSection(sectionName)) return false;
+
+    selectionHook.clearSelection();
+    return saveReport((report) => deleteReportSection(report, sectionName));
+  }, [canDeleteSection, selectionHook, saveReport]);
+
+  return useMemo(
+    () => ({
+      getPeriodError,
+      getSectionNameError,
+      canDeleteColumn,
+      canDeleteSection,
+      addPeriod,
+      renameColumn,
+      deleteColumn,
+      addSection,
+      renameSection,
+      deleteSection,
+    }),
+    [getPeriodError, getSectionNameError, canDeleteColumn, canDeleteSection, addPeriod, renameColumn, deleteColumn, addSection, renameSection, deleteSection]
+  );
+};
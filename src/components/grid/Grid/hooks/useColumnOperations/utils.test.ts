@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addPeriodColumn,
+  addSection,
+  deleteColumn,
+  deleteSection,
+  getPeriodSections,
+  renameColumn,
+  renameSection,
+} from './utils';
+import { buildAdapterOutput } from '@/components/grid/Grid/hooks/useReportData/utils';
+import { convertToSpreadsheetData } from '../useEditData/utils';
+import type { ReportData } from '@/components/grid/types/common';
+
+const reportData: ReportData = {
+  Values: {
+    columns: [
+      { key: 'product', name: 'Product' },
+      { key: '2023', name: '2023', id: 'values_2023' },
+      { key: '2024', name: '2024', id: 'values_2024' },
+    ],
+    items: [
+      { rowId: 'row-a', product: 'A', '2023': 100, '2024': 110 },
+      { rowId: 'row-total', product: 'Total', '2023': 100, '2024': 110 },
+    ],
+    formulas: {
+      'row-a': { '2024': '=B1*1.1' },
+    },
+  },
+  'YoY Growth': {
+    columns: [
+      { key: 'product', name: 'Product' },
+      { key: '2024', name: '2024', id: 'yoy_growth_2024' },
+    ],
+    items: [
+      { rowId: 'row-a', product: 'A', '2024': 10 },
+      { rowId: 'row-total', product: 'Total', '2024': 10 },
+    ],
+  },
+  Notes: {
+    columns: [
+      { key: 'product', name: 'Product' },
+      { key: 'comment', name: 'Comment', id: 'notes_comment' },
+    ],
+    items: [
+      { rowId: 'row-a', product: 'A', comment: 'Launched' },
+      { rowId: 'row-total', product: 'Total', comment: '' },
+    ],
+  },
+};
+
+const getKeys = (data: ReportData, section: string) => data[section].columns.map(({ key }) => key);
+
+// Loads a report into the grid and converts it back, as saving does
+const roundTrip = (data: ReportData) =>
+  convertToSpreadsheetData(buildAdapterOutput('r1', { data, version: 1 }, []), 'r1');
+
+describe('addPeriodColumn', () => {
+  it('should add the period to every section holding the anchor period', () => {
+    const result = addPeriodColumn(reportData, '2025', '2024', 'right');
+
+    expect(getKeys(result, 'Values')).toEqual(['product', '2023', '2024', '2025']);
+    expect(getKeys(result, 'YoY Growth')).toEqual(['product', '2024', '2025']);
+    expect(result.Notes).toBe(reportData.Notes);
+    expect(getPeriodSections(result, '2025')).toEqual(['Values', 'YoY Growth']);
+  });
+
+  it('should insert left of the anchor with empty values and a new column ID', () => {
+    const result = addPeriodColumn(reportData, '2022', '2023', 'left');
+    const column = result.Values.columns[1];
+
+    expect(column).toMatchObject({ key: '2022', name: '2022' });
+    expect(column.id).toMatch(/^col-/);
+    expect(result.Values.items.map((item) => item['2022'])).toEqual(['', '']);
+  });
+
+  it('should compute derived cells of the new period', () => {
+    const withPeriod = addPeriodColumn(reportData, '2025', '2024', 'right');
+    const output = buildAdapterOutput('r1', { data: withPeriod, version: 1 }, []);
+    const growthId = withPeriod['YoY Growth'].columns[2].id!;
+
+    expect(output.columnMapping.get(growthId)?.derivedFrom).toBe(withPeriod.Values.columns[3].id);
+  });
+});
+
+describe('deleteColumn', () => {
+  it('should remove the column with its values and formulas', () => {
+    const result = deleteColumn(reportData, 'Values', '2024');
+
+    expect(getKeys(result, 'Values')).toEqual(['product', '2023']);
+    expect(result.Values.items[0]).toEqual({ rowId: 'row-a', product: 'A', '2023': 100 });
+    expect(result.Values.formulas).toEqual({});
+    expect(result['YoY Growth']).toBe(reportData['YoY Growth']);
+  });
+
+  it('should remove a section left without data columns', () => {
+    expect(Object.keys(deleteColumn(reportData, 'Notes', 'comment'))).toEqual(['Values', 'YoY Growth']);
+  });
+});
+
+describe('renameColumn', () => {
+  it('should change the header only', () => {
+    const result = renameColumn(reportData, 'Values', '2024', 'FY 2024');
+
+    expect(result.Values.columns[2]).toEqual({ key: '2024', name: 'FY 2024', id: 'values_2024' });
+    expect(result.Values.items).toBe(reportData.Values.items);
+  });
+});
+
+describe('addSection', () => {
+  it('should add an empty section after the template with its columns', () => {
+    const result = addSection(reportData, 'Forecast', 'Values');
+
+    expect(Object.keys(result)).toEqual(['Values', 'Forecast', 'YoY Growth', 'Notes']);
+    expect(getKeys(result, 'Forecast')).toEqual(['product', '2023', '2024']);
+    expect(result.Forecast.columns[1].id).not.toBe('values_2023');
+    expect(result.Forecast.items[0]).toEqual({ rowId: 'row-a', product: 'A', '2023': '', '2024': '' });
+  });
+
+  it('should leave the report as it is when the name is taken', () => {
+    expect(addSection(reportData, 'Notes', 'Values')).toBe(reportData);
+  });
+});
+
+describe('renameSection', () => {
+  it('should rename the section in place', () => {
+    const result = renameSection(reportData, 'Notes', 'Comments');
+
+    expect(Object.keys(result)).toEqual(['Values', 'YoY Growth', 'Comments']);
+    expect(result.Comments).toBe(reportData.Notes);
+  });
+
+  it('should keep the type of a section the new name no longer implies', () => {
+    const result = renameSection(reportData, 'Values', 'Sales');
+    const output = buildAdapterOutput('r1', { data: result, version: 1 }, []);
+
+    expect(result.Sales.type).toBe('currency');
+    expect(output.sections.find(({ name }) => name === 'Sales')?.type).toBe('currency');
+    // YoY Growth is still computed from the renamed section
+    expect(output.columnMapping.get('yoy_growth_2024')?.derivedFrom).toBe('values_2024');
+    expect(roundTrip(result).Sales.type).toBe('currency');
+    expect(roundTrip(reportData).Values.type).toBeUndefined();
+  });
+});
+
+describe('deleteSection', () => {
+  it('should remove the section', () => {
+    expect(Object.keys(deleteSection(reportData, 'YoY Growth'))).toEqual(['Values', 'Notes']);
+  });
+});
+
+describe('structure round trip', () => {
+  it('should save the report as it was loaded', () => {
+    expect(roundTrip(reportData)).toEqual(reportData);
+  });
+
+  it('should save added, renamed and deleted columns and sections', () => {
+    const changed = deleteSection(
+      renameSection(
+        addSection(renameColumn(addPeriodColumn(reportData, '2025', '2024', 'right'), 'Values', '2023', 'FY 2023'), 'Forecast', 'Values'),
+        'Notes',
+        'Comments'
+      ),
+      'YoY Growth'
+    );
+
+    const saved = roundTrip(changed);
+
+    expect(Object.keys(saved)).toEqual(['Values', 'Forecast', 'Comments']);
+    for (const [sectionName, section] of Object.entries(changed)) {
+      expect(saved[sectionName].columns).toEqual(section.columns);
+      expect(saved[sectionName].formulas).toEqual(section.formulas);
+    }
+    // The Total row of the new period is computed on load
+    expect(saved.Values.items[1]['2025']).toBe(0);
+  });
+});
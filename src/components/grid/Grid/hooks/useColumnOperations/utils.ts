@@ -0,0 +1,136 @@
+import { ROW_ID_KEY } from '@/lib/cellKeys';
+import { getSectionType, inferSectionType, isProductColumn } from '@/components/grid/Grid/hooks/useReportData/utils';
+import type { ReportColumn, ReportData, ReportItem, ReportSection } from '@/components/grid/types/common';
+
+/**
+ * Columns are identified in the report by their section and key. A period
+ * (a year such as 2025) is a column key several sections share, the Values
+ * column of a period is what YoY Growth and Percent of Total are computed from.
+ */
+
+/**
+ * New persistent column ID, unique so formatting of a deleted column never
+ * comes back on a new column with the same key
+ */
+export const createColumnId = (): string => `col-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 9)}`;
+
+const hasColumn = (section: ReportSection, key: string): boolean =>
+  section.columns.some((column) => column.key === key);
+
+const withoutKey = <T>(record: Record<string, T>, key: string): Record<string, T> =>
+  Object.fromEntries(Object.entries(record).filter(([recordKey]) => recordKey !== key));
+
+/**
+ * Sections holding a column for the given period
+ */
+export const getPeriodSections = (data: ReportData, period: string): string[] =>
+  Object.keys(data).filter((sectionName) => hasColumn(data[sectionName], period));
+
+/**
+ * Adds a period column left or right of an existing period, in every section
+ * holding that period. Sections that already have the period are left as they are.
+ */
+export const addPeriodColumn = (
+  data: ReportData,
+  period: string,
+  anchorKey: string,
+  placement: 'left' | 'right'
+): ReportData =>
+  Object.fromEntries(
+    Object.entries(data).map(([sectionName, section]): [string, ReportSection] => {
+      const anchorIndex = section.columns.findIndex((column) => column.key === anchorKey);
+      if (anchorIndex === -1 || hasColumn(section, period)) return [sectionName, section];
+
+      const index = anchorIndex + (placement === 'right' ? 1 : 0);
+      const column: ReportColumn = { key: period, name: period, id: createColumnId() };
+      return [sectionName, {
+        ...section,
+        columns: [...section.columns.slice(0, index), column, ...section.columns.slice(index)],
+        items: section.items.map((item) => ({ ...item, [period]: '' })),
+      }];
+    })
+  );
+
+/**
+ * Removes a column with its values and formulas
+ * A section left without data columns is removed along with it.
+ */
+export const deleteColumn = (data: ReportData, sectionName: string, key: string): ReportData => {
+  const section = data[sectionName];
+  if (!section || !hasColumn(section, key)) return data;
+
+  const columns = section.columns.filter((column) => column.key !== key);
+  if (columns.every(isProductColumn)) {
+    return deleteSection(data, sectionName);
+  }
+
+  const items = section.items.map((item): ReportItem => withoutKey(item, key));
+  const formulas = section.formulas && Object.fromEntries(
+    Object.entries(section.formulas)
+      .map(([rowId, rowFormulas]) => [rowId, withoutKey(rowFormulas, key)] as const)
+      .filter(([, rowFormulas]) => Object.keys(rowFormulas).length > 0)
+  );
+  return { ...data, [sectionName]: { ...section, columns, items, ...(formulas && { formulas }) } };
+};
+
+/**
+ * Changes the header of a column, its key and so its values stay the same
+ */
+export const renameColumn = (data: ReportData, sectionName: string, key: string, name: string): ReportData => {
+  const section = data[sectionName];
+  if (!section) return data;
+
+  return {
+    ...data,
+    [sectionName]: {
+      ...section,
+      columns: section.columns.map((column) => (column.key === key ? { ...column, name } : column)),
+    },
+  };
+};
+
+/**
+ * Adds an empty section right after another one, with the same columns
+ * Rows keep their product names, the new columns get their own IDs.
+ */
+export const addSection = (data: ReportData, sectionName: string, templateSectionName: string): ReportData => {
+  const template = data[templateSectionName];
+  if (!template || data[sectionName]) return data;
+
+  const section: ReportSection = {
+    columns: template.columns.map((column) => (isProductColumn(column) ? column : { ...column, id: createColumnId() })),
+    items: template.items.map((item) => ({
+      ...Object.fromEntries(
+        template.columns.map((column) => [column.key, isProductColumn(column) ? item[column.key] : ''])
+      ),
+      [ROW_ID_KEY]: item[ROW_ID_KEY],
+    })),
+  };
+
+  return Object.fromEntries(
+    Object.entries(data).flatMap(([name, existing]): Array<[string, ReportSection]> =>
+      name === templateSectionName ? [[name, existing], [sectionName, section]] : [[name, existing]]
+    )
+  );
+};
+
+/**
+ * Renames a section in place, its columns keep their IDs and so their formatting
+ * The section keeps its type, which is stored when the new name doesn't imply it.
+ */
+export const renameSection = (data: ReportData, sectionName: string, newName: string): ReportData => {
+  const section = data[sectionName];
+  if (!section || data[newName]) return data;
+
+  const type = getSectionType(sectionName, section);
+  const renamed = type === inferSectionType(newName) ? section : { ...section, type };
+  return Object.fromEntries(
+    Object.entries(data).map(([name, existing]) => (name === sectionName ? [newName, renamed] : [name, existing]))
+  );
+};
+
+/**
+ * Removes a section with all its columns
+ */
+export const deleteSection = (data: ReportData, sectionName: string): ReportData =>
+  Object.fromEntries(Object.entries(data).filter(([name]) => name !== sectionName));
@@ -1,23 +1,76 @@
+import type { Dispatch, SetStateAction } from "react";
 import type { AdapterOutput } from "@/components/grid/Grid/hooks/useReportData/utils";
-import type { CellPosition } from "@/components/grid/types/common";
+import type { CellIdentity, CellPosition } from "@/components/grid/types/common";
+import type { ReportDataSource } from "@/api/dataSources/types";
+import type { HistoryEntry, HistoryRecordOptions } from "../useHistory/types";
 
 export interface UseEditDataProps {
     data: AdapterOutput;
-    onDataUpdate: (updatedData: AdapterOutput) => void;
+    onDataUpdate: Dispatch<SetStateAction<AdapterOutput>>;
+    dataSource: ReportDataSource;
+    reportId: string;
+    // Resolve positions in the displayed grid to persistent IDs and back
+    resolveCell: (position: CellPosition) => CellIdentity | null;
+    getCellPosition: (identity: CellIdentity) => CellPosition | null;
+    // Receives every value change so it can be undone
+    onHistoryRecord?: (entry: HistoryEntry) => void;
+    // Also store the recomputed Total row and derived cells, they are recomputed on load either way
+    persistDerivedValues?: boolean;
   }
   
+// New value for a cell identified by its persistent IDs
+export interface CellValueChange {
+    identity: CellIdentity;
+    value: string | number;
+    // Value the change was made on, defaults to the value the cell shows now
+    baseValue?: string | number;
+    // Formula computing the value, null turns the cell back into a literal, undefined keeps it
+    formula?: string | null;
+    // Already the stored value, only shown along with the cells computed from it
+    stored?: boolean;
+}
+
+// Text typed or pasted into a cell, validated and converted like an edit
+export interface CellInput {
+    identity: CellIdentity;
+    input: string;
+}
+
+// Save rejected because someone else changed the cell first
+export interface EditConflict {
+    identity: CellIdentity;
+    theirValue: string | number;
+    yourValue: string | number;
+}
+
 export interface UseEditDataReturn {
     // State
     editingCell: CellPosition | null;
     editValue: string;
     isEditValid: boolean;
     editError: string | null;
+    // Failed save or skipped values, set once the editor is already closed
+    saveError: string | null;
     isSaving: boolean;
 
     // Methods
     startEdit: (position: CellPosition) => void;
     cancelEdit: () => void;
     saveEdit: () => Promise<void>;
+    // Saves several cells as one batched write, resolves to false when rolled back
+    saveCellValues: (changes: CellValueChange[], options?: HistoryRecordOptions) => Promise<boolean>;
+    // Validates and converts text like an edit, then saves the valid cells as one batched write
+    saveCellInputs: (inputs: CellInput[]) => Promise<boolean>;
+    // Writes pending cell changes, resolves with the report version they were saved as
+    getSavedVersion: () => Promise<number>;
+    clearSaveError: () => void;
     updateEditValue: (value: string) => void;
     isCellEditing: (position: CellPosition) => boolean;
+    // The Total row and derived cells are computed from other cells and can't be edited
+    isCellReadOnly: (position: CellPosition) => boolean;
+
+    // Conflicts
+    getCellConflict: (position: CellPosition) => EditConflict | null;
+    // Keeps the stored value, or overwrites it with the rejected one
+    resolveConflict: (identity: CellIdentity, keep: 'theirs' | 'mine') => Promise<void>;
 }
\ No newline at end of file
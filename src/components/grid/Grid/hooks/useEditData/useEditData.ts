@@ -1,67 +1,24 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import type { AdapterOutput } from '@/components/grid/Grid/hooks/useReportData/utils';
-import { updateReportById } from '@/api/reports/reports';
-import { REPORT_ID } from '@/api';
-import type { CellMetadata, CellPosition, ReportData } from '@/components/grid/types/common';
-import type { UseEditDataProps, UseEditDataReturn } from './types';
+import type { CellIdentity, CellMetadata, CellPosition } from '@/components/grid/types/common';
+import type {
+  CellInput,
+  CellValueChange,
+  EditConflict,
+  UseEditDataProps,
+  UseEditDataReturn,
+} from './types';
+import type { HistoryRecordOptions } from '../useHistory/types';
+import { buildCellPatches, createPatchBatcher, withDerivedValues, withRecalculatedFormulas } from './utils';
+import { ROW_ID_KEY, generateCellKey } from '@/lib/cellKeys';
+import { isFormula, isValidFormula } from '@/components/grid/utils/formulas';
+import { isDerivedColumn, isTotalRow } from '@/components/grid/utils/derivedSections';
 
 /**
- * Convert AdapterOutput back to SpreadsheetData format
+ * Checks whether typed text is a formula for the cell, product names are always text
  */
-const convertToSpreadsheetData = (adapterOutput: AdapterOutput): ReportData => {
-  const spreadsheetData: ReportData = {};
-  
-  // Group columns by original section
-  const sectionColumns = new Map<string, Array<{key: string; name: string}>>();
-  
-  // Process columns from mapping
-  adapterOutput.columnMapping.forEach((columnMeta) => {
-    const { originalSection, originalKey, name } = columnMeta;
-    
-    if (!sectionColumns.has(originalSection)) {
-      sectionColumns.set(originalSection, []);
-    }
-    
-    sectionColumns.get(originalSection)!.push({
-      key: originalKey,
-      name: name
-    });
-  });
-  
-  // Create sections with their data
-  sectionColumns.forEach((columns, sectionName) => {
-    const sectionItems: Array<{[key: string]: string | number}> = [];
-    
-    // Transform each row for this section
-    adapterOutput.rows.forEach((row) => {
-      const sectionItem: {[key: string]: string | number} = {};
-      
-      // Add data for each column in this section
-      columns.forEach(({ key }) => {
-        if (key === 'product') {
-          sectionItem[key] = row.product;
-        } else {
-          // Find the internal column ID for this original key
-          const columnMeta = Array.from(adapterOutput.columnMapping.values())
-            .find(meta => meta.originalKey === key && meta.originalSection === sectionName);
-          
-          if (columnMeta) {
-            sectionItem[key] = row[columnMeta.id];
-          }
-        }
-      });
-      
-      sectionItems.push(sectionItem);
-    });
-    
-    spreadsheetData[sectionName] = {
-      columns: columns,
-      items: sectionItems
-    };
-  });
-  
-  return spreadsheetData;
-};
+const acceptsFormula = (value: string, metadata: CellMetadata): boolean =>
+  isFormula(value) && metadata.type !== 'product';
 
 /**
  * Validate a cell value based on its metadata
@@ -71,6 +28,11 @@ const validateValue = (value: string, metadata: CellMetadata): boolean => {
   if (value.trim() === '') {
     return true;
   }
+
+  // Formulas are checked for syntax, their result is only known once evaluated
+  if (acceptsFormula(value, metadata)) {
+    return isValidFormula(value);
+  }
   
   switch (metadata.type) {
     case 'number':
@@ -84,21 +46,51 @@ const validateValue = (value: string, metadata: CellMetadata): boolean => {
   }
 };
 
+/**
+ * Key of a cell in the conflicts map
+ */
+const getConflictKey = ({ rowId, columnId }: CellIdentity) => `${rowId}\u0000${columnId}`;
+
 /**
  * useSpreadsheetEdit - Grid-level hook for managing single cell editing
  * Only one cell can be edited at a time across the entire spreadsheet
  */
-export const useEditData = ({ data, onDataUpdate }: UseEditDataProps): UseEditDataReturn => {
-  const [editingCell, setEditingCell] = useState<CellPosition | null>(null);
+export const useEditData = ({
+  data,
+  onDataUpdate,
+  dataSource,
+  reportId,
+  resolveCell,
+  getCellPosition,
+  onHistoryRecord,
+  persistDerivedValues = false,
+}: UseEditDataProps): UseEditDataReturn => {
+  // The edited cell is tracked by ID so it stays put when rows are re-sorted
+  const [editingCellIds, setEditingCellIds] = useState<CellIdentity | null>(null);
   const [editValue, setEditValue] = useState<string>('');
   const [isEditValid, setIsEditValid] = useState<boolean>(true);
   const [editError, setEditError] = useState<string | null>(null);
+  // Shown outside the editor, which is closed by the time a write fails
+  const [saveError, setSaveError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [conflicts, setConflicts] = useState<Map<string, EditConflict>>(new Map());
+
+  // Report version saves are based on, read when a batch is written rather than when queued
+  const versionRef = useRef(data.version);
+  useEffect(() => {
+    versionRef.current = data.version;
+  }, [data.version]);
+
+  // Current position of the edited cell in the displayed grid
+  const editingCell = useMemo(
+    () => (editingCellIds ? getCellPosition(editingCellIds) : null),
+    [editingCellIds, getCellPosition]
+  );
 
   // Helper to get cell metadata (simplified version)
-  const getCellMetadata = useCallback((position: CellPosition, columnKey: string, data: AdapterOutput) => {
-    const row = data.rows[position.row];
-    const isTotal = row && String(row.product).toLowerCase() === 'total';
+  const getCellMetadata = useCallback((rowIndex: number, columnKey: string, data: AdapterOutput) => {
+    const row = data.rows[rowIndex];
+    const isTotal = row && isTotalRow(row);
     
     // Find the section this column belongs to
     const section = data.sections.find((s) => 
@@ -133,10 +125,11 @@ export const useEditData = ({ data, onDataUpdate }: UseEditDataProps): UseEditDa
     return metadata;
   }, []);
 
-  // Helper to get cell data by position
-  const getCellData = useCallback((position: CellPosition) => {
-    const row = data.rows[position.row];
-    const internalColumnId = data.columnOrder[position.column];
+  // Helper to get cell data by persistent cell IDs
+  const getCellData = useCallback((identity: CellIdentity) => {
+    const rowIndex = data.rows.findIndex((row) => row[ROW_ID_KEY] === identity.rowId);
+    const row = data.rows[rowIndex];
+    const internalColumnId = identity.columnId;
     const rawValue = row?.[internalColumnId] ?? '';
     
     // Get column metadata to access originalKey
@@ -144,9 +137,9 @@ export const useEditData = ({ data, onDataUpdate }: UseEditDataProps): UseEditDa
     const originalKey = columnMetadata?.originalKey || internalColumnId;
     
     // Get metadata for validation/formatting
-    const metadata = getCellMetadata(position, internalColumnId, data);
+    const metadata = getCellMetadata(rowIndex, internalColumnId, data);
     
-    return { rawValue, metadata, columnKey: originalKey, internalColumnId };
+    return { rawValue, metadata, columnKey: originalKey, internalColumnId, rowIndex };
   }, [data, getCellMetadata]);
 
   // Convert string value to appropriate type
@@ -158,100 +151,297 @@ export const useEditData = ({ data, onDataUpdate }: UseEditDataProps): UseEditDa
     return value;
   }, []);
 
-  // Start editing a cell
+  // Formula of a cell, undefined for cells holding a literal value
+  const getCellFormula = useCallback((identity: CellIdentity) =>
+    data.formulas.get(generateCellKey(reportId, identity.rowId, identity.columnId)),
+  [data.formulas, reportId]);
+
+  // Turn typed text into a change, formulas are stored as typed and evaluated on save
+  const toValueChange = useCallback((identity: CellIdentity, input: string, metadata: CellMetadata): CellValueChange => {
+    if (acceptsFormula(input, metadata)) {
+      return { identity, value: '', formula: input.trim() };
+    }
+    const change: CellValueChange = { identity, value: convertValue(input, metadata) };
+    // Typing a literal over a formula removes the formula
+    return getCellFormula(identity) === undefined ? change : { ...change, formula: null };
+  }, [convertValue, getCellFormula]);
+
+  // The Total row and derived cells are computed from other cells and can't be edited
+  const totalRowId = useMemo(() => {
+    const totalRow = data.rows.find(isTotalRow);
+    return totalRow ? String(totalRow[ROW_ID_KEY]) : null;
+  }, [data.rows]);
+
+  const isReadOnly = useCallback((identity: CellIdentity) =>
+    identity.rowId === totalRowId || isDerivedColumn(data.columnMapping.get(identity.columnId)),
+  [totalRowId, data.columnMapping]);
+
+  const isCellReadOnly = useCallback((position: CellPosition): boolean => {
+    const identity = resolveCell(position);
+    return identity !== null && isReadOnly(identity);
+  }, [resolveCell, isReadOnly]);
+
+  // Start editing a cell, formula cells show their formula instead of the result
   const startEdit = useCallback((position: CellPosition) => {
-    const { rawValue } = getCellData(position);
-  
+    const identity = resolveCell(position);
+    if (!identity || isReadOnly(identity)) return;
+
+    const { rawValue } = getCellData(identity);
     
-    setEditingCell(position);
-    setEditValue(String(rawValue));
+    setEditingCellIds(identity);
+    setEditValue(getCellFormula(identity) ?? String(rawValue));
     setIsEditValid(true);
     setEditError(null);
-  }, [getCellData]);
+  }, [resolveCell, isReadOnly, getCellData, getCellFormula]);
 
   // Cancel editing
   const cancelEdit = useCallback(() => {
-    setEditingCell(null);
+    setEditingCellIds(null);
     setEditValue('');
     setIsEditValid(true);
     setEditError(null);
   }, []);
 
-  // Save the current edit with optimistic updates
-  const saveEdit = useCallback(async () => {
-    if (!editingCell || !isEditValid) return;
-    
-    const { metadata, columnKey, internalColumnId } = getCellData(editingCell);
-    const convertedValue = convertValue(editValue, metadata);
-    
-    // Get the original section name from column metadata
-    const columnMetadata = data.columnMapping.get(internalColumnId);
-    const originalSectionName = columnMetadata?.originalSection;
-    
-    // Store backup for rollback with proper deep copying
-    const backupRows = [...data.rows];
-    const backupData: AdapterOutput = {
-      ...data,
-      rows: backupRows,
+  // Batches cell patches of consecutive edits into a single write
+  const patchBatcher = useMemo(
+    () => createPatchBatcher((patches) => dataSource.updateCells(reportId, patches, versionRef.current)),
+    [dataSource, reportId]
+  );
+
+  // Save several cell values with an optimistic update and a single batched write
+  const saveCellValues = useCallback(async (
+    requestedChanges: CellValueChange[],
+    { recordHistory = true }: HistoryRecordOptions = {}
+  ): Promise<boolean> => {
+    setSaveError(null);
+
+    // Formulas and derived sections reading the changed cells are recalculated
+    // and saved in the same batch, formulas once more for those reading derived cells
+    const changes = withRecalculatedFormulas(
+      data,
+      reportId,
+      withDerivedValues(data, withRecalculatedFormulas(data, reportId, requestedChanges))
+    );
+    // Computed cells are recomputed on load, so storing them is optional
+    const isPersisted = ({ identity, stored }: CellValueChange) =>
+      !stored && (persistDerivedValues || !isReadOnly(identity));
+
+    // Remember the previous values and formulas for rollback
+    const previousValues = changes.map(({ identity }) => {
+      const row = data.rows.find((row) => row[ROW_ID_KEY] === identity.rowId);
+      return row?.[identity.columnId] ?? '';
+    });
+    const previousFormulas = changes.map(({ identity }) => getCellFormula(identity) ?? null);
+
+    // Patches carry the value they were made on so concurrent changes are detected
+    const patchesByChange = changes.map((change, index) => {
+      if (!isPersisted(change)) return [];
+      const { identity, value, baseValue, formula } = change;
+      return buildCellPatches(data, identity.rowId, identity.columnId, value).map((patch) => ({
+        ...patch,
+        baseValue: baseValue ?? previousValues[index],
+        ...(formula !== undefined && { formula }),
+      }));
+    });
+    const patches = patchesByChange.flat();
+    // Stored values are still shown locally even with nothing to write
+    if (patches.length === 0 && !changes.some(({ stored }) => stored)) return true;
+
+    const setCellValues = (
+      rows: AdapterOutput['rows'],
+      getValue: (index: number, current: string | number) => string | number
+    ) => {
+      const newRows = [...rows]; // Create new array reference
+      changes.forEach(({ identity }, index) => {
+        const rowIndex = newRows.findIndex((row) => row[ROW_ID_KEY] === identity.rowId);
+        if (rowIndex === -1) return;
+        newRows[rowIndex] = {
+          ...newRows[rowIndex], // Create new row object
+          [identity.columnId]: getValue(index, newRows[rowIndex][identity.columnId]),
+        };
+      });
+      return newRows;
     };
-    
-    try {
-      setIsSaving(true);
-      setEditError(null);
-      
-      // Optimistic update: Update local state immediately with proper deep copying
-      const newRows = [...data.rows]; // Create new array reference
-      const targetRow = { ...newRows[editingCell.row] }; // Create new row object
-      if (internalColumnId === 'product') {
-        targetRow.product = convertedValue;
-      } else {
-        targetRow[internalColumnId] = convertedValue;
-      }
-      newRows[editingCell.row] = targetRow; // Replace the row in the new array
 
-      const newData: AdapterOutput = {
-        ...data,
-        rows: newRows, // Use the new array with the updated row
-      };
+    const setCellFormulas = (
+      formulas: AdapterOutput['formulas'],
+      getFormula: (index: number) => string | null | undefined
+    ) => {
+      const newFormulas = new Map(formulas);
+      changes.forEach(({ identity }, index) => {
+        const formula = getFormula(index);
+        if (formula === undefined) return;
+        const cellKey = generateCellKey(reportId, identity.rowId, identity.columnId);
+        if (formula === null) {
+          newFormulas.delete(cellKey);
+        } else {
+          newFormulas.set(cellKey, formula);
+        }
+      });
+      return newFormulas;
+    };
 
-      // Update the parent data state optimistically
-      onDataUpdate(newData);
-      
-      console.log("Saving edit:", convertedValue, editingCell.row, columnKey, "in section:", originalSectionName);
-      
-      // Convert AdapterOutput back to SpreadsheetData format for the API
-      const spreadsheetData: ReportData = convertToSpreadsheetData(newData);
-      
-      // Make the API call to update the entire report
-      const response = await updateReportById(REPORT_ID, spreadsheetData);
-      
-      if (response.status !== 200) {
-        throw new Error(response.message || 'Failed to update report');
+    // Optimistic update of the parent data state
+    onDataUpdate((prev) => ({
+      ...prev,
+      rows: setCellValues(prev.rows, (index) => changes[index].value),
+      formulas: setCellFormulas(prev.formulas, (index) => changes[index].formula),
+    }));
+
+    // Computed cells follow the values they are computed from when undone
+    if (recordHistory) {
+      onHistoryRecord?.({
+        values: changes.flatMap(({ identity, value, formula }, index) => isReadOnly(identity) ? [] : [{
+          identity,
+          before: previousValues[index],
+          after: value,
+          ...(formula !== undefined && { formula: { before: previousFormulas[index], after: formula } }),
+        }]),
+      });
+    }
+
+    if (patches.length === 0) return true;
+
+    setIsSaving(true);
+    const response = await patchBatcher.enqueue(patches);
+    setIsSaving(patchBatcher.hasPending());
+
+    // Cells without conflicts were saved, so later saves build on the new version
+    if (response.data) {
+      const { version } = response.data;
+      versionRef.current = Math.max(versionRef.current, version);
+      onDataUpdate((prev) => (prev.version >= version ? prev : { ...prev, version }));
+    }
+
+    if (response.status === 409 && response.data) {
+      const batchConflicts = response.data.conflicts;
+
+      // Keep showing the local value and let the user pick a side
+      setConflicts((prev) => {
+        const next = new Map(prev);
+        changes.forEach(({ identity, value }, index) => {
+          const conflict = batchConflicts.find((conflict) =>
+            patchesByChange[index].some((patch) =>
+              patch.section === conflict.section && patch.rowId === conflict.rowId && patch.key === conflict.key
+            )
+          );
+          if (conflict) {
+            next.set(getConflictKey(identity), { identity, theirValue: conflict.theirValue, yourValue: value });
+          }
+        });
+        return next;
+      });
+      console.warn('Cells changed by someone else:', response.message);
+      return false;
+    }
+
+    if (response.status !== 200) {
+      // Rollback cells that still show the failed value, later edits are kept
+      onDataUpdate((prev) => ({
+        ...prev,
+        rows: setCellValues(prev.rows, (index, current) =>
+          current === changes[index].value ? previousValues[index] : current
+        ),
+        formulas: setCellFormulas(prev.formulas, (index) =>
+          changes[index].formula === undefined ? undefined : previousFormulas[index]
+        ),
+      }));
+      setSaveError(`Your change was undone: ${response.message || 'the cells could not be saved'}.`);
+      console.error('Error saving cells:', response.message);
+      return false;
+    }
+
+    return true;
+  }, [data, reportId, persistDerivedValues, isReadOnly, getCellFormula, onDataUpdate, patchBatcher, onHistoryRecord]);
+
+  // Writes cell changes still waiting in the batch, resolves with the version they were saved as
+  const getSavedVersion = useCallback(async () => {
+    await patchBatcher.settle();
+    return versionRef.current;
+  }, [patchBatcher]);
+
+  // Save text for several cells, e.g. a paste, skipping values that fail validation
+  const saveCellInputs = useCallback(async (inputs: CellInput[]): Promise<boolean> => {
+    const changes: CellValueChange[] = [];
+    let invalidCount = 0;
+
+    for (const { identity, input } of inputs) {
+      const { metadata, rowIndex } = getCellData(identity);
+      if (rowIndex === -1 || isReadOnly(identity)) continue;
+
+      if (!validateValue(input, metadata)) {
+        invalidCount++;
+        continue;
       }
-      
-      console.log("Saved successfully");
-      
-      setEditingCell(null);
-      setEditValue('');
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to save cell';
-      setEditError(errorMessage);
-      
-      // Rollback optimistic update on error
-      onDataUpdate(backupData);
-      
-      console.error('Error saving cell:', err);
-    } finally {
-      setIsSaving(false);
+      changes.push(toValueChange(identity, input, metadata));
+    }
+
+    const saved = saveCellValues(changes);
+    // Set after the save started, which clears the previous error
+    if (invalidCount > 0) {
+      setSaveError(`${invalidCount} invalid ${invalidCount === 1 ? 'value was' : 'values were'} skipped.`);
+      console.warn(`Skipped ${invalidCount} invalid values`);
     }
-  }, [editingCell, isEditValid, editValue, getCellData, convertValue, data, onDataUpdate]);
+    return saved;
+  }, [getCellData, isReadOnly, toValueChange, saveCellValues]);
+
+  // Resolve a conflicting save by keeping the stored value or writing ours over it
+  const resolveConflict = useCallback(async (identity: CellIdentity, keep: 'theirs' | 'mine') => {
+    const conflict = conflicts.get(getConflictKey(identity));
+    if (!conflict) return;
+
+    setConflicts((prev) => {
+      const next = new Map(prev);
+      next.delete(getConflictKey(identity));
+      return next;
+    });
+
+    if (keep === 'mine') {
+      // Based on their value, so this save replaces it instead of conflicting again
+      await saveCellValues([{ identity, value: conflict.yourValue, baseValue: conflict.theirValue }]);
+      return;
+    }
+
+    // Their value is already stored, formulas, derived cells and the Total row
+    // computed from ours are recomputed from it and saved
+    await saveCellValues(
+      [{ identity, value: conflict.theirValue, formula: null, stored: true }],
+      { recordHistory: false }
+    );
+  }, [conflicts, saveCellValues]);
+
+  // Conflict waiting to be resolved on the cell at a display position
+  const getCellConflict = useCallback((position: CellPosition): EditConflict | null => {
+    const identity = resolveCell(position);
+    return identity ? conflicts.get(getConflictKey(identity)) ?? null : null;
+  }, [conflicts, resolveCell]);
+
+  // Save the current edit, the write itself happens in the background
+  const saveEdit = useCallback(async () => {
+    if (!editingCellIds || !isEditValid) return;
+    
+    const { metadata, columnKey, rowIndex } = getCellData(editingCellIds);
+    if (rowIndex === -1) return;
+    const change = toValueChange(editingCellIds, editValue, metadata);
+
+    console.log("Saving edit:", change.formula ?? change.value, editingCellIds.rowId, columnKey);
+
+    setEditError(null);
+    const pendingSave = saveCellValues([change]);
+
+    // Close the editor right away so further edits can join the same batch
+    setEditingCellIds(null);
+    setEditValue('');
+
+    await pendingSave;
+  }, [editingCellIds, isEditValid, editValue, getCellData, toValueChange, saveCellValues]);
 
   // Update edit value with validation
   const updateEditValue = useCallback((value: string) => {
     setEditValue(value);
     
-    if (editingCell) {
-      const { metadata } = getCellData(editingCell);
+    if (editingCellIds) {
+      const { metadata } = getCellData(editingCellIds);
       const valid = validateValue(value, metadata);
       setIsEditValid(valid);
       
@@ -259,7 +449,9 @@ export const useEditData = ({ data, onDataUpdate }: UseEditDataProps): UseEditDa
         setEditError(null);
       }
     }
-  }, [editingCell, getCellData, validateValue]);
+  }, [editingCellIds, getCellData, validateValue]);
+
+  const clearSaveError = useCallback(() => setSaveError(null), []);
 
   // Check if a specific cell is being edited
   const isCellEditing = useCallback((position: CellPosition): boolean => {
@@ -273,11 +465,19 @@ export const useEditData = ({ data, onDataUpdate }: UseEditDataProps): UseEditDa
     editValue,
     isEditValid,
     editError,
+    saveError,
     isSaving,
     startEdit,
     cancelEdit,
     saveEdit,
+    saveCellValues,
+    saveCellInputs,
+    getSavedVersion,
+    clearSaveError,
     updateEditValue,
     isCellEditing,
+    isCellReadOnly,
+    getCellConflict,
+    resolveConflict,
   };
 }; 
\ No newline at end of file
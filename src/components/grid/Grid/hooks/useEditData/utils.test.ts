@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildCellPatches, createPatchBatcher, withDerivedValues, withRecalculatedFormulas } from './utils';
+import { createAPIResponse } from '@/api/utils';
+import type { AdapterOutput, ColumnMetadata } from '@/components/grid/Grid/hooks/useReportData/utils';
+import { FORMULA_ERRORS } from '@/components/grid/utils/formulas';
+
+const createColumn = (id: string, originalKey: string, originalSection: string): ColumnMetadata => ({
+  id,
+  name: originalKey,
+  originalKey,
+  originalSection,
+  section: originalSection,
+  type: 'currency',
+});
+
+const adapterOutput = {
+  columnMapping: new Map([
+    ['product', createColumn('product', 'product', 'Values')],
+    ['values_2020', createColumn('values_2020', '2020', 'Values')],
+    ['yoy_growth_2021', createColumn('yoy_growth_2021', '2021', 'YoY Growth')],
+  ]),
+} as AdapterOutput;
+
+describe('buildCellPatches', () => {
+  it('should patch the original section and key of a data column', () => {
+    expect(buildCellPatches(adapterOutput, 'row-1', 'values_2020', 150)).toEqual([
+      { section: 'Values', rowId: 'row-1', key: '2020', value: 150 },
+    ]);
+  });
+
+  it('should patch the product name in every section', () => {
+    expect(buildCellPatches(adapterOutput, 'row-1', 'product', 'Renamed')).toEqual([
+      { section: 'Values', rowId: 'row-1', key: 'product', value: 'Renamed' },
+      { section: 'YoY Growth', rowId: 'row-1', key: 'product', value: 'Renamed' },
+    ]);
+  });
+
+  it('should return no patches for unknown columns', () => {
+    expect(buildCellPatches(adapterOutput, 'row-1', 'missing', 1)).toEqual([]);
+  });
+});
+
+describe('withRecalculatedFormulas', () => {
+  // Columns A, B, C; C1 = B1 * 2, C2 = SUM(C1) / B2
+  const sheet: AdapterOutput = {
+    ...adapterOutput,
+    rows: [
+      { rowId: 'row-0', product: 'Product A', values_2020: 10, values_2021: 20 },
+      { rowId: 'row-1', product: 'Product B', values_2020: 1, values_2021: 20 },
+    ],
+    columnOrder: ['product', 'values_2020', 'values_2021'],
+    formulas: new Map([
+      ['r1:row-0:values_2021', '=B1*2'],
+      ['r1:row-1:values_2021', '=SUM(C1)/B2'],
+    ]),
+  };
+
+  it('should add the dependents of a changed cell', () => {
+    const changes = withRecalculatedFormulas(sheet, 'r1', [
+      { identity: { rowId: 'row-0', columnId: 'values_2020' }, value: 15 },
+    ]);
+
+    expect(changes).toEqual([
+      { identity: { rowId: 'row-0', columnId: 'values_2020' }, value: 15 },
+      { identity: { rowId: 'row-0', columnId: 'values_2021' }, value: 30 },
+      { identity: { rowId: 'row-1', columnId: 'values_2021' }, value: 30 },
+    ]);
+  });
+
+  it('should evaluate new formulas and drop removed ones', () => {
+    const changes = withRecalculatedFormulas(sheet, 'r1', [
+      { identity: { rowId: 'row-1', columnId: 'values_2020' }, value: '', formula: '=1-1' },
+      { identity: { rowId: 'row-0', columnId: 'values_2021' }, value: 7, formula: null },
+    ]);
+
+    expect(changes).toEqual([
+      { identity: { rowId: 'row-1', columnId: 'values_2020' }, value: 0, formula: '=1-1' },
+      { identity: { rowId: 'row-0', columnId: 'values_2021' }, value: 7, formula: null },
+      { identity: { rowId: 'row-1', columnId: 'values_2021' }, value: FORMULA_ERRORS.divisionByZero },
+    ]);
+  });
+
+  it('should leave changes alone when no formulas are involved', () => {
+    const changes = [{ identity: { rowId: 'row-0', columnId: 'product' }, value: 'Renamed' }];
+    expect(withRecalculatedFormulas({ ...sheet, formulas: new Map() }, 'r1', changes)).toBe(changes);
+  });
+});
+
+describe('withDerivedValues', () => {
+  const growthColumn: ColumnMetadata = {
+    ...createColumn('yoy_growth_2021', '2021', 'YoY Growth'),
+    type: 'growth',
+    derivedFrom: 'values_2021',
+  };
+  const sheet: AdapterOutput = {
+    ...adapterOutput,
+    rows: [{ rowId: 'row-0', product: 'Product A', values_2020: 100, values_2021: 110, yoy_growth_2021: 10 }],
+    columnOrder: ['product', 'values_2020', 'values_2021', 'yoy_growth_2021'],
+    columnMapping: new Map([
+      ['values_2020', createColumn('values_2020', '2020', 'Values')],
+      ['values_2021', createColumn('values_2021', '2021', 'Values')],
+      ['yoy_growth_2021', growthColumn],
+    ]),
+    sections: [
+      {
+        name: 'Values',
+        type: 'currency',
+        columns: [createColumn('values_2020', '2020', 'Values'), createColumn('values_2021', '2021', 'Values')],
+      },
+      { name: 'YoY Growth', type: 'growth', columns: [growthColumn] },
+    ],
+  };
+
+  it('should add derived cells affected by a value change', () => {
+    expect(withDerivedValues(sheet, [
+      { identity: { rowId: 'row-0', columnId: 'values_2021' }, value: 150 },
+    ])).toEqual([
+      { identity: { rowId: 'row-0', columnId: 'values_2021' }, value: 150 },
+      { identity: { rowId: 'row-0', columnId: 'yoy_growth_2021' }, value: 50 },
+    ]);
+  });
+
+  it('should update the Total row when a product value changes', () => {
+    const withTotal: AdapterOutput = {
+      ...sheet,
+      rows: [
+        ...sheet.rows,
+        { rowId: 'row-1', product: 'Total', values_2020: 100, values_2021: 110, yoy_growth_2021: 10 },
+      ],
+    };
+
+    expect(withDerivedValues(withTotal, [
+      { identity: { rowId: 'row-0', columnId: 'values_2020' }, value: 50 },
+    ])).toEqual([
+      { identity: { rowId: 'row-0', columnId: 'values_2020' }, value: 50 },
+      { identity: { rowId: 'row-0', columnId: 'yoy_growth_2021' }, value: 120 },
+      { identity: { rowId: 'row-1', columnId: 'values_2020' }, value: 50 },
+      { identity: { rowId: 'row-1', columnId: 'yoy_growth_2021' }, value: 120 },
+    ]);
+  });
+
+  it('should replace values written to derived cells with the computed value', () => {
+    expect(withDerivedValues(sheet, [
+      { identity: { rowId: 'row-0', columnId: 'yoy_growth_2021' }, value: 99 },
+    ])).toEqual([
+      { identity: { rowId: 'row-0', columnId: 'yoy_growth_2021' }, value: 10 },
+    ]);
+  });
+});
+
+describe('createPatchBatcher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send patches queued together in one write', async () => {
+    const write = vi.fn(() => Promise.resolve(createAPIResponse({ version: 1, conflicts: [] })));
+    const batcher = createPatchBatcher(write, 100);
+
+    const first = batcher.enqueue([{ section: 'Values', rowId: 'row-0', key: '2020', value: 1 }]);
+    const second = batcher.enqueue([{ section: 'Values', rowId: 'row-1', key: '2020', value: 2 }]);
+    expect(batcher.hasPending()).toBe(true);
+
+    await vi.runAllTimersAsync();
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write).toHaveBeenCalledWith([
+      { section: 'Values', rowId: 'row-0', key: '2020', value: 1 },
+      { section: 'Values', rowId: 'row-1', key: '2020', value: 2 },
+    ]);
+    expect((await first).status).toBe(200);
+    expect((await second).status).toBe(200);
+    expect(batcher.hasPending()).toBe(false);
+  });
+
+  it('should keep only the latest value of a cell', async () => {
+    const write = vi.fn(() => Promise.resolve(createAPIResponse({ version: 1, conflicts: [] })));
+    const batcher = createPatchBatcher(write, 100);
+
+    void batcher.enqueue([{ section: 'Values', rowId: 'row-0', key: '2020', value: 1, baseValue: 0 }]);
+    void batcher.enqueue([{ section: 'Values', rowId: 'row-0', key: '2020', value: 5, baseValue: 1 }]);
+    await vi.runAllTimersAsync();
+
+    expect(write).toHaveBeenCalledWith([
+      { section: 'Values', rowId: 'row-0', key: '2020', value: 5, baseValue: 0 },
+    ]);
+  });
+
+  it('should keep a queued formula when the cell is recalculated', async () => {
+    const write = vi.fn(() => Promise.resolve(createAPIResponse({ version: 1, conflicts: [] })));
+    const batcher = createPatchBatcher(write, 100);
+
+    void batcher.enqueue([{ section: 'Values', rowId: 'row-0', key: '2020', value: 2, formula: '=B2*2' }]);
+    void batcher.enqueue([{ section: 'Values', rowId: 'row-0', key: '2020', value: 4 }]);
+    await vi.runAllTimersAsync();
+
+    expect(write).toHaveBeenCalledWith([
+      { section: 'Values', rowId: 'row-0', key: '2020', value: 4, formula: '=B2*2' },
+    ]);
+  });
+
+  it('should report a failed write to every waiting caller', async () => {
+    const write = vi.fn(() => Promise.reject(new Error('offline')));
+    const batcher = createPatchBatcher(write, 100);
+
+    const pending = batcher.enqueue([{ section: 'Values', rowId: 'row-0', key: '2020', value: 1 }]);
+    await vi.runAllTimersAsync();
+
+    const response = await pending;
+    expect(response.status).toBe(500);
+    expect(response.message).toBe('offline');
+  });
+
+  it('should write queued patches right away when settled', async () => {
+    const write = vi.fn(() => Promise.resolve(createAPIResponse({ version: 2, conflicts: [] })));
+    const batcher = createPatchBatcher(write, 100);
+
+    const pending = batcher.enqueue([{ section: 'Values', rowId: 'row-0', key: '2020', value: 1 }]);
+    await batcher.settle();
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(batcher.hasPending()).toBe(false);
+    expect((await pending).data?.version).toBe(2);
+  });
+});
@@ -0,0 +1,286 @@
+import { createAPIResponse } from '@/api/utils';
+import { inferSectionType, type AdapterOutput, type ColumnMetadata } from '@/components/grid/Grid/hooks/useReportData/utils';
+import type { CellsUpdateResult } from '@/api/dataSources/types';
+import type { CellPatch, ReportColumn, ReportData, ReportItem, ReportSection } from '@/components/grid/types/common';
+import type { APIResponse } from '@/types/api';
+import { ROW_ID_KEY, generateCellKey } from '@/lib/cellKeys';
+import { recalculateFormulas, type FormulaCell } from '@/components/grid/utils/formulas';
+import { computeDerivedValues } from '@/components/grid/utils/derivedSections';
+import type { CellValueChange } from './types';
+
+/**
+ * Convert AdapterOutput back to SpreadsheetData format
+ * Every section repeats the product column, and keeps its formulas and Total row aggregate.
+ */
+export const convertToSpreadsheetData = (adapterOutput: AdapterOutput, reportId: string): ReportData => {
+  const spreadsheetData: ReportData = {};
+  const productColumn = adapterOutput.columnMapping.get('product');
+  
+  // Group columns by original section
+  const sectionColumns = new Map<string, ColumnMetadata[]>();
+  
+  // Process columns from mapping
+  adapterOutput.columnMapping.forEach((columnMeta) => {
+    if (columnMeta.id === 'product') return;
+    const { originalSection } = columnMeta;
+    
+    if (!sectionColumns.has(originalSection)) {
+      sectionColumns.set(originalSection, []);
+    }
+    sectionColumns.get(originalSection)!.push(columnMeta);
+  });
+  
+  // Create sections with their data
+  sectionColumns.forEach((columns, sectionName) => {
+    // Product columns are shared by all sections and have no persistent ID
+    const reportColumns: ReportColumn[] = [
+      ...(productColumn ? [{ key: productColumn.originalKey, name: productColumn.name }] : []),
+      ...columns.map(({ originalKey, name, id }) => ({ key: originalKey, name, id })),
+    ];
+    const sectionItems: ReportItem[] = [];
+    const sectionFormulas: NonNullable<ReportSection['formulas']> = {};
+    
+    // Transform each row for this section
+    adapterOutput.rows.forEach((row) => {
+      const rowId = String(row[ROW_ID_KEY]);
+      const sectionItem: ReportItem = { [ROW_ID_KEY]: row[ROW_ID_KEY] };
+      if (productColumn) {
+        sectionItem[productColumn.originalKey] = row.product;
+      }
+      
+      // Add data for each column in this section
+      columns.forEach(({ id, originalKey }) => {
+        sectionItem[originalKey] = row[id] ?? '';
+
+        const formula = adapterOutput.formulas.get(generateCellKey(reportId, rowId, id));
+        if (formula !== undefined) {
+          sectionFormulas[rowId] = { ...sectionFormulas[rowId], [originalKey]: formula };
+        }
+      });
+      
+      sectionItems.push(sectionItem);
+    });
+    
+    const section = adapterOutput.sections.find(({ name }) => name === sectionName);
+    const totalAggregate = section?.totalAggregate;
+    spreadsheetData[sectionName] = {
+      columns: reportColumns,
+      items: sectionItems,
+      ...(section && section.type !== inferSectionType(sectionName) && { type: section.type }),
+      ...(totalAggregate && { totalAggregate }),
+      ...(Object.keys(sectionFormulas).length > 0 && { formulas: sectionFormulas }),
+    };
+  });
+  
+  return spreadsheetData;
+};
+
+/**
+ * Builds the patches that store a new value for one cell
+ * The product name is repeated in the items of every section, so a product
+ * edit produces one patch per section.
+ */
+export const buildCellPatches = (
+  adapterOutput: AdapterOutput,
+  rowId: string,
+  columnId: string,
+  value: string | number
+): CellPatch[] => {
+  const columnMeta = adapterOutput.columnMapping.get(columnId);
+  if (!columnMeta) return [];
+
+  if (columnId === 'product') {
+    const sectionNames = new Set(
+      Array.from(adapterOutput.columnMapping.values(), (meta) => meta.originalSection)
+    );
+    return Array.from(sectionNames, (section) => ({
+      section,
+      rowId,
+      key: columnMeta.originalKey,
+      value,
+    }));
+  }
+
+  return [{ section: columnMeta.originalSection, rowId, key: columnMeta.originalKey, value }];
+};
+
+/**
+ * Completes value changes with their effect on formulas
+ * Changed cells holding a formula get its result as value, and every formula
+ * depending on a changed cell is added as a change with its new result.
+ * Formulas refer to cells by their position in the stored row order and the
+ * column order, see formulas.ts.
+ */
+export const withRecalculatedFormulas = (
+  adapterOutput: AdapterOutput,
+  reportId: string,
+  changes: CellValueChange[]
+): CellValueChange[] => {
+  const { rows, columnOrder, formulas } = adapterOutput;
+  const getIdentity = ({ row, column }: FormulaCell) => ({
+    rowId: String(rows[row][ROW_ID_KEY]),
+    columnId: columnOrder[column],
+  });
+  const getKey = (cell: FormulaCell) => {
+    const { rowId, columnId } = getIdentity(cell);
+    return generateCellKey(reportId, rowId, columnId);
+  };
+
+  const changesByKey = new Map(changes.map((change) => [
+    generateCellKey(reportId, change.identity.rowId, change.identity.columnId),
+    change,
+  ]));
+  const hasFormula = changes.some(({ formula }) => formula !== undefined && formula !== null);
+  if (formulas.size === 0 && !hasFormula) return changes;
+
+  const rowIndexById = new Map(rows.map((row, index) => [String(row[ROW_ID_KEY]), index]));
+  const changedCells = changes.flatMap(({ identity }): FormulaCell[] => {
+    const row = rowIndexById.get(identity.rowId);
+    const column = columnOrder.indexOf(identity.columnId);
+    return row === undefined || column === -1 ? [] : [{ row, column }];
+  });
+
+  const results = recalculateFormulas({
+    rowCount: rows.length,
+    columnCount: columnOrder.length,
+    getValue: (cell) => {
+      const change = changesByKey.get(getKey(cell));
+      return change ? change.value : rows[cell.row][columnOrder[cell.column]] ?? '';
+    },
+    getFormula: (cell) => {
+      const key = getKey(cell);
+      const formula = changesByKey.get(key)?.formula;
+      return formula === undefined ? formulas.get(key) : formula ?? undefined;
+    },
+  }, changedCells);
+
+  const resultsByKey = new Map(results.map((result) => [getKey(result), result]));
+  const recalculated = changes.map((change) => {
+    const key = generateCellKey(reportId, change.identity.rowId, change.identity.columnId);
+    const result = resultsByKey.get(key);
+    return result ? { ...change, value: result.value } : change;
+  });
+  const dependents = results
+    .filter((result) => !changesByKey.has(getKey(result)))
+    .filter((result) => rows[result.row][columnOrder[result.column]] !== result.value)
+    .map((result) => ({ identity: getIdentity(result), value: result.value }));
+
+  return [...recalculated, ...dependents];
+};
+
+/**
+ * Completes value changes with the Total row and derived cells they affect
+ * Changes to computed cells themselves are replaced by the computed value.
+ */
+export const withDerivedValues = (
+  adapterOutput: AdapterOutput,
+  changes: CellValueChange[]
+): CellValueChange[] => {
+  const { rows, sections, columnOrder } = adapterOutput;
+
+  const changedValuesByRow = new Map<string, Record<string, string | number>>();
+  for (const { identity, value } of changes) {
+    changedValuesByRow.set(identity.rowId, {
+      ...changedValuesByRow.get(identity.rowId),
+      [identity.columnId]: value,
+    });
+  }
+  const changedRows = rows.map((row) => {
+    const changedValues = changedValuesByRow.get(String(row[ROW_ID_KEY]));
+    return changedValues ? { ...row, ...changedValues } : row;
+  });
+  const derivedRows = computeDerivedValues(changedRows, sections);
+  if (derivedRows === changedRows) return changes;
+
+  const derivedRowsById = new Map(derivedRows.map((row) => [String(row[ROW_ID_KEY]), row]));
+  const recomputed = changes.map((change) => {
+    const value = derivedRowsById.get(change.identity.rowId)?.[change.identity.columnId];
+    return value === undefined || value === change.value ? change : { ...change, value };
+  });
+
+  const changedKeys = new Set(changes.map(({ identity }) => `${identity.rowId}\u0000${identity.columnId}`));
+  const derived = derivedRows.flatMap((row, index) => {
+    // Rows without computed changes only carry the requested changes
+    if (row === changedRows[index]) return [];
+    const rowId = String(row[ROW_ID_KEY]);
+    return columnOrder
+      .filter((columnId) => row[columnId] !== rows[index][columnId] && !changedKeys.has(`${rowId}\u0000${columnId}`))
+      .map((columnId) => ({ identity: { rowId, columnId }, value: row[columnId] }));
+  });
+
+  return [...recomputed, ...derived];
+};
+
+export interface PatchBatcher {
+  // Queues patches for the next write, resolves with the result of that write
+  enqueue: (patches: CellPatch[]) => Promise<APIResponse<CellsUpdateResult | null>>;
+  // Whether patches are waiting or being written
+  hasPending: () => boolean;
+  // Writes the queued patches right away, resolves once every write is done
+  settle: () => Promise<void>;
+}
+
+/**
+ * Collects cell patches and sends them to the backend in batches
+ * Patches queued within `delay` ms go out in a single write, later patches
+ * to the same cell replace earlier ones while keeping the first base value
+ * and any queued formula,
+ * and writes are sent one after another
+ * so they reach the backend in the order they were made.
+ */
+export const createPatchBatcher = (
+  write: (patches: CellPatch[]) => Promise<APIResponse<CellsUpdateResult | null>>,
+  delay = 100
+): PatchBatcher => {
+  let queued = new Map<string, CellPatch>();
+  let waiters: Array<(response: APIResponse<CellsUpdateResult | null>) => void> = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writesInProgress = 0;
+  let lastWrite: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    timer = null;
+    const patches = Array.from(queued.values());
+    const batchWaiters = waiters;
+    queued = new Map();
+    waiters = [];
+    writesInProgress++;
+
+    lastWrite = lastWrite
+      .then(() => write(patches))
+      .catch((error: unknown) =>
+        createAPIResponse(null, 500, error instanceof Error ? error.message : 'Failed to save cells')
+      )
+      .then((response) => {
+        writesInProgress--;
+        batchWaiters.forEach((resolve) => resolve(response));
+      });
+  };
+
+  return {
+    enqueue: (patches) => {
+      for (const patch of patches) {
+        const cellId = `${patch.section}\u0000${patch.rowId}\u0000${patch.key}`;
+        // The stored value is still the one the first queued change was made on
+        const queuedPatch = queued.get(cellId);
+        const baseValue = queuedPatch ? queuedPatch.baseValue : patch.baseValue;
+        // A recalculated result doesn't drop a formula queued for the same cell
+        const formula = patch.formula !== undefined ? patch.formula : queuedPatch?.formula;
+        queued.set(cellId, { ...patch, baseValue, ...(formula !== undefined && { formula }) });
+      }
+      timer ??= setTimeout(flush, delay);
+
+      return new Promise((resolve) => {
+        waiters.push(resolve);
+      });
+    },
+    hasPending: () => queued.size > 0 || writesInProgress > 0,
+    settle: () => {
+      if (timer) {
+        clearTimeout(timer);
+        flush();
+      }
+      return lastWrite;
+    },
+  };
+};
@@ -0,0 +1,39 @@
+import type { CellIdentity, CellPosition } from "@/components/grid/types/common";
+import type { FormulaCell } from "@/components/grid/utils/formulas";
+import type { UseSelectionReturn } from "../useSelection/types";
+import type { CellInput } from "../useEditData/types";
+
+export interface UseFillProps {
+    selectionHook: UseSelectionReturn;
+    // Text a displayed cell is edited with, its formula or raw value
+    getEditText: (position: CellPosition) => string;
+    resolveCell: (position: CellPosition) => CellIdentity | null;
+    // Position of a displayed cell in the stored order formulas refer to
+    getFormulaCell: (position: CellPosition) => FormulaCell | null;
+    saveCellInputs: (inputs: CellInput[]) => Promise<boolean>;
+}
+
+// Direction a fill extends the source cells in
+export type FillDirection = "up" | "down" | "left" | "right";
+
+// Source cells of one column or row and the cells filled from them, both in fill order
+export interface FillLine {
+    sources: CellPosition[];
+    targets: CellPosition[];
+}
+
+export interface UseFillReturn {
+    // Bottom right cell of the selection, where the fill handle is drawn
+    handleCell: CellPosition | null;
+    isFilling: boolean;
+    // Whether the dragged fill handle covers a cell beyond the selection
+    isCellInFillRange: (position: CellPosition) => boolean;
+    startFill: () => void;
+    updateFill: (position: CellPosition) => void;
+    // Fills the covered cells, ends on mouse up anywhere
+    endFill: () => Promise<void>;
+    cancelFill: () => void;
+    // Ctrl+D and Ctrl+R: copy the first row or column of the selection over the rest,
+    // or the row above or column left of a single row or column
+    fillSelection: (direction: "down" | "right") => Promise<void>;
+}
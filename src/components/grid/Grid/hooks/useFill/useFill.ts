@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { CellPosition, CellRange } from '@/components/grid/types/common';
+import { shiftFormulaReferences } from '@/components/grid/utils/formulas';
+import { fillLineValues, getFillLines, getFillTarget, getSelectedRange } from './utils';
+import type { FillDirection, FillLine, UseFillProps, UseFillReturn } from './types';
+
+/**
+ * useFill - Fill handle drag and the Ctrl+D/Ctrl+R fill commands
+ * Filled text goes through the same validation as typing it and is saved as
+ * one batched write, so a fill is undone in one step.
+ */
+export const useFill = ({
+  selectionHook,
+  getEditText,
+  resolveCell,
+  getFormulaCell,
+  saveCellInputs,
+}: UseFillProps): UseFillReturn => {
+  // Selection the fill handle was dragged from and the cells it covers
+  const [source, setSource] = useState<CellRange | null>(null);
+  const [target, setTarget] = useState<{ range: CellRange; direction: FillDirection } | null>(null);
+
+  const { selectionState, selectRange } = selectionHook;
+  const selectedRange = useMemo(() => getSelectedRange(selectionState), [selectionState]);
+
+  // Saves the values filled into every line as one batch, cells that keep their text are skipped
+  const fillLines = useCallback(async (lines: FillLine[]) => {
+    const inputs = lines.flatMap(({ sources, targets }) => {
+      // Formulas move their references by the distance between the cells in the stored order
+      const shiftFormula = (formula: string, sourceIndex: number, targetIndex: number) => {
+        const from = getFormulaCell(sources[sourceIndex]);
+        const to = getFormulaCell(targets[targetIndex]);
+        return from && to ? shiftFormulaReferences(formula, to.row - from.row, to.column - from.column) : formula;
+      };
+      const values = fillLineValues(sources.map(getEditText), targets.length, shiftFormula);
+
+      return targets.flatMap((position, index) => {
+        const identity = resolveCell(position);
+        return identity && values[index] !== getEditText(position) ? [{ identity, input: values[index] }] : [];
+      });
+    });
+
+    if (inputs.length > 0) {
+      await saveCellInputs(inputs);
+    }
+  }, [getEditText, resolveCell, getFormulaCell, saveCellInputs]);
+
+  const startFill = useCallback(() => {
+    setSource(selectedRange);
+    setTarget(null);
+  }, [selectedRange]);
+
+  const updateFill = useCallback((position: CellPosition) => {
+    if (source) setTarget(getFillTarget(source, position));
+  }, [source]);
+
+  const cancelFill = useCallback(() => {
+    setSource(null);
+    setTarget(null);
+  }, []);
+
+  const endFill = useCallback(async () => {
+    cancelFill();
+    if (!source || !target) return;
+
+    // The source and filled cells stay selected together
+    const { range, direction } = target;
+    selectRange(
+      { row: Math.min(source.start.row, range.start.row), column: Math.min(source.start.column, range.start.column) },
+      { row: Math.max(source.end.row, range.end.row), column: Math.max(source.end.column, range.end.column) }
+    );
+    await fillLines(getFillLines(source, range, direction));
+  }, [source, target, cancelFill, selectRange, fillLines]);
+
+  // Releasing the mouse anywhere ends the fill, Escape cancels it
+  useEffect(() => {
+    if (!source) return;
+
+    const handleMouseUp = () => void endFill();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') cancelFill();
+    };
+    document.addEventListener('mouseup', handleMouseUp);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mouseup', handleMouseUp);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [source, endFill, cancelFill]);
+
+  const fillSelection = useCallback(async (direction: 'down' | 'right') => {
+    if (!selectedRange) return;
+    const { start, end } = selectedRange;
+
+    let from: CellRange;
+    let to: CellRange;
+    if (direction === 'down') {
+      // A single row is filled from the row above it
+      if (start.row === end.row && start.row === 0) return;
+      const sourceRow = start.row === end.row ? start.row - 1 : start.row;
+      from = { start: { row: sourceRow, column: start.column }, end: { row: sourceRow, column: end.column } };
+      to = { start: { row: sourceRow + 1, column: start.column }, end };
+    } else {
+      // A single column is filled from the column left of it
+      if (start.column === end.column && start.column === 0) return;
+      const sourceColumn = start.column === end.column ? start.column - 1 : start.column;
+      from = { start: { row: start.row, column: sourceColumn }, end: { row: end.row, column: sourceColumn } };
+      to = { start: { row: start.row, column: sourceColumn + 1 }, end };
+    }
+
+    await fillLines(getFillLines(from, to, direction));
+  }, [selectedRange, fillLines]);
+
+  const isCellInFillRange = useCallback((position: CellPosition) => {
+    if (!target) return false;
+    const { start, end } = target.range;
+    return position.row >= start.row && position.row <= end.row && position.column >= start.column && position.column <= end.column;
+  }, [target]);
+
+  return {
+    handleCell: selectedRange?.end ?? null,
+    isFilling: source !== null,
+    isCellInFillRange,
+    startFill,
+    updateFill,
+    endFill,
+    cancelFill,
+    fillSelection,
+  };
+};
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { extendSeries, fillLineValues, getFillLines, getFillTarget, getSelectedRange } from './utils';
+import type { CellRange } from '@/components/grid/types/common';
+
+const source: CellRange = { start: { row: 1, column: 1 }, end: { row: 2, column: 2 } };
+
+describe('getSelectedRange', () => {
+  it('should order the corners of a range dragged up and left', () => {
+    const range = getSelectedRange({
+      selectedCells: { type: 'range', range: { start: { row: 3, column: 2 }, end: { row: 1, column: 0 } } },
+      isSelecting: false,
+      selectionStart: null,
+      activeCell: null,
+    });
+
+    expect(range).toEqual({ start: { row: 1, column: 0 }, end: { row: 3, column: 2 } });
+  });
+});
+
+describe('getFillTarget', () => {
+  it('should cover the cells between the source and the pointer', () => {
+    expect(getFillTarget(source, { row: 4, column: 2 })).toEqual({
+      direction: 'down',
+      range: { start: { row: 3, column: 1 }, end: { row: 4, column: 2 } },
+    });
+    expect(getFillTarget(source, { row: 1, column: 0 })).toEqual({
+      direction: 'left',
+      range: { start: { row: 1, column: 0 }, end: { row: 2, column: 0 } },
+    });
+  });
+
+  it('should follow the axis the pointer moved furthest along', () => {
+    expect(getFillTarget(source, { row: 3, column: 5 })?.direction).toBe('right');
+    expect(getFillTarget(source, { row: 0, column: 2 })?.direction).toBe('up');
+  });
+
+  it('should not fill while the pointer is inside the source', () => {
+    expect(getFillTarget(source, { row: 2, column: 1 })).toBeNull();
+  });
+});
+
+describe('getFillLines', () => {
+  it('should split a fill down into columns', () => {
+    const lines = getFillLines(source, { start: { row: 3, column: 1 }, end: { row: 3, column: 2 } }, 'down');
+
+    expect(lines).toEqual([
+      { sources: [{ row: 1, column: 1 }, { row: 2, column: 1 }], targets: [{ row: 3, column: 1 }] },
+      { sources: [{ row: 1, column: 2 }, { row: 2, column: 2 }], targets: [{ row: 3, column: 2 }] },
+    ]);
+  });
+
+  it('should order a fill left from the source outwards', () => {
+    const lines = getFillLines(source, { start: { row: 1, column: 0 }, end: { row: 2, column: 0 } }, 'left');
+
+    expect(lines[0]).toEqual({
+      sources: [{ row: 1, column: 2 }, { row: 1, column: 1 }],
+      targets: [{ row: 1, column: 0 }],
+    });
+  });
+});
+
+describe('extendSeries', () => {
+  it('should continue years and constant growth steps', () => {
+    expect(extendSeries(['2023', '2024'], 3)).toEqual(['2025', '2026', '2027']);
+    expect(extendSeries(['100', '150', '200'], 2)).toEqual(['250', '300']);
+    expect(extendSeries(['0.1', '0.2'], 2)).toEqual(['0.3', '0.4']);
+  });
+
+  it('should count down when filled backwards', () => {
+    expect(extendSeries(['2024', '2023'], 2)).toEqual(['2022', '2021']);
+  });
+
+  it('should continue text ending in a number', () => {
+    expect(extendSeries(['Product 1', 'Product 2'], 2)).toEqual(['Product 3', 'Product 4']);
+  });
+
+  it('should copy a single cell, text and uneven steps', () => {
+    expect(extendSeries(['2024'], 2)).toEqual(['2024', '2024']);
+    expect(extendSeries(['North', 'South'], 3)).toEqual(['North', 'South', 'North']);
+    expect(extendSeries(['1', '2', '4'], 3)).toEqual(['1', '2', '4']);
+  });
+});
+
+describe('fillLineValues', () => {
+  it('should repeat formulas with their references moved', () => {
+    const values = fillLineValues(['=B1*2', 'Note'], 3, (formula, sourceIndex, targetIndex) =>
+      `${formula}@${sourceIndex}>${targetIndex}`
+    );
+
+    expect(values).toEqual(['=B1*2@0>0', 'Note', '=B1*2@0>2']);
+  });
+
+  it('should extend lines without formulas as a series', () => {
+    expect(fillLineValues(['1', '2'], 2, (formula) => formula)).toEqual(['3', '4']);
+  });
+});
@@ -0,0 +1,155 @@
+import type { CellPosition, CellRange, SelectionState } from '@/components/grid/types/common';
+import { isFormula } from '@/components/grid/utils/formulas';
+import type { FillDirection, FillLine } from './types';
+
+/**
+ * Selected block of cells with start at the top left, null unless one cell or one range is selected
+ */
+export const getSelectedRange = (selectionState: SelectionState): CellRange | null => {
+  const selectedCells = selectionState.selectedCells;
+  if (selectedCells?.type === 'single' && selectedCells.single) {
+    return { start: selectedCells.single, end: selectedCells.single };
+  }
+  if (selectedCells?.type === 'range' && selectedCells.range) {
+    const { start, end } = selectedCells.range;
+    return {
+      start: { row: Math.min(start.row, end.row), column: Math.min(start.column, end.column) },
+      end: { row: Math.max(start.row, end.row), column: Math.max(start.column, end.column) },
+    };
+  }
+  return null;
+};
+
+/**
+ * Cells the fill handle covers when dragged from the source range to the pointer
+ * The fill goes along the axis the pointer moved furthest out of the source,
+ * null while the pointer is inside the source.
+ */
+export const getFillTarget = (
+  source: CellRange,
+  pointer: CellPosition
+): { range: CellRange; direction: FillDirection } | null => {
+  const rowDistance = Math.max(pointer.row - source.end.row, source.start.row - pointer.row, 0);
+  const columnDistance = Math.max(pointer.column - source.end.column, source.start.column - pointer.column, 0);
+  if (rowDistance === 0 && columnDistance === 0) return null;
+
+  if (rowDistance >= columnDistance) {
+    return pointer.row > source.end.row
+      ? {
+          direction: 'down',
+          range: { start: { row: source.end.row + 1, column: source.start.column }, end: { row: pointer.row, column: source.end.column } },
+        }
+      : {
+          direction: 'up',
+          range: { start: { row: pointer.row, column: source.start.column }, end: { row: source.start.row - 1, column: source.end.column } },
+        };
+  }
+  return pointer.column > source.end.column
+    ? {
+        direction: 'right',
+        range: { start: { row: source.start.row, column: source.end.column + 1 }, end: { row: source.end.row, column: pointer.column } },
+      }
+    : {
+        direction: 'left',
+        range: { start: { row: source.start.row, column: pointer.column }, end: { row: source.end.row, column: source.start.column - 1 } },
+      };
+};
+
+const range = (from: number, to: number): number[] =>
+  Array.from({ length: Math.abs(to - from) + 1 }, (_, index) => from + index * Math.sign(to - from || 1));
+
+/**
+ * Splits a fill into the columns filled up or down, or the rows filled left or right
+ * Sources and targets are both ordered in the direction of the fill, so a
+ * series continues from the source cell next to the targets.
+ */
+export const getFillLines = (source: CellRange, target: CellRange, direction: FillDirection): FillLine[] => {
+  const forward = direction === 'down' || direction === 'right';
+
+  if (direction === 'down' || direction === 'up') {
+    const sourceRows = forward ? range(source.start.row, source.end.row) : range(source.end.row, source.start.row);
+    const targetRows = forward ? range(target.start.row, target.end.row) : range(target.end.row, target.start.row);
+    return range(source.start.column, source.end.column).map((column) => ({
+      sources: sourceRows.map((row) => ({ row, column })),
+      targets: targetRows.map((row) => ({ row, column })),
+    }));
+  }
+
+  const sourceColumns = forward ? range(source.start.column, source.end.column) : range(source.end.column, source.start.column);
+  const targetColumns = forward ? range(target.start.column, target.end.column) : range(target.end.column, target.start.column);
+  return range(source.start.row, source.end.row).map((row) => ({
+    sources: sourceColumns.map((column) => ({ row, column })),
+    targets: targetColumns.map((column) => ({ row, column })),
+  }));
+};
+
+const toNumber = (text: string): number | null => {
+  if (text.trim() === '' || !isFinite(Number(text))) return null;
+  return Number(text);
+};
+
+// Text ending in a whole number, such as "Product 2" or "Q3"
+const NUMBERED_TEXT_PATTERN = /^(.*\D)(\d+)$/;
+
+/**
+ * Common difference of a sequence of numbers, null when there is none
+ */
+const getStep = (numbers: number[]): number | null => {
+  if (numbers.length < 2) return null;
+
+  const step = numbers[1] - numbers[0];
+  const tolerance = 1e-9 * Math.max(1, Math.abs(step));
+  return numbers.every((number, index) => index === 0 || Math.abs(number - numbers[index - 1] - step) <= tolerance)
+    ? step
+    : null;
+};
+
+/**
+ * Continues the values of a line of cells for the given number of cells
+ * Numbers, and text ending in a number, that change by the same step make a
+ * linear series: 2023, 2024 → 2025, 2026. Anything else, including a single
+ * cell, is repeated.
+ */
+export const extendSeries = (values: string[], count: number): string[] => {
+  const numbers = values.map(toNumber);
+  if (numbers.every((number) => number !== null)) {
+    const step = getStep(numbers);
+    if (step !== null) {
+      const last = numbers[numbers.length - 1];
+      return Array.from({ length: count }, (_, index) => String(Number((last + step * (index + 1)).toPrecision(15))));
+    }
+  }
+
+  const numbered = values.map((value) => NUMBERED_TEXT_PATTERN.exec(value));
+  const prefix = numbered[0]?.[1];
+  if (numbered.every((match) => match !== null && match[1] === prefix)) {
+    const step = getStep(numbered.map((match) => Number(match![2])));
+    if (step !== null) {
+      const last = Number(numbered[numbered.length - 1]![2]);
+      return Array.from({ length: count }, (_, index) => `${prefix}${last + step * (index + 1)}`);
+    }
+  }
+
+  return Array.from({ length: count }, (_, index) => values[index % values.length]);
+};
+
+/**
+ * Values filled into a line of cells from its source cells
+ * Lines holding formulas repeat their cells, formulas get their references
+ * moved along by `shiftFormula`, other lines continue as a series.
+ */
+export const fillLineValues = (
+  values: string[],
+  count: number,
+  shiftFormula: (formula: string, sourceIndex: number, targetIndex: number) => string
+): string[] => {
+  if (!values.some(isFormula)) {
+    return extendSeries(values, count);
+  }
+
+  return Array.from({ length: count }, (_, targetIndex) => {
+    const sourceIndex = targetIndex % values.length;
+    const value = values[sourceIndex];
+    return isFormula(value) ? shiftFormula(value, sourceIndex, targetIndex) : value;
+  });
+};
@@ -0,0 +1,52 @@
+import type { Row } from "@tanstack/react-table";
+import type { FlattenedRow } from "@/components/grid/Grid/hooks/useReportData/utils";
+import type { CellData, CellIdentity, CellPosition } from "@/components/grid/types/common";
+import type { FindOptions } from "@/components/grid/utils/findReplace";
+import type { UseSelectionReturn } from "../useSelection/types";
+import type { CellInput } from "../useEditData/types";
+
+export interface UseFindReplaceProps {
+    selectionHook: UseSelectionReturn;
+    // Displayed rows, cells are searched row by row in display order
+    rows: Row<FlattenedRow>[];
+    totalColumns: number;
+    getCellData: (position: CellPosition) => CellData | null;
+    // Text the cell is edited with, its formula or raw value
+    getEditText: (position: CellPosition) => string;
+    // Section a displayed column belongs to
+    getColumnSection: (column: number) => string | undefined;
+    resolveCell: (position: CellPosition) => CellIdentity | null;
+    isCellReadOnly: (position: CellPosition) => boolean;
+    saveCellInputs: (inputs: CellInput[]) => Promise<boolean>;
+}
+
+// Cells searched: the whole grid, the cells selected when the search started, or one section
+export type FindScope = "all" | "selection" | `section:${string}`;
+
+export interface UseFindReplaceReturn {
+    isOpen: boolean;
+    // Shows the replace field along with the find field
+    isReplacing: boolean;
+    open: (replace: boolean) => void;
+    close: () => void;
+    query: string;
+    setQuery: (query: string) => void;
+    options: FindOptions;
+    setOptions: (options: FindOptions) => void;
+    scope: FindScope;
+    setScope: (scope: FindScope) => void;
+    // Several cells were selected when the search started
+    canScopeToSelection: boolean;
+    // False while the regular expression is not valid
+    isQueryValid: boolean;
+    matches: CellPosition[];
+    // Index into matches of the match shown, -1 when none is
+    currentIndex: number;
+    next: () => void;
+    previous: () => void;
+    replace: (replacement: string) => Promise<void>;
+    // Replaces every match as one undoable change
+    replaceAll: (replacement: string) => Promise<void>;
+    // How a cell is highlighted as a search result
+    getMatchState: (position: CellPosition) => "match" | "current" | null;
+}
@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useEventCallback } from 'usehooks-ts';
+import type { CellPosition } from '@/components/grid/types/common';
+import { formatValue, getSelectedCells } from '@/components/grid/utils/formatting';
+import {
+  DEFAULT_FIND_OPTIONS,
+  createFindPattern,
+  matchesCellText,
+  replaceCellText,
+  type FindOptions,
+} from '@/components/grid/utils/findReplace';
+import type { FindScope, UseFindReplaceProps, UseFindReplaceReturn } from './types';
+
+const getPositionKey = (position: CellPosition) => `${position.row}-${position.column}`;
+
+/**
+ * useFindReplace - Searches the displayed cells and steps through the matches
+ * The match shown is selected, which scrolls it into view. Replacing writes the
+ * changed text through the same validation as typing it, Replace All as one batch.
+ */
+export const useFindReplace = ({
+  selectionHook,
+  rows,
+  totalColumns,
+  getCellData,
+  getEditText,
+  getColumnSection,
+  resolveCell,
+  isCellReadOnly,
+  saveCellInputs,
+}: UseFindReplaceProps): UseFindReplaceReturn => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isReplacing, setIsReplacing] = useState(false);
+  const [query, setQueryState] = useState('');
+  const [options, setOptionsState] = useState<FindOptions>(DEFAULT_FIND_OPTIONS);
+  const [scope, setScope] = useState<FindScope>('all');
+  // Cells selected when the search started, by persistent IDs so sorting keeps them
+  const [selectionScope, setSelectionScope] = useState<Set<string>>(new Set());
+  const [currentIndex, setCurrentIndex] = useState(0);
+
+  const pattern = useMemo(() => createFindPattern(query, options), [query, options]);
+
+  const matches = useMemo(() => {
+    if (!isOpen || !pattern) return [];
+
+    const sectionName = scope.startsWith('section:') ? scope.slice('section:'.length) : null;
+    const result: CellPosition[] = [];
+    for (let row = 0; row < rows.length; row++) {
+      for (let column = 0; column < totalColumns; column++) {
+        if (sectionName !== null && getColumnSection(column) !== sectionName) continue;
+
+        const position = { row, column };
+        if (scope === 'selection') {
+          const identity = resolveCell(position);
+          if (!identity || !selectionScope.has(`${identity.rowId}:${identity.columnId}`)) continue;
+        }
+
+        const cell = getCellData(position);
+        if (cell && matchesCellText(pattern, [getEditText(position), formatValue(cell.rawValue, cell.metadata)])) {
+          result.push(position);
+        }
+      }
+    }
+    return result;
+  }, [isOpen, pattern, scope, selectionScope, rows, totalColumns, getCellData, getEditText, getColumnSection, resolveCell]);
+
+  // After a replace the next match takes the replaced one's place, past the end it wraps around
+  const index = matches.length === 0 ? -1 : currentIndex < matches.length ? currentIndex : 0;
+  const current = index === -1 ? null : matches[index];
+
+  const matchKeys = useMemo(() => new Set(matches.map(getPositionKey)), [matches]);
+
+  // Select the match shown, the grid scrolls to it
+  const currentKey = current ? getPositionKey(current) : null;
+  const selectCurrent = useEventCallback(() => {
+    if (current) selectionHook.selectCell(current);
+  });
+  // Only a different match moves the selection
+  useEffect(() => {
+    selectCurrent();
+  }, [currentKey, selectCurrent]);
+
+  const open = useCallback((replace: boolean) => {
+    // Several selected cells limit the search to them, like a search in a range
+    const selected = getSelectedCells(selectionHook);
+    const identities = selected.flatMap((position) => resolveCell(position) ?? []);
+    setSelectionScope(new Set(identities.map(({ rowId, columnId }) => `${rowId}:${columnId}`)));
+    setScope(identities.length > 1 ? 'selection' : 'all');
+    setIsReplacing(replace);
+    setIsOpen(true);
+  }, [selectionHook, resolveCell]);
+
+  const close = useCallback(() => setIsOpen(false), []);
+
+  const setQuery = useCallback((value: string) => {
+    setQueryState(value);
+    setCurrentIndex(0);
+  }, []);
+
+  const setOptions = useCallback((value: FindOptions) => {
+    setOptionsState(value);
+    setCurrentIndex(0);
+  }, []);
+
+  const next = useCallback(() => {
+    if (matches.length > 0) setCurrentIndex((index + 1) % matches.length);
+  }, [index, matches.length]);
+
+  const previous = useCallback(() => {
+    if (matches.length > 0) setCurrentIndex((index - 1 + matches.length) % matches.length);
+  }, [index, matches.length]);
+
+  const replace = useCallback(async (replacement: string) => {
+    if (!current || !pattern) return;
+
+    const identity = resolveCell(current);
+    const text = getEditText(current);
+    const replaced = replaceCellText(text, pattern, replacement);
+    if (!identity || isCellReadOnly(current) || replaced === text) {
+      next();
+      return;
+    }
+
+    await saveCellInputs([{ identity, input: replaced }]);
+    // A cell that still matches stays in the list, move past it
+    if (matchesCellText(pattern, [replaced])) next();
+  }, [current, pattern, resolveCell, getEditText, isCellReadOnly, saveCellInputs, next]);
+
+  const replaceAll = useCallback(async (replacement: string) => {
+    if (!pattern) return;
+
+    const inputs = matches.flatMap((position) => {
+      const identity = resolveCell(position);
+      const text = getEditText(position);
+      const replaced = replaceCellText(text, pattern, replacement);
+      return identity && !isCellReadOnly(position) && replaced !== text ? [{ identity, input: replaced }] : [];
+    });
+    if (inputs.length > 0) {
+      await saveCellInputs(inputs);
+    }
+  }, [pattern, matches, resolveCell, getEditText, isCellReadOnly, saveCellInputs]);
+
+  const getMatchState = useCallback((position: CellPosition) => {
+    const key = getPositionKey(position);
+    if (key === currentKey) return 'current';
+    return matchKeys.has(key) ? 'match' : null;
+  }, [currentKey, matchKeys]);
+
+  return {
+    isOpen,
+    isReplacing,
+    open,
+    close,
+    query,
+    setQuery,
+    options,
+    setOptions,
+    scope,
+    setScope,
+    canScopeToSelection: selectionScope.size > 1,
+    isQueryValid: query === '' || pattern !== null,
+    matches,
+    currentIndex: index,
+    next,
+    previous,
+    replace,
+    replaceAll,
+    getMatchState,
+  };
+};
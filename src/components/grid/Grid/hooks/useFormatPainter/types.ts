@@ -0,0 +1,22 @@
+import type { CellFormatting, CellMetadata, CellPosition } from "@/components/grid/types/common";
+import type { UseSelectionReturn } from "../useSelection/types";
+
+export interface UseFormatPainterProps {
+    selectionHook: UseSelectionReturn;
+    getCellKey: (position: CellPosition) => string | null;
+    cellMetadata: Map<string, CellMetadata>;
+    updateCellFormatting: (cellKey: string, formatting: Partial<CellFormatting>) => Promise<void>;
+    updateMultipleCellsFormatting?: (
+      cellUpdates: Array<{ cellKey: string; formatting: Partial<CellFormatting> }>
+    ) => Promise<void>;
+  }
+
+export interface UseFormatPainterReturn {
+    // Whether the next selection receives the copied formatting
+    isActive: boolean;
+    // Sticky painters stay active after painting until cancelled
+    isSticky: boolean;
+    // Copies the formatting of the active cell
+    start: (sticky: boolean) => void;
+    cancel: () => void;
+}
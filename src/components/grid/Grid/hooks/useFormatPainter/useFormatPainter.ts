@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useEventCallback } from 'usehooks-ts';
+import type { CellFormatting } from '@/components/grid/types/common';
+import { getFormattingFields, getSelectedCells, pasteFormattingToSelection } from '../useKeyboardEvents/utils';
+import type { UseFormatPainterProps, UseFormatPainterReturn } from './types';
+
+interface PainterState {
+  formatting: Partial<CellFormatting>;
+  sticky: boolean;
+  // Cells painted last, or the source cells, so the same selection isn't painted twice
+  paintedSelection: string;
+}
+
+/**
+ * useFormatPainter - Copies the formatting of the active cell onto the next selection
+ * A single use painter stops after painting once, a sticky one keeps painting every
+ * new selection until cancelled with Escape or the toolbar button. Selections are
+ * painted once the mouse is released, so a drag paints the whole range in one change.
+ */
+export const useFormatPainter = ({
+  selectionHook,
+  getCellKey,
+  cellMetadata,
+  updateCellFormatting,
+  updateMultipleCellsFormatting,
+}: UseFormatPainterProps): UseFormatPainterReturn => {
+  const [painter, setPainter] = useState<PainterState | null>(null);
+  const { selectionState } = selectionHook;
+
+  const start = useCallback((sticky: boolean) => {
+    const activeCell = selectionHook.getActiveCell();
+    const cellKey = activeCell ? getCellKey(activeCell) : null;
+    if (!cellKey) return;
+
+    setPainter({
+      formatting: getFormattingFields(cellMetadata.get(cellKey)?.formatting),
+      sticky,
+      paintedSelection: JSON.stringify(getSelectedCells(selectionHook)),
+    });
+  }, [selectionHook, getCellKey, cellMetadata]);
+
+  const cancel = useCallback(() => setPainter(null), []);
+
+  // Paints the current selection once it is complete, with the painter picked up last
+  const paintSelection = useEventCallback(() => {
+    if (!painter || selectionState.isSelecting) return;
+
+    const selection = JSON.stringify(getSelectedCells(selectionHook));
+    if (selection === '[]' || selection === painter.paintedSelection) return;
+
+    pasteFormattingToSelection(
+      selectionHook,
+      painter.formatting,
+      updateCellFormatting,
+      getCellKey,
+      updateMultipleCellsFormatting
+    );
+    setPainter(painter.sticky ? { ...painter, paintedSelection: selection } : null);
+  });
+
+  // Only a change of selection paints, not a change of the painter itself
+  useEffect(() => {
+    paintSelection();
+  }, [selectionState, paintSelection]);
+
+  // Escape puts the painter down
+  useEffect(() => {
+    if (!painter) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setPainter(null);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [painter]);
+
+  return {
+    isActive: painter !== null,
+    isSticky: painter?.sticky ?? false,
+    start,
+    cancel,
+  };
+};
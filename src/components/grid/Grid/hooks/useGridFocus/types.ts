@@ -0,0 +1,2 @@
+// Whether a keyboard or clipboard event on the page is meant for the grid
+export type IsGridEvent = (e: Event) => boolean;
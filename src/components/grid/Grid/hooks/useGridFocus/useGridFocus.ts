@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import type { IsGridEvent } from './types';
+
+// Menus and dialogs opened from the grid render outside of it
+const OVERLAY_SELECTOR = '[role="menu"], [role="dialog"], [role="listbox"]';
+
+/**
+ * useGridFocus - Tells the events meant for this grid apart from the rest of the page
+ * Events from elements inside the grid are always its own, events from other
+ * elements never are. Cells aren't focusable, so keys pressed after clicking
+ * a cell come from the page body; those belong to the grid clicked or focused last.
+ */
+export const useGridFocus = (containerRef: RefObject<HTMLElement | null>): IsGridEvent => {
+  const isActiveRef = useRef(false);
+
+  useEffect(() => {
+    const handleInteraction = (e: Event) => {
+      if (!(e.target instanceof Element)) return;
+      // Using a menu or dialog of the grid keeps it active
+      if (!containerRef.current?.contains(e.target) && e.target.closest(OVERLAY_SELECTOR)) return;
+      isActiveRef.current = !!containerRef.current?.contains(e.target);
+    };
+
+    document.addEventListener('pointerdown', handleInteraction, true);
+    document.addEventListener('focusin', handleInteraction, true);
+    return () => {
+      document.removeEventListener('pointerdown', handleInteraction, true);
+      document.removeEventListener('focusin', handleInteraction, true);
+    };
+  }, [containerRef]);
+
+  return useCallback((e: Event) => {
+    const { target } = e;
+    if (target instanceof Node && containerRef.current?.contains(target)) return true;
+    return (target === document.body || target === document.documentElement) && isActiveRef.current;
+  }, [containerRef]);
+};
@@ -0,0 +1,48 @@
+import type { CellFormatting, CellIdentity } from "@/components/grid/types/common";
+import type { CellValueChange } from "../useEditData/types";
+
+// Value of a cell before and after an operation
+export interface CellValueHistoryChange {
+    identity: CellIdentity;
+    before: string | number;
+    after: string | number;
+    // Present when the operation set or removed the cell's formula, null for no formula
+    formula?: { before: string | null; after: string | null };
+}
+
+// Formatting fields of a cell before and after an operation
+export interface CellFormattingHistoryChange {
+    cellKey: string;
+    before: Partial<CellFormatting>;
+    after: Partial<CellFormatting>;
+}
+
+// One undoable operation, multi-cell operations are a single entry
+export interface HistoryEntry {
+    values?: CellValueHistoryChange[];
+    formatting?: CellFormattingHistoryChange[];
+}
+
+// Lets undo/redo write through the normal save paths without being recorded again
+export interface HistoryRecordOptions {
+    recordHistory?: boolean;
+}
+
+// Save paths undo/redo write through
+export interface HistoryHandlers {
+    saveCellValues: (changes: CellValueChange[], options?: HistoryRecordOptions) => Promise<boolean>;
+    updateMultipleCellsFormatting: (
+        cellUpdates: Array<{ cellKey: string; formatting: Partial<CellFormatting> }>,
+        options?: HistoryRecordOptions
+    ) => Promise<void>;
+}
+
+export interface UseHistoryReturn {
+    canUndo: boolean;
+    canRedo: boolean;
+    // Adds an operation to the history and drops everything that could be redone
+    record: (entry: HistoryEntry) => void;
+    undo: (handlers: HistoryHandlers) => Promise<void>;
+    redo: (handlers: HistoryHandlers) => Promise<void>;
+    clear: () => void;
+}
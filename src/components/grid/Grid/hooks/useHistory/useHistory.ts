@@ -0,0 +1,81 @@
+import { useState, useCallback, useRef } from 'react';
+import type { HistoryEntry, HistoryHandlers, UseHistoryReturn } from './types';
+import { applyHistoryEntry, invertHistoryEntry, isEmptyHistoryEntry } from './utils';
+
+// Oldest entries are dropped beyond this many
+const HISTORY_LIMIT = 100;
+
+/**
+ * useHistory - Undo/redo stacks for value and formatting changes
+ * Entries store before/after states, undo and redo write them back through
+ * the handlers so they are persisted like any other change.
+ */
+export const useHistory = (): UseHistoryReturn => {
+  // Stacks live in refs so repeated key presses see the latest state before re-rendering
+  const pastRef = useRef<HistoryEntry[]>([]);
+  const futureRef = useRef<HistoryEntry[]>([]);
+  const [availability, setAvailability] = useState({ canUndo: false, canRedo: false });
+
+  const syncAvailability = useCallback(() => {
+    setAvailability({
+      canUndo: pastRef.current.length > 0,
+      canRedo: futureRef.current.length > 0,
+    });
+  }, []);
+
+  /**
+   * Record an operation that was just applied
+   */
+  const record = useCallback((entry: HistoryEntry) => {
+    if (isEmptyHistoryEntry(entry)) return;
+
+    pastRef.current = [...pastRef.current, entry].slice(-HISTORY_LIMIT);
+    futureRef.current = [];
+    syncAvailability();
+  }, [syncAvailability]);
+
+  /**
+   * Revert the latest operation
+   */
+  const undo = useCallback(async (handlers: HistoryHandlers) => {
+    const entry = pastRef.current.at(-1);
+    if (!entry) return;
+
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [...futureRef.current, entry];
+    syncAvailability();
+
+    await applyHistoryEntry(invertHistoryEntry(entry), handlers);
+  }, [syncAvailability]);
+
+  /**
+   * Re-apply the latest reverted operation
+   */
+  const redo = useCallback(async (handlers: HistoryHandlers) => {
+    const entry = futureRef.current.at(-1);
+    if (!entry) return;
+
+    futureRef.current = futureRef.current.slice(0, -1);
+    pastRef.current = [...pastRef.current, entry];
+    syncAvailability();
+
+    await applyHistoryEntry(entry, handlers);
+  }, [syncAvailability]);
+
+  /**
+   * Forget all operations, e.g. when another report is loaded
+   */
+  const clear = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    syncAvailability();
+  }, [syncAvailability]);
+
+  return {
+    ...availability,
+    record,
+    undo,
+    redo,
+    clear,
+  };
+};
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { applyHistoryEntry, invertHistoryEntry, isEmptyHistoryEntry } from './utils';
+import type { HistoryEntry, HistoryHandlers } from './types';
+
+const entry: HistoryEntry = {
+  values: [
+    { identity: { rowId: 'row-0', columnId: 'values_2020' }, before: 100, after: 150 },
+    { identity: { rowId: 'row-1', columnId: 'values_2020' }, before: 200, after: 250 },
+  ],
+  formatting: [
+    { cellKey: 'r1:row-0:values_2020', before: { bold: undefined }, after: { bold: true } },
+  ],
+};
+
+const createHandlers = () => ({
+  saveCellValues: vi.fn<HistoryHandlers['saveCellValues']>(() => Promise.resolve(true)),
+  updateMultipleCellsFormatting: vi.fn<HistoryHandlers['updateMultipleCellsFormatting']>(() => Promise.resolve()),
+});
+
+describe('invertHistoryEntry', () => {
+  it('should swap before and after states', () => {
+    const inverted = invertHistoryEntry(entry);
+
+    expect(inverted.values?.[0]).toEqual({
+      identity: { rowId: 'row-0', columnId: 'values_2020' },
+      before: 150,
+      after: 100,
+    });
+    expect(inverted.formatting?.[0]).toEqual({
+      cellKey: 'r1:row-0:values_2020',
+      before: { bold: true },
+      after: { bold: undefined },
+    });
+    expect(invertHistoryEntry(inverted)).toEqual(entry);
+  });
+});
+
+describe('isEmptyHistoryEntry', () => {
+  it('should detect entries without changes', () => {
+    expect(isEmptyHistoryEntry({})).toBe(true);
+    expect(isEmptyHistoryEntry({ values: [], formatting: [] })).toBe(true);
+    expect(isEmptyHistoryEntry(entry)).toBe(false);
+  });
+});
+
+describe('applyHistoryEntry', () => {
+  it('should write all cells of an entry in one call per save path', async () => {
+    const handlers = createHandlers();
+
+    await applyHistoryEntry(invertHistoryEntry(entry), handlers);
+
+    expect(handlers.saveCellValues).toHaveBeenCalledTimes(1);
+    expect(handlers.saveCellValues).toHaveBeenCalledWith(
+      [
+        { identity: { rowId: 'row-0', columnId: 'values_2020' }, value: 100, baseValue: 150 },
+        { identity: { rowId: 'row-1', columnId: 'values_2020' }, value: 200, baseValue: 250 },
+      ],
+      { recordHistory: false }
+    );
+    expect(handlers.updateMultipleCellsFormatting).toHaveBeenCalledWith(
+      [{ cellKey: 'r1:row-0:values_2020', formatting: { bold: undefined } }],
+      { recordHistory: false }
+    );
+  });
+
+  it('should skip save paths the entry does not touch', async () => {
+    const handlers = createHandlers();
+
+    await applyHistoryEntry({ formatting: entry.formatting }, handlers);
+
+    expect(handlers.saveCellValues).not.toHaveBeenCalled();
+    expect(handlers.updateMultipleCellsFormatting).toHaveBeenCalledTimes(1);
+  });
+});
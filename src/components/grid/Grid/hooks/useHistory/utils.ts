@@ -0,0 +1,52 @@
+import type { HistoryEntry, HistoryHandlers } from './types';
+
+/**
+ * Returns the entry that reverts the given one
+ */
+export const invertHistoryEntry = (entry: HistoryEntry): HistoryEntry => ({
+  values: entry.values?.map(({ identity, before, after, formula }) => ({
+    identity,
+    before: after,
+    after: before,
+    ...(formula && { formula: { before: formula.after, after: formula.before } }),
+  })),
+  formatting: entry.formatting?.map(({ cellKey, before, after }) => ({ cellKey, before: after, after: before })),
+});
+
+/**
+ * Checks whether an entry changes anything
+ */
+export const isEmptyHistoryEntry = (entry: HistoryEntry): boolean =>
+  !entry.values?.length && !entry.formatting?.length;
+
+/**
+ * Writes the "after" state of an entry through the normal save paths
+ * Values are saved on top of their "before" state, so cells someone else
+ * changed in the meantime surface as conflicts instead of being overwritten.
+ */
+export const applyHistoryEntry = async (
+  entry: HistoryEntry,
+  handlers: HistoryHandlers
+): Promise<void> => {
+  const options = { recordHistory: false };
+
+  await Promise.all([
+    entry.values?.length
+      ? handlers.saveCellValues(
+          entry.values.map(({ identity, before, after, formula }) => ({
+            identity,
+            value: after,
+            baseValue: before,
+            ...(formula && { formula: formula.after }),
+          })),
+          options
+        )
+      : null,
+    entry.formatting?.length
+      ? handlers.updateMultipleCellsFormatting(
+          entry.formatting.map(({ cellKey, after }) => ({ cellKey, formatting: after })),
+          options
+        )
+      : null,
+  ]);
+};
@@ -2,32 +2,118 @@ import { useEffect } from "react";
 import type { UseSelectionReturn } from "../useSelection/types";
 import type { UseEditDataReturn } from "../useEditData/types";
 import type { CellFormatting, CellMetadata, CellPosition } from "@/components/grid/types/common";
-import { applyFormattingToSelection, applyAlignmentToSelection } from "./utils";
+import type { IsGridEvent } from "../useGridFocus/types";
+import {
+  applyFormattingToSelection,
+  applyAlignmentToSelection,
+  clearFormattingOfSelection,
+  findDataEdge,
+  getArrowDirection,
+  getSelectionAnchor,
+  getSelectionFocus,
+  moveCell,
+} from "./utils";
 
 const useKeyboardEvents = ({
   selectionHook,
   editHook,
+  isGridEvent,
   totalRows,
   totalColumns,
   updateCellFormatting,
   cellMetadata,
+  getCellKey,
   updateMultipleCellsFormatting,
+  onUndo,
+  onRedo,
+  isCellEmpty,
+  getPageSize,
+  getDefaultCellMetadata,
+  onFind,
+  onFill,
 }: {
   selectionHook: UseSelectionReturn,
   editHook: UseEditDataReturn,
+  // Keys pressed elsewhere on the page, in inputs or another grid, are left alone
+  isGridEvent: IsGridEvent,
   totalRows: number,
   totalColumns: number,
-  updateCellFormatting: (row: number, column: number, formatting: Partial<CellFormatting>) => Promise<void>,
+  updateCellFormatting: (cellKey: string, formatting: Partial<CellFormatting>) => Promise<void>,
   cellMetadata: Map<string, CellMetadata>,
+  getCellKey: (position: CellPosition) => string | null,
   updateMultipleCellsFormatting?: (cellUpdates: Array<{
-    position: CellPosition;
+    cellKey: string;
     formatting: Partial<CellFormatting>;
   }>) => Promise<void>,
+  onUndo?: () => void,
+  onRedo?: () => void,
+  // Ctrl+Arrow stops at the edges of blocks of values, without it at the grid edge
+  isCellEmpty?: (position: CellPosition) => boolean,
+  // Number of rows PageUp/PageDown move by
+  getPageSize?: () => number,
+  // Metadata a cell starts with, Ctrl+\ resets the selected cells to it
+  getDefaultCellMetadata?: (position: CellPosition) => CellMetadata | null,
+  // Ctrl+F opens the find bar, Ctrl+H opens it with the replace field
+  onFind?: (replace: boolean) => void,
+  // Ctrl+D fills the selection down, Ctrl+R fills it right
+  onFill?: (direction: "down" | "right") => void,
 }) => {
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
+          if (!isGridEvent(e)) return;
+
+          // Menus, dialogs, select lists and the find bar handle their own keys
+          if (e.target instanceof HTMLElement && e.target.closest('[role="menu"], [role="dialog"], [role="listbox"], [role="search"]')) return;
+
+          // Undo/redo (Ctrl+Z, Ctrl+Y, Cmd+Shift+Z) don't need a selection,
+          // while editing the input keeps its own text undo
+          if ((e.ctrlKey || e.metaKey) && editHook.editingCell === null) {
+            const key = e.key.toLowerCase();
+            if (key === "z" && !e.shiftKey) {
+              e.preventDefault();
+              onUndo?.();
+              return;
+            }
+            if (key === "y" || (key === "z" && e.shiftKey)) {
+              e.preventDefault();
+              onRedo?.();
+              return;
+            }
+            if ((key === "f" || key === "h") && onFind) {
+              e.preventDefault();
+              onFind(key === "h");
+              return;
+            }
+            // Ctrl+Shift+R aligns right
+            if ((key === "d" || key === "r") && !e.shiftKey && onFill) {
+              e.preventDefault();
+              onFill(key === "d" ? "down" : "right");
+              return;
+            }
+            if (key === "a" && totalRows > 0 && totalColumns > 0) {
+              e.preventDefault();
+              selectionHook.selectRange(
+                { row: 0, column: 0 },
+                { row: totalRows - 1, column: totalColumns - 1 }
+              );
+              return;
+            }
+          }
+
           const currentCell = selectionHook.getCurrentCell();
           if (!currentCell) return;
+
+          const bounds = { rows: totalRows, columns: totalColumns };
+
+          // Moves the selection to a cell, or with Shift extends it from the anchor to the cell
+          const moveSelection = (target: CellPosition, extend: boolean) => {
+            const anchor = extend ? getSelectionAnchor(selectionHook.selectionState) : null;
+            if (anchor && (anchor.row !== target.row || anchor.column !== target.column)) {
+              selectionHook.selectRange(anchor, target);
+            } else {
+              selectionHook.selectCell(anchor ?? target);
+            }
+          };
     
           // Check if we're in edit mode
           const isEditing = editHook.editingCell !== null;
@@ -81,9 +167,9 @@ const useKeyboardEvents = ({
     
                           // Apply the appropriate formatting
             if (key === "b") {
-              applyFormattingToSelection(selectionHook, "bold", updateCellFormatting, cellMetadata, updateMultipleCellsFormatting);
+              applyFormattingToSelection(selectionHook, "bold", updateCellFormatting, cellMetadata, getCellKey, updateMultipleCellsFormatting);
             } else if (key === "i") {
-              applyFormattingToSelection(selectionHook, "italic", updateCellFormatting, cellMetadata, updateMultipleCellsFormatting);
+              applyFormattingToSelection(selectionHook, "italic", updateCellFormatting, cellMetadata, getCellKey, updateMultipleCellsFormatting);
             }
     
               return;
@@ -92,7 +178,7 @@ const useKeyboardEvents = ({
             // Check for Ctrl+Shift+S (strikethrough) - more reliable than Alt combinations
             if ((e.ctrlKey || e.metaKey) && e.shiftKey && key === "s") {
               e.preventDefault();
-              applyFormattingToSelection(selectionHook, "strikethrough", updateCellFormatting, cellMetadata, updateMultipleCellsFormatting);
+              applyFormattingToSelection(selectionHook, "strikethrough", updateCellFormatting, cellMetadata, getCellKey, updateMultipleCellsFormatting);
               return;
             }
     
@@ -106,13 +192,20 @@ const useKeyboardEvents = ({
     
                           // Apply the appropriate alignment
             if (key === "l") {
-              applyAlignmentToSelection(selectionHook, "left", updateCellFormatting, updateMultipleCellsFormatting);
+              applyAlignmentToSelection(selectionHook, "left", updateCellFormatting, getCellKey, updateMultipleCellsFormatting);
             } else if (key === "e") {
-              applyAlignmentToSelection(selectionHook, "center", updateCellFormatting, updateMultipleCellsFormatting);
+              applyAlignmentToSelection(selectionHook, "center", updateCellFormatting, getCellKey, updateMultipleCellsFormatting);
             } else if (key === "r") {
-              applyAlignmentToSelection(selectionHook, "right", updateCellFormatting, updateMultipleCellsFormatting);
+              applyAlignmentToSelection(selectionHook, "right", updateCellFormatting, getCellKey, updateMultipleCellsFormatting);
+            }
+    
+              return;
             }
     
+            // Check for Ctrl+\ (clear formatting)
+            if ((e.ctrlKey || e.metaKey) && e.key === "\\" && getDefaultCellMetadata) {
+              e.preventDefault();
+              clearFormattingOfSelection(selectionHook, getDefaultCellMetadata, updateCellFormatting, getCellKey, updateMultipleCellsFormatting);
               return;
             }
     
@@ -164,41 +257,39 @@ const useKeyboardEvents = ({
                 break;
               }
               case "ArrowLeft":
-                e.preventDefault();
-                if (currentCell.column > 0) {
-                  selectionHook.selectCell({
-                    ...currentCell,
-                    column: currentCell.column - 1,
-                  });
-                }
-                break;
               case "ArrowRight":
+              case "ArrowUp":
+              case "ArrowDown": {
                 e.preventDefault();
-                if (currentCell.column < totalColumns - 1) {
-                  selectionHook.selectCell({
-                    ...currentCell,
-                    column: currentCell.column + 1,
-                  });
-                }
+                const direction = getArrowDirection(e.key)!;
+                const from = e.shiftKey ? getSelectionFocus(selectionHook.selectionState) ?? currentCell : currentCell;
+                const target = e.ctrlKey || e.metaKey
+                  ? findDataEdge(from, direction, bounds, isCellEmpty ?? (() => false))
+                  : moveCell(from, direction, bounds);
+                moveSelection(target, e.shiftKey);
                 break;
-              case "ArrowUp":
+              }
+              case "Home":
+              case "End": {
                 e.preventDefault();
-                if (currentCell.row > 0) {
-                  selectionHook.selectCell({
-                    ...currentCell,
-                    row: currentCell.row - 1,
-                  });
-                }
+                const from = e.shiftKey ? getSelectionFocus(selectionHook.selectionState) ?? currentCell : currentCell;
+                const isHome = e.key === "Home";
+                // Home/End move within the row, with Ctrl/Cmd to the first/last cell of the grid
+                const target = {
+                  row: e.ctrlKey || e.metaKey ? (isHome ? 0 : totalRows - 1) : from.row,
+                  column: isHome ? 0 : totalColumns - 1,
+                };
+                moveSelection(target, e.shiftKey);
                 break;
-              case "ArrowDown":
+              }
+              case "PageUp":
+              case "PageDown": {
                 e.preventDefault();
-                if (currentCell.row < totalRows - 1) {
-                  selectionHook.selectCell({
-                    ...currentCell,
-                    row: currentCell.row + 1,
-                  });
-                }
+                const from = e.shiftKey ? getSelectionFocus(selectionHook.selectionState) ?? currentCell : currentCell;
+                const pageSize = Math.max(1, getPageSize?.() ?? 1);
+                moveSelection(moveCell(from, e.key === "PageUp" ? "up" : "down", bounds, pageSize), e.shiftKey);
                 break;
+              }
             }
           }
         };
@@ -212,11 +303,20 @@ const useKeyboardEvents = ({
       }, [
         selectionHook,
         editHook,
+        isGridEvent,
         totalRows,
         totalColumns,
         updateCellFormatting,
         cellMetadata,
+        getCellKey,
         updateMultipleCellsFormatting,
+        onUndo,
+        onRedo,
+        isCellEmpty,
+        getPageSize,
+        getDefaultCellMetadata,
+        onFind,
+        onFill,
       ]);
 };
 
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import type { CellPosition, SelectionState } from '@/components/grid/types/common';
+import { findDataEdge, getArrowDirection, getSelectionAnchor, getSelectionFocus, moveCell } from './utils';
+
+const bounds = { rows: 10, columns: 5 };
+
+// Column of values where "x" marks a filled cell
+const createColumn = (cells: string) => (position: CellPosition) => cells[position.row] !== 'x';
+
+describe('moveCell', () => {
+  it('should move by the given distance and stop at the grid edge', () => {
+    expect(moveCell({ row: 2, column: 2 }, 'right', bounds)).toEqual({ row: 2, column: 3 });
+    expect(moveCell({ row: 2, column: 2 }, 'down', bounds, 5)).toEqual({ row: 7, column: 2 });
+    expect(moveCell({ row: 2, column: 2 }, 'up', bounds, 5)).toEqual({ row: 0, column: 2 });
+    expect(moveCell({ row: 2, column: 4 }, 'right', bounds)).toEqual({ row: 2, column: 4 });
+  });
+});
+
+describe('getArrowDirection', () => {
+  it('should map arrow keys to directions', () => {
+    expect(getArrowDirection('ArrowLeft')).toBe('left');
+    expect(getArrowDirection('ArrowDown')).toBe('down');
+    expect(getArrowDirection('Home')).toBeNull();
+  });
+});
+
+describe('findDataEdge', () => {
+  it('should stop at the last value of the current block', () => {
+    const isCellEmpty = createColumn('xxxx..xx..');
+    expect(findDataEdge({ row: 0, column: 0 }, 'down', bounds, isCellEmpty)).toEqual({ row: 3, column: 0 });
+  });
+
+  it('should jump to the next value when leaving a block', () => {
+    const isCellEmpty = createColumn('xxxx..xx..');
+    expect(findDataEdge({ row: 3, column: 0 }, 'down', bounds, isCellEmpty)).toEqual({ row: 6, column: 0 });
+    expect(findDataEdge({ row: 6, column: 0 }, 'up', bounds, isCellEmpty)).toEqual({ row: 3, column: 0 });
+  });
+
+  it('should go to the grid edge when no value follows', () => {
+    const isCellEmpty = createColumn('xxxx..xx..');
+    expect(findDataEdge({ row: 7, column: 0 }, 'down', bounds, isCellEmpty)).toEqual({ row: 9, column: 0 });
+    expect(findDataEdge({ row: 9, column: 0 }, 'down', bounds, isCellEmpty)).toEqual({ row: 9, column: 0 });
+  });
+
+  it('should reach the grid edge when every cell has a value', () => {
+    expect(findDataEdge({ row: 1, column: 1 }, 'right', bounds, () => false)).toEqual({ row: 1, column: 4 });
+  });
+});
+
+describe('getSelectionAnchor and getSelectionFocus', () => {
+  const createState = (selectedCells: SelectionState['selectedCells']): SelectionState => ({
+    selectedCells,
+    isSelecting: false,
+    selectionStart: null,
+    activeCell: { row: 0, column: 0 },
+  });
+
+  it('should use the range start as anchor and the range end as focus', () => {
+    const state = createState({ type: 'range', range: { start: { row: 1, column: 1 }, end: { row: 4, column: 3 } } });
+    expect(getSelectionAnchor(state)).toEqual({ row: 1, column: 1 });
+    expect(getSelectionFocus(state)).toEqual({ row: 4, column: 3 });
+  });
+
+  it('should use the selected cell as both anchor and focus', () => {
+    const state = createState({ type: 'single', single: { row: 2, column: 2 } });
+    expect(getSelectionAnchor(state)).toEqual({ row: 2, column: 2 });
+    expect(getSelectionFocus(state)).toEqual({ row: 2, column: 2 });
+  });
+});
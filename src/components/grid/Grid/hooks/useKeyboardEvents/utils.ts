@@ -1,6 +1,124 @@
+import type { CellPosition, SelectionState } from "@/components/grid/types/common";
+
 // Re-export formatting utilities from the Grid/utils folder
 export {
   getSelectedCells,
   applyFormattingToSelection,
   applyAlignmentToSelection,
-} from "@/components/grid/utils/formatting"; 
\ No newline at end of file
+  applyNumberFormatToSelection,
+  applyColorToSelection,
+  getFormattingFields,
+  pasteFormattingToSelection,
+  clearFormattingOfSelection,
+} from "@/components/grid/utils/formatting";
+
+export type NavigationDirection = "up" | "down" | "left" | "right";
+
+export interface GridBounds {
+  rows: number;
+  columns: number;
+}
+
+const ARROW_DIRECTIONS: Record<string, NavigationDirection> = {
+  ArrowUp: "up",
+  ArrowDown: "down",
+  ArrowLeft: "left",
+  ArrowRight: "right",
+};
+
+const DIRECTION_STEPS: Record<NavigationDirection, CellPosition> = {
+  up: { row: -1, column: 0 },
+  down: { row: 1, column: 0 },
+  left: { row: 0, column: -1 },
+  right: { row: 0, column: 1 },
+};
+
+/**
+ * Direction of an arrow key, null for any other key
+ */
+export const getArrowDirection = (key: string): NavigationDirection | null =>
+  ARROW_DIRECTIONS[key] ?? null;
+
+const isInBounds = (position: CellPosition, bounds: GridBounds): boolean =>
+  position.row >= 0 && position.row < bounds.rows &&
+  position.column >= 0 && position.column < bounds.columns;
+
+/**
+ * Moves a cell by the given number of cells, stopping at the grid edge
+ */
+export const moveCell = (
+  position: CellPosition,
+  direction: NavigationDirection,
+  bounds: GridBounds,
+  distance = 1
+): CellPosition => {
+  const step = DIRECTION_STEPS[direction];
+  return {
+    row: Math.min(Math.max(position.row + step.row * distance, 0), bounds.rows - 1),
+    column: Math.min(Math.max(position.column + step.column * distance, 0), bounds.columns - 1),
+  };
+};
+
+/**
+ * Finds the cell Ctrl+Arrow jumps to, the same way spreadsheets do:
+ * inside a block of values it stops at the last value of the block,
+ * otherwise at the next value, and at the grid edge when there is none.
+ */
+export const findDataEdge = (
+  position: CellPosition,
+  direction: NavigationDirection,
+  bounds: GridBounds,
+  isCellEmpty: (position: CellPosition) => boolean
+): CellPosition => {
+  const step = DIRECTION_STEPS[direction];
+  const next = (cell: CellPosition): CellPosition => ({
+    row: cell.row + step.row,
+    column: cell.column + step.column,
+  });
+
+  let current = position;
+  let candidate = next(current);
+  if (!isInBounds(candidate, bounds)) return position;
+
+  // Walk to the end of the block the current cell belongs to
+  if (!isCellEmpty(current) && !isCellEmpty(candidate)) {
+    while (isInBounds(candidate, bounds) && !isCellEmpty(candidate)) {
+      current = candidate;
+      candidate = next(current);
+    }
+    return current;
+  }
+
+  // Skip empty cells up to the next value or the grid edge
+  while (isInBounds(candidate, bounds)) {
+    current = candidate;
+    if (!isCellEmpty(current)) break;
+    candidate = next(current);
+  }
+  return current;
+};
+
+/**
+ * The fixed corner of the selection that keyboard range extension grows from
+ */
+export const getSelectionAnchor = (selectionState: SelectionState): CellPosition | null => {
+  const { selectedCells, activeCell } = selectionState;
+  if (selectedCells?.type === "range" && selectedCells.range) {
+    return selectedCells.range.start;
+  }
+  if (selectedCells?.type === "single" && selectedCells.single) {
+    return selectedCells.single;
+  }
+  return activeCell;
+};
+
+/**
+ * The moving corner of the selection, the cell Shift+Arrow moves
+ */
+export const getSelectionFocus = (selectionState: SelectionState): CellPosition | null => {
+  const { selectedCells } = selectionState;
+  if (selectedCells?.type === "range" && selectedCells.range) {
+    return selectedCells.range.end;
+  }
+  return getSelectionAnchor(selectionState);
+};
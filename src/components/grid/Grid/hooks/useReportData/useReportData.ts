@@ -1,21 +1,48 @@
 import { useState, useEffect, useCallback } from 'react';
-import { updateCellMetadataById, updateMultipleCellsMetadata } from '@/api/cellsMetadata/cellsMetadata';
-import { createGenericAdapter, type AdapterOutput } from './utils';
-import { generateCellKey } from '@/components/grid/utils/formatting';
-import type { CellFormatting, CellPosition } from '@/components/grid/types/common';
+import type { ReportDataSource } from '@/api/dataSources/types';
+import {
+  assignStableIds,
+  buildAdapterOutput,
+  createGenericAdapter,
+  mergeCellsFormatting,
+  type AdapterOutput,
+} from './utils';
+import type { CellFormatting, ConditionalFormatRule } from '@/components/grid/types/common';
+import type { HistoryEntry, HistoryRecordOptions } from '../useHistory/types';
+
+/**
+ * Formatting fields as they were before an update, so the update can be undone
+ */
+const getPreviousFormatting = (
+  current: CellFormatting,
+  update: Partial<CellFormatting>
+): Partial<CellFormatting> =>
+  Object.fromEntries(
+    Object.keys(update).map((field) => [field, current[field as keyof CellFormatting]])
+  );
 
 /**
  * useSpreadsheetData - Custom hook for managing spreadsheet data
  * Handles data fetching, loading states, and API interactions
+ * Keeps the data in sync with changes made by other users when the data source supports it.
  */
-export const useReportData = (reportId: string) => {
+export const useReportData = (
+  reportId: string,
+  dataSource: ReportDataSource,
+  // Receives every formatting change so it can be undone
+  onHistoryRecord?: (entry: HistoryEntry) => void
+) => {
   const [data, setData] = useState<AdapterOutput>({
     rows: [],
     sections: [],
     columnOrder: [],
     columnMapping: new Map(),
     cellMetadata: new Map(),
+    formulas: new Map(),
+    version: 0,
   });
+  // Conditional formatting rules, null until the report saves its own rules
+  const [conditionalFormats, setConditionalFormats] = useState<ConditionalFormatRule[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -28,11 +55,15 @@ export const useReportData = (reportId: string) => {
       setError(null);
       
       // Transform using generic adapter
-      const adapterOutput = await createGenericAdapter(reportId);
+      const [adapterOutput, conditionalFormatsResponse] = await Promise.all([
+        createGenericAdapter(reportId, dataSource),
+        dataSource.getConditionalFormats(reportId),
+      ]);
 
       console.log("Adapter output:", adapterOutput);
 
       setData(adapterOutput);
+      setConditionalFormats(conditionalFormatsResponse.data);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load spreadsheet data';
       setError(errorMessage);
@@ -40,7 +71,7 @@ export const useReportData = (reportId: string) => {
     } finally {
       setLoading(false);
     }
-  }, [reportId]);
+  }, [reportId, dataSource]);
 
   /**
    * Refresh data from API
@@ -53,17 +84,16 @@ export const useReportData = (reportId: string) => {
    * Update cell formatting and refresh data
    */
   const updateCellFormatting = async (
-    row: number,
-    column: number,
-    formatting: Partial<CellFormatting>
+    cellKey: string,
+    formatting: Partial<CellFormatting>,
+    { recordHistory = true }: HistoryRecordOptions = {}
   ) => {
     if (!data) return;
 
-    const cellKey = generateCellKey(reportId, row, column);
     const currentMetadata = data.cellMetadata.get(cellKey);
 
     if (!currentMetadata?.formatting) {
-      console.warn(`No formatting metadata found for cell at row ${row}, column ${column}`);
+      console.warn(`No formatting metadata found for cell ${cellKey}`);
       return;
     }
 
@@ -73,10 +103,23 @@ export const useReportData = (reportId: string) => {
       ...formatting,
     };
 
-    // Update via Firebase API
-    const response = await updateCellMetadataById(cellKey, updatedFormatting);
+    // Update via the data source
+    const response = await dataSource.updateCellsMetadata(
+      reportId,
+      new Map([[cellKey, updatedFormatting]])
+    );
     
     if (response.status === 200) {
+      if (recordHistory) {
+        onHistoryRecord?.({
+          formatting: [{
+            cellKey,
+            before: getPreviousFormatting(currentMetadata.formatting, formatting),
+            after: formatting,
+          }],
+        });
+      }
+
       // Update the local data structure
       const updatedMetadata = {
         ...currentMetadata,
@@ -95,9 +138,10 @@ export const useReportData = (reportId: string) => {
    */
   const updateMultipleCellsFormatting = async (
     cellUpdates: Array<{
-      position: CellPosition;
+      cellKey: string;
       formatting: Partial<CellFormatting>;
-    }>
+    }>,
+    { recordHistory = true }: HistoryRecordOptions = {}
   ) => {
     if (!data || cellUpdates.length === 0) return;
 
@@ -106,15 +150,15 @@ export const useReportData = (reportId: string) => {
     const originalCellMetadata = new Map(data.cellMetadata);
 
     // Optimistically update local state first
-    const newData = { ...data };
+    const newData = { ...data, cellMetadata: new Map(data.cellMetadata) };
     const cellUpdatesMap = new Map<string, CellFormatting>();
+    const historyChanges: NonNullable<HistoryEntry['formatting']> = [];
 
-    for (const { position, formatting } of cellUpdates) {
-      const cellKey = generateCellKey(reportId, position.row, position.column);
+    for (const { cellKey, formatting } of cellUpdates) {
       const currentMetadata = data.cellMetadata.get(cellKey);
 
       if (!currentMetadata?.formatting) {
-        console.warn(`No formatting metadata found for cell at row ${position.row}, column ${position.column}`);
+        console.warn(`No formatting metadata found for cell ${cellKey}`);
         continue;
       }
 
@@ -131,14 +175,22 @@ export const useReportData = (reportId: string) => {
       };
       newData.cellMetadata.set(cellKey, updatedMetadata);
       cellUpdatesMap.set(cellKey, updatedFormatting);
+      historyChanges.push({
+        cellKey,
+        before: getPreviousFormatting(currentMetadata.formatting, formatting),
+        after: formatting,
+      });
     }
 
     // Apply optimistic updates to UI
     setData(newData);
+    if (recordHistory) {
+      onHistoryRecord?.({ formatting: historyChanges });
+    }
 
     try {
       // Perform batch API call
-      const response = await updateMultipleCellsMetadata(cellUpdatesMap);
+      const response = await dataSource.updateCellsMetadata(reportId, cellUpdatesMap);
       
       if (response.status !== 200) {
         console.error('Failed to update multiple cells formatting:', response.message);
@@ -158,11 +210,63 @@ export const useReportData = (reportId: string) => {
     }
   };
 
+  /**
+   * Replace the conditional formatting rules with optimistic updates
+   */
+  const updateConditionalFormats = async (rules: ConditionalFormatRule[]) => {
+    const originalRules = conditionalFormats;
+    setConditionalFormats(rules);
+
+    try {
+      const response = await dataSource.updateConditionalFormats(reportId, rules);
+
+      if (response.status !== 200) {
+        console.error('Failed to update conditional formats:', response.message);
+        setConditionalFormats(originalRules);
+      }
+    } catch (error) {
+      console.error('Error updating conditional formats:', error);
+      setConditionalFormats(originalRules);
+    }
+  };
+
   // Load data on mount
   useEffect(() => {
     void fetchData();
   }, [fetchData]);
 
+  // Merge remote changes as they arrive. Selection and the cell being edited
+  // are tracked by position and ID outside of this data, so they are kept.
+  useEffect(() => {
+    if (!dataSource.subscribe) return;
+
+    return dataSource.subscribe(reportId, {
+      onReport: (report) => {
+        setData((prev) => {
+          // Snapshots can arrive after a newer save of ours was already applied
+          if (report.version < prev.version) return prev;
+
+          // Keep the formatting already loaded, only the values changed
+          const cellsFormatting = Array.from(prev.cellMetadata.values()).flatMap((metadata) =>
+            metadata.formatting ? [metadata.formatting] : []
+          );
+          const data = assignStableIds(report.data) ?? report.data;
+          return buildAdapterOutput(reportId, { data, version: report.version }, cellsFormatting);
+        });
+      },
+      onCellsMetadata: (cells) => {
+        setData((prev) => ({
+          ...prev,
+          cellMetadata: mergeCellsFormatting(prev.cellMetadata, cells),
+        }));
+      },
+      onConditionalFormats: setConditionalFormats,
+      onError: (message) => {
+        console.error('Lost realtime connection to the report:', message);
+      },
+    });
+  }, [reportId, dataSource]);
+
   return {
     data,
     setData,
@@ -171,5 +275,7 @@ export const useReportData = (reportId: string) => {
     refreshData,
     updateCellFormatting,
     updateMultipleCellsFormatting,
+    conditionalFormats,
+    updateConditionalFormats,
   };
 }; 
\ No newline at end of file
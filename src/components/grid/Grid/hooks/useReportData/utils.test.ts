@@ -0,0 +1,184 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  assignStableIds,
+  buildAdapterOutput,
+  createGenericAdapter,
+  mergeCellsFormatting,
+  mergeMigratedCellKeys,
+  migrateLegacyCellKeys,
+} from './utils';
+import { ROW_ID_KEY } from '@/lib/cellKeys';
+import { createInMemoryDataSource } from '@/api/dataSources/memoryDataSource';
+import { createAPIResponse } from '@/api/utils';
+import type { ReportData } from '@/components/grid/types/common';
+
+const createLegacyReport = (): ReportData => ({
+  Values: {
+    columns: [
+      { name: 'Product', key: 'product' },
+      { name: '2020', key: '2020' },
+      { name: '2021', key: '2021' },
+    ],
+    items: [
+      { product: 'Product A', '2020': 100, '2021': 120 },
+      { product: 'Product B', '2020': 200, '2021': 180 },
+    ],
+  },
+});
+
+describe('assignStableIds', () => {
+  it('should assign positional row IDs and prefixed column IDs', () => {
+    const result = assignStableIds(createLegacyReport());
+
+    expect(result?.Values.items.map((item) => item[ROW_ID_KEY])).toEqual(['row-0', 'row-1']);
+    expect(result?.Values.columns).toEqual([
+      { name: 'Product', key: 'product' },
+      { name: '2020', key: '2020', id: 'values_2020' },
+      { name: '2021', key: '2021', id: 'values_2021' },
+    ]);
+  });
+
+  it('should keep the formulas and Total row settings of sections', () => {
+    const report = createLegacyReport();
+    report.Values.totalAggregate = 'average';
+    report.Values.formulas = { 'row-1': { '2021': '=B2*0.9' } };
+
+    const result = assignStableIds(report);
+
+    expect(result?.Values.totalAggregate).toBe('average');
+    expect(result?.Values.formulas).toEqual({ 'row-1': { '2021': '=B2*0.9' } });
+  });
+
+  it('should return null when the report already has IDs', () => {
+    const migrated = assignStableIds(createLegacyReport())!;
+
+    expect(assignStableIds(migrated)).toBeNull();
+  });
+});
+
+describe('migrateLegacyCellKeys', () => {
+  it('should re-key positional formatting to row and column IDs', () => {
+    const result = migrateLegacyCellKeys(
+      'r1',
+      [
+        { id: 'r1:1:2', bold: true },
+        { id: 'r1:row-0:values_2020', italic: true },
+        { id: 'other:0:0', bold: true },
+        { id: 'r1:5:0', bold: true },
+      ],
+      ['row-0', 'row-1'],
+      ['product', 'values_2020', 'values_2021']
+    );
+
+    expect(Array.from(result.values())).toEqual([
+      { id: 'r1:row-1:values_2021', bold: true },
+    ]);
+  });
+
+  it('should keep formatting already stored under the identity key', () => {
+    const result = migrateLegacyCellKeys(
+      'r1',
+      [
+        { id: 'r1:0:1', bold: true },
+        { id: 'r1:row-0:values_2020', italic: true },
+      ],
+      ['row-0'],
+      ['product', 'values_2020']
+    );
+
+    expect(result.size).toBe(0);
+  });
+});
+
+describe('mergeMigratedCellKeys', () => {
+  it('should replace legacy keys and keep formatting stored under identity keys', () => {
+    const cellsFormatting = [
+      { id: 'r1:1:2', bold: true },
+      { id: 'r1:row-0:values_2020', italic: true },
+    ];
+    const migratedCells = migrateLegacyCellKeys('r1', cellsFormatting, ['row-0', 'row-1'], ['product', 'values_2020', 'values_2021']);
+
+    expect(mergeMigratedCellKeys('r1', cellsFormatting, migratedCells)).toEqual([
+      { id: 'r1:row-0:values_2020', italic: true },
+      { id: 'r1:row-1:values_2021', bold: true },
+    ]);
+  });
+});
+
+describe('createGenericAdapter', () => {
+  it('should migrate legacy reports once and persist the IDs', async () => {
+    const dataSource = createInMemoryDataSource({
+      reports: { r1: createLegacyReport() },
+      cellsMetadata: { r1: [{ id: 'r1:1:1', bold: true }] },
+    });
+
+    const output = await createGenericAdapter('r1', dataSource);
+
+    expect(output.rows.map((row) => row[ROW_ID_KEY])).toEqual(['row-0', 'row-1']);
+    expect(output.cellMetadata.get('r1:row-1:values_2020')?.formatting?.bold).toBe(true);
+
+    const stored = await dataSource.getReport('r1');
+    expect(assignStableIds(stored.data!.data)).toBeNull();
+    expect(output.version).toBe(stored.data!.version);
+    const storedCells = await dataSource.getCellsMetadata('r1');
+    expect(storedCells.data.map((cell) => cell.id)).toContain('r1:row-1:values_2020');
+  });
+
+  it('should keep migrating until the formatting is stored', async () => {
+    const memoryDataSource = createInMemoryDataSource({
+      reports: { r1: createLegacyReport() },
+      cellsMetadata: { r1: [{ id: 'r1:1:1', bold: true }] },
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const updateCellsMetadata = vi.fn()
+      .mockResolvedValueOnce(createAPIResponse(false, 500, 'Unavailable'))
+      .mockImplementation(memoryDataSource.updateCellsMetadata);
+    const dataSource = { ...memoryDataSource, updateCellsMetadata };
+
+    await createGenericAdapter('r1', dataSource);
+    const legacy = await dataSource.getReport('r1');
+    expect(assignStableIds(legacy.data!.data)).not.toBeNull();
+
+    const output = await createGenericAdapter('r1', dataSource);
+    expect(output.cellMetadata.get('r1:row-1:values_2020')?.formatting?.bold).toBe(true);
+    const storedCells = await dataSource.getCellsMetadata('r1');
+    expect(storedCells.data.map((cell) => cell.id)).toContain('r1:row-1:values_2020');
+    const stored = await dataSource.getReport('r1');
+    expect(assignStableIds(stored.data!.data)).toBeNull();
+    vi.restoreAllMocks();
+  });
+
+  it('should keep formatting attached to rows by ID', async () => {
+    const report = assignStableIds(createLegacyReport())!;
+    // Reorder the stored items, formatting must follow the row
+    report.Values.items.reverse();
+    const dataSource = createInMemoryDataSource({
+      reports: { r1: report },
+      cellsMetadata: { r1: [{ id: 'r1:row-1:values_2020', bold: true }] },
+    });
+
+    const output = await createGenericAdapter('r1', dataSource);
+
+    expect(output.rows[0].product).toBe('Product B');
+    expect(output.cellMetadata.get('r1:row-1:values_2020')?.formatting?.bold).toBe(true);
+    expect(output.cellMetadata.get('r1:row-0:values_2020')?.formatting?.bold).toBeFalsy();
+  });
+});
+
+describe('mergeCellsFormatting', () => {
+  it('should apply remote formatting to known cells only', () => {
+    const report = assignStableIds(createLegacyReport())!;
+    const { cellMetadata } = buildAdapterOutput('r1', { data: report, version: 0 }, [
+      { id: 'r1:row-0:values_2020', bold: true },
+    ]);
+
+    const merged = mergeCellsFormatting(cellMetadata, [
+      { id: 'r1:row-0:values_2020', italic: true },
+      { id: 'r1:row-9:values_2020', bold: true },
+    ]);
+
+    expect(merged.get('r1:row-0:values_2020')?.formatting).toMatchObject({ bold: true, italic: true });
+    expect(merged.has('r1:row-9:values_2020')).toBe(false);
+    expect(cellMetadata.get('r1:row-0:values_2020')?.formatting?.italic).toBeUndefined();
+  });
+});
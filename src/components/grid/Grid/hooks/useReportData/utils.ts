@@ -1,11 +1,21 @@
-import type { ReportData, CellMetadata, CellFormatting } from '@/components/grid/types/common';
-import { getReportById } from '@/api/reports/reports';
-import { getAllCellsMetadata } from '@/api/cellsMetadata/cellsMetadata';
+import type {
+  ReportData,
+  ReportColumn,
+  ReportSection,
+  SectionType,
+  TotalAggregate,
+  CellMetadata,
+  CellFormatting,
+  VersionedReport,
+} from '@/components/grid/types/common';
+import type { ReportDataSource } from '@/api/dataSources/types';
 import { getMetadataForCell } from '@/components/grid/utils/formatting';
-import { generateCellKey } from '@/components/grid/utils/formatting';
+import { ROW_ID_KEY, generateCellKey } from '@/lib/cellKeys';
+import { computeDerivedValues, isTotalRow, linkDerivedColumns } from '@/components/grid/utils/derivedSections';
 
 /**
  * Generic flattened row format - works with any section names
+ * Every row carries its persistent ID under ROW_ID_KEY
  */
 export interface FlattenedRow {
   [key: string]: string | number;
@@ -17,16 +27,18 @@ export interface FlattenedRow {
 export interface SectionMetadata {
   name: string;
   columns: ColumnMetadata[];
-  type: 'product' | 'currency' | 'percentage' | 'growth' | 'other';
+  type: SectionType;
+  totalAggregate?: TotalAggregate; // As stored with the section, see getTotalAggregate
 }
 
 export interface ColumnMetadata {
-  id: string;           // Prefixed for internal use: 'values_2020'
+  id: string;           // Persistent column ID, prefixed by default: 'values_2020'
   name: string;         // Display name: '2020'
   originalKey: string;  // Original API key: '2020'
   originalSection: string; // Original section: 'Values'
   section: string;      // Display section: 'Values'
-  type: 'product' | 'currency' | 'percentage' | 'growth' | 'other';
+  type: SectionType;
+  derivedFrom?: string; // ID of the Values column a read-only derived column is computed from
 }
 
 /**
@@ -37,14 +49,18 @@ export interface AdapterOutput {
   sections: SectionMetadata[];
   columnOrder: string[];
   columnMapping: Map<string, ColumnMetadata>;
-  // Map of "row:column" to cell metadata
+  // Map of "report:rowId:columnId" to cell metadata
   cellMetadata: Map<string, CellMetadata>;
+  // Map of "report:rowId:columnId" to the formula of cells computed by one
+  formulas: Map<string, string>;
+  // Version of the report the rows were built from, sent with saves
+  version: number;
 }
 
 /**
  * Generic function to determine section type from section name
  */
-const inferSectionType = (sectionName: string): 'product' | 'currency' | 'percentage' | 'growth' | 'other' => {
+export const inferSectionType = (sectionName: string): SectionType => {
   const lowerName = sectionName.toLowerCase();
   
   if (lowerName.includes('growth') || lowerName.includes('yoy')) return 'growth';
@@ -55,6 +71,12 @@ const inferSectionType = (sectionName: string): 'product' | 'currency' | 'percen
   return 'other';
 };
 
+/**
+ * Type of a report section, as stored with it or implied by its name
+ */
+export const getSectionType = (sectionName: string, section: ReportSection): SectionType =>
+  section.type ?? inferSectionType(sectionName);
+
 /**
  * Generic function to create column prefix from section name
  */
@@ -66,6 +88,100 @@ const createColumnPrefix = (sectionName: string): string => {
     .substring(0, 10); // Limit length
 };
 
+/**
+ * Checks if a report column holds the product name
+ */
+export const isProductColumn = (col: ReportColumn): boolean => {
+  return col.key.toLowerCase().includes('product') || col.key === 'product';
+};
+
+/**
+ * Returns the persistent ID of a data column, falling back to the prefixed key
+ */
+const getColumnId = (sectionName: string, col: ReportColumn): string => {
+  return col.id ?? `${createColumnPrefix(sectionName)}_${col.key}`;
+};
+
+/**
+ * Assigns persistent IDs to rows and data columns that don't have one yet
+ * Existing rows get IDs derived from their position so that every client
+ * migrating the same legacy report produces the same IDs.
+ * Returns null when the report already carries all IDs.
+ */
+export const assignStableIds = (data: ReportData): ReportData | null => {
+  const needsMigration = Object.values(data).some(
+    (section) =>
+      section.items.some((item) => item[ROW_ID_KEY] === undefined) ||
+      section.columns.some((col) => !isProductColumn(col) && col.id === undefined)
+  );
+  if (!needsMigration) return null;
+
+  const migrated: ReportData = {};
+  for (const [sectionName, section] of Object.entries(data)) {
+    migrated[sectionName] = {
+      ...section,
+      columns: section.columns.map((col) =>
+        isProductColumn(col) ? col : { ...col, id: getColumnId(sectionName, col) }
+      ),
+      items: section.items.map((item, index) => ({
+        ...item,
+        [ROW_ID_KEY]: item[ROW_ID_KEY] ?? `row-${index}`,
+      })),
+    };
+  }
+  return migrated;
+};
+
+/**
+ * Stored formatting with the legacy positional keys replaced by their migrated cells
+ */
+export const mergeMigratedCellKeys = (
+  reportId: string,
+  cellsFormatting: CellFormatting[],
+  migratedCells: Map<string, CellFormatting>
+): CellFormatting[] => [
+  ...cellsFormatting.filter(({ id }) => parseLegacyCellKey(reportId, id) === null),
+  ...migratedCells.values(),
+];
+
+const LEGACY_KEY_PATTERN = /^(\d+):(\d+)$/;
+
+// Row and column positions of a legacy positional key of the report, null for other keys
+const parseLegacyCellKey = (reportId: string, cellKey: string): RegExpExecArray | null =>
+  cellKey.startsWith(`${reportId}:`) ? LEGACY_KEY_PATTERN.exec(cellKey.slice(reportId.length + 1)) : null;
+
+/**
+ * Re-keys formatting stored under legacy positional keys ("report:rowIndex:columnIndex")
+ * to identity keys ("report:rowId:columnId")
+ * Positions refer to the stored item order and the adapter's column order,
+ * which is how legacy keys were generated. Formatting already stored under an
+ * identity key is newer and wins over the legacy one.
+ */
+export const migrateLegacyCellKeys = (
+  reportId: string,
+  cellsFormatting: CellFormatting[],
+  rowIds: string[],
+  columnOrder: string[]
+): Map<string, CellFormatting> => {
+  const migrated = new Map<string, CellFormatting>();
+  const storedKeys = new Set(cellsFormatting.map(({ id }) => id));
+
+  for (const formatting of cellsFormatting) {
+    const match = parseLegacyCellKey(reportId, formatting.id);
+    if (!match) continue;
+
+    const rowId = rowIds[Number(match[1])];
+    const columnId = columnOrder[Number(match[2])];
+    if (rowId === undefined || columnId === undefined) continue;
+
+    const cellKey = generateCellKey(reportId, rowId, columnId);
+    if (storedKeys.has(cellKey)) continue;
+    migrated.set(cellKey, { ...formatting, id: cellKey });
+  }
+
+  return migrated;
+};
+
 /**
  * Helper function to determine cell type based on column and value
  */
@@ -106,39 +222,12 @@ const determineCellSection = (columnId: string, columnMeta: ColumnMetadata | nul
 };
 
 /**
- * Generic adapter that works with any multi-section data structure
- * Now fetches report and cell metadata from Firebase endpoints
+ * Builds the column layout of a report: ordered sections, column order and column mapping
  */
-export const createGenericAdapter = async (reportId: string): Promise<AdapterOutput> => {
-  // 1. Fetch report data by ID
-  const reportResponse = await getReportById(reportId);
-  if (reportResponse.status !== 200 || !reportResponse.data) {
-    throw new Error(`Failed to fetch report: ${reportResponse.message}`);
-  }
-  const data: ReportData = reportResponse.data;
-  
-  // 2. Fetch all cells metadata
-  const cellsMetadataResponse = await getAllCellsMetadata();
-  if (cellsMetadataResponse.status !== 200) {
-    throw new Error(`Failed to fetch cells metadata: ${cellsMetadataResponse.message}`);
-  }
-  const cellsFormatting: CellFormatting[] = cellsMetadataResponse.data;
-  
-  // Create a mapping from cell ID to formatting
-  const cellFormattingMap = new Map<string, CellFormatting>();
-  cellsFormatting.forEach(formatting => {
-    cellFormattingMap.set(formatting.id, formatting);
-  });
-  
-  // 3. Transform report data into table friendly format
+const buildColumnLayout = (data: ReportData) => {
   const sections: SectionMetadata[] = [];
   const columnOrder: string[] = [];
   const columnMapping = new Map<string, ColumnMetadata>();
-  const cellMetadata = new Map<string, CellMetadata>();
-  
-  // Find the primary section (usually the first one or one with most data)
-  const primarySectionKey = Object.keys(data)[0];
-  const primarySection = data[primarySectionKey];
   
   // Define the desired section order
   const sectionOrder = ['Product', 'Values', 'YoY Growth', 'Percent of Total'];
@@ -152,9 +241,7 @@ export const createGenericAdapter = async (reportId: string): Promise<AdapterOut
   // Find the product column from the first section that has it
   Object.entries(data).forEach(([sectionName, sectionData]) => {
     if (!productColumnMeta) {
-      const productCol = sectionData.columns.find(col => 
-        col.key.toLowerCase().includes('product') || col.key === 'product'
-      );
+      const productCol = sectionData.columns.find(isProductColumn);
       if (productCol) {
         productColumnMeta = {
           id: 'product',
@@ -180,21 +267,19 @@ export const createGenericAdapter = async (reportId: string): Promise<AdapterOut
   
   // Process each data section (excluding product columns)
   Object.entries(data).forEach(([sectionName, sectionData]) => {
-    const sectionType = inferSectionType(sectionName);
-    const prefix = createColumnPrefix(sectionName);
+    const sectionType = getSectionType(sectionName, sectionData);
     
     const sectionMetadata: SectionMetadata = {
       name: sectionName,
       columns: [],
       type: sectionType,
+      totalAggregate: sectionData.totalAggregate,
     };
     
     // Process columns in this section (skip product columns)
     sectionData.columns.forEach(col => {
-      const isProductColumn = col.key.toLowerCase().includes('product') || col.key === 'product';
-      
-      if (!isProductColumn) {
-        const columnId = `${prefix}_${col.key}`;
+      if (!isProductColumn(col)) {
+        const columnId = getColumnId(sectionName, col);
         const columnMeta: ColumnMetadata = {
           id: columnId,
           name: col.name,
@@ -228,6 +313,9 @@ export const createGenericAdapter = async (reportId: string): Promise<AdapterOut
   
   // Add sorted sections to the final sections array
   sections.push(...tempSections);
+
+  // Growth and share columns are computed from the Values section
+  linkDerivedColumns(sections);
   
   // Build columnOrder based on the sorted sections BEFORE processing cells
   tempSections.forEach(section => {
@@ -235,26 +323,111 @@ export const createGenericAdapter = async (reportId: string): Promise<AdapterOut
       columnOrder.push(column.id);
     });
   });
+
+  return { sections, columnOrder, columnMapping };
+};
+
+/**
+ * Report values and stored formatting as loaded from the data source
+ */
+interface ReportSource {
+  report: VersionedReport;
+  cellsFormatting: CellFormatting[];
+}
+
+/**
+ * Loads a report and its formatting from the data source
+ * Migrates legacy reports to persistent row and column IDs on the way.
+ */
+const loadReportSource = async (
+  reportId: string,
+  dataSource: ReportDataSource
+): Promise<ReportSource> => {
+  // 1. Fetch report data by ID
+  const reportResponse = await dataSource.getReport(reportId);
+  if (reportResponse.status !== 200 || !reportResponse.data) {
+    throw new Error(`Failed to fetch report: ${reportResponse.message}`);
+  }
+  // Legacy reports don't carry row and column IDs yet
+  const migratedData = assignStableIds(reportResponse.data.data);
+  const data: ReportData = migratedData ?? reportResponse.data.data;
+  let { version } = reportResponse.data;
   
+  // 2. Fetch the report's cells metadata
+  const cellsMetadataResponse = await dataSource.getCellsMetadata(reportId);
+  if (cellsMetadataResponse.status !== 200) {
+    throw new Error(`Failed to fetch cells metadata: ${cellsMetadataResponse.message}`);
+  }
+  let cellsFormatting: CellFormatting[] = cellsMetadataResponse.data;
+  
+  // Move formatting stored under positional keys over to the new identity keys
+  if (migratedData) {
+    const primarySection = data[Object.keys(data)[0]];
+    const rowIds = primarySection.items.map((item) => String(item[ROW_ID_KEY]));
+    const { columnOrder } = buildColumnLayout(data);
+    const migratedCells = migrateLegacyCellKeys(reportId, cellsFormatting, rowIds, columnOrder);
+    cellsFormatting = mergeMigratedCellKeys(reportId, cellsFormatting, migratedCells);
+
+    // Persist the formatting before the IDs, the migration runs again on the next load
+    // until the IDs are stored, so it can't be skipped while formatting is still unmigrated
+    const metadataUpdate = migratedCells.size > 0
+      ? await dataSource.updateCellsMetadata(reportId, migratedCells)
+      : null;
+    if (metadataUpdate && metadataUpdate.status !== 200) {
+      console.warn('Failed to persist migrated cell formatting:', metadataUpdate.message);
+    } else {
+      const reportUpdate = await dataSource.updateReport(reportId, data, version);
+      if (reportUpdate.status === 200 && reportUpdate.data !== null) {
+        version = reportUpdate.data;
+      } else {
+        console.warn('Failed to persist stable cell IDs:', reportUpdate.message);
+      }
+    }
+  }
+
+  return { report: { data, version }, cellsFormatting };
+};
+
+/**
+ * Transforms report values and stored formatting into the table friendly format
+ * Pure, so it can also rebuild the grid from realtime snapshots.
+ */
+export const buildAdapterOutput = (
+  reportId: string,
+  { data, version }: VersionedReport,
+  cellsFormatting: CellFormatting[]
+): AdapterOutput => {
+  const { sections, columnOrder, columnMapping } = buildColumnLayout(data);
+  const cellMetadata = new Map<string, CellMetadata>();
+  const formulas = new Map<string, string>();
+  
+  // Find the primary section (usually the first one or one with most data)
+  const primarySectionKey = Object.keys(data)[0];
+  const primarySection = data[primarySectionKey];
+  
+  // Create a mapping from cell ID to formatting
+  const cellFormattingMap = new Map<string, CellFormatting>();
+  cellsFormatting.forEach(formatting => {
+    cellFormattingMap.set(formatting.id, formatting);
+  });
+
   // 4. Create flattened rows and process cell metadata
   const rows: FlattenedRow[] = [];
   
   for (let rowIndex = 0; rowIndex < primarySection.items.length; rowIndex++) {
-    const row: FlattenedRow = {};
+    const rowId = String(primarySection.items[rowIndex][ROW_ID_KEY]);
+    const row: FlattenedRow = { [ROW_ID_KEY]: rowId };
     
     // Add data from each section
     for (const [sectionName, sectionData] of Object.entries(data)) {
-      const prefix = createColumnPrefix(sectionName);
       const item = sectionData.items[rowIndex];
       
       for (const col of sectionData.columns) {
-        const isProductColumn = col.key.toLowerCase().includes('product') || col.key === 'product';
-        
-        if (isProductColumn) {
+        if (isProductColumn(col)) {
           row.product = item[col.key];
           
           // Process metadata for product column
-          const cellKey = generateCellKey(reportId, rowIndex, 0);
+          const cellKey = generateCellKey(reportId, rowId, 'product');
           const columnMeta = columnMapping.get('product') ?? null;
           const cellType = determineCellType('product', columnMeta, item[col.key]);
           const cellSection = determineCellSection('product', columnMeta);
@@ -272,20 +445,23 @@ export const createGenericAdapter = async (reportId: string): Promise<AdapterOut
               ...getMetadataForCell(
                 'product',
                 'Product',
-                String(item[col.key]).toLowerCase() === 'total'
+                isTotalRow(row)
               ).formatting
             }
           };
           
           cellMetadata.set(cellKey, cellMetadataEntry);
         } else {
-          const columnId = `${prefix}_${col.key}`;
+          const columnId = getColumnId(sectionName, col);
           row[columnId] = item[col.key];
           
           // Process metadata for data columns
-          const columnPosition = columnOrder.indexOf(columnId);
-          if (columnPosition !== -1) {
-            const cellKey = generateCellKey(reportId, rowIndex, columnPosition);
+          if (columnOrder.includes(columnId)) {
+            const cellKey = generateCellKey(reportId, rowId, columnId);
+            const formula = sectionData.formulas?.[rowId]?.[col.key];
+            if (formula !== undefined) {
+              formulas.set(cellKey, formula);
+            }
             const columnMeta = columnMapping.get(columnId) ?? null;
             const cellType = determineCellType(columnId, columnMeta, item[col.key]);
             const cellSection = determineCellSection(columnId, columnMeta);
@@ -303,7 +479,7 @@ export const createGenericAdapter = async (reportId: string): Promise<AdapterOut
                 ...getMetadataForCell(
                   columnId,
                   sectionName,
-                  String(item[col.key]).toLowerCase() === 'total'
+                  isTotalRow(row)
                 ).formatting
               }
             };
@@ -318,10 +494,46 @@ export const createGenericAdapter = async (reportId: string): Promise<AdapterOut
   }
   
   return {
-    rows,
+    // The Total row and derived sections always reflect the current values, whatever was stored
+    rows: computeDerivedValues(rows, sections),
     sections,
     columnOrder,
     columnMapping,
     cellMetadata,
+    formulas,
+    version,
   };
-}; 
\ No newline at end of file
+};
+
+/**
+ * Applies formatting received from the data source on top of the current cell metadata
+ * Cells that aren't part of the grid are ignored, the input map is left untouched.
+ */
+export const mergeCellsFormatting = (
+  cellMetadata: Map<string, CellMetadata>,
+  cellsFormatting: CellFormatting[]
+): Map<string, CellMetadata> => {
+  const merged = new Map(cellMetadata);
+  for (const formatting of cellsFormatting) {
+    const metadata = merged.get(formatting.id);
+    if (metadata) {
+      merged.set(formatting.id, {
+        ...metadata,
+        formatting: { ...metadata.formatting, ...formatting },
+      });
+    }
+  }
+  return merged;
+};
+
+/**
+ * Generic adapter that works with any multi-section data structure
+ * Fetches report and cell metadata from the given data source
+ */
+export const createGenericAdapter = async (
+  reportId: string,
+  dataSource: ReportDataSource
+): Promise<AdapterOutput> => {
+  const { report, cellsFormatting } = await loadReportSource(reportId, dataSource);
+  return buildAdapterOutput(reportId, report, cellsFormatting);
+};
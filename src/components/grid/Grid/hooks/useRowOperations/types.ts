@@ -0,0 +1,23 @@
+import type { AdapterOutput } from "@/components/grid/Grid/hooks/useReportData/utils";
+import type { CellIdentity, CellPosition } from "@/components/grid/types/common";
+import type { UseSelectionReturn } from "../useSelection/types";
+import type { SaveReport } from "../useSaveReport/types";
+
+export interface UseRowOperationsProps {
+    data: AdapterOutput;
+    saveReport: SaveReport;
+    selectionHook: UseSelectionReturn;
+    resolveCell: (position: CellPosition) => CellIdentity | null;
+}
+
+// Where rows go relative to the row they are placed at
+export type RowPlacement = "above" | "below";
+
+export interface UseRowOperationsReturn {
+    // Rows an action on a row applies to: the selected rows when it is one of them
+    getTargetRowIds: (rowId: string) => string[];
+    // Each resolves to false when the save failed and the change was rolled back
+    insertRow: (anchorRowId: string, placement: RowPlacement) => Promise<boolean>;
+    deleteRows: (rowIds: string[]) => Promise<boolean>;
+    moveRows: (rowIds: string[], targetRowId: string, placement: RowPlacement) => Promise<boolean>;
+}
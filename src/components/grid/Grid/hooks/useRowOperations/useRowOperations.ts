@@ -0,0 +1,72 @@
+import { useCallback, useMemo } from 'react';
+import { ROW_ID_KEY } from '@/lib/cellKeys';
+import { getSelectedCells } from '@/components/grid/utils/formatting';
+import { isTotalRow } from '@/components/grid/utils/derivedSections';
+import { createRowId, insertRowId, moveRowIds, reorderReportRows } from './utils';
+import type { RowPlacement, UseRowOperationsProps, UseRowOperationsReturn } from './types';
+
+/**
+ * useRowOperations - Inserts, deletes and moves rows of the report
+ * Every section gets the same row order and the whole report is saved in one
+ * write, see useSaveReport. Formatting is keyed by row ID, so it moves along with its row.
+ */
+export const useRowOperations = ({
+  data,
+  saveReport,
+  selectionHook,
+  resolveCell,
+}: UseRowOperationsProps): UseRowOperationsReturn => {
+  // Rows in the stored order, positions in formulas refer to it
+  const rowIds = useMemo(() => data.rows.map((row) => String(row[ROW_ID_KEY])), [data.rows]);
+  const totalRowId = useMemo(() => {
+    const totalRow = data.rows.find(isTotalRow);
+    return totalRow ? String(totalRow[ROW_ID_KEY]) : null;
+  }, [data.rows]);
+
+  // Saves a new row order in every section, see reorderReportRows
+  const saveRowOrder = useCallback(
+    (nextRowIds: string[]) => saveReport((report) => reorderReportRows(report, nextRowIds)),
+    [saveReport]
+  );
+
+  const getTargetRowIds = useCallback((rowId: string): string[] => {
+    const selectedRowIds = new Set(
+      getSelectedCells(selectionHook).flatMap((position) => resolveCell(position)?.rowId ?? [])
+    );
+    return selectedRowIds.has(rowId)
+      ? rowIds.filter((id) => selectedRowIds.has(id) && id !== totalRowId)
+      : [rowId];
+  }, [selectionHook, resolveCell, rowIds, totalRowId]);
+
+  const insertRow = useCallback((anchorRowId: string, placement: RowPlacement) =>
+    // New rows always go above the Total row
+    saveRowOrder(insertRowId(rowIds, anchorRowId, anchorRowId === totalRowId ? 'above' : placement, createRowId())),
+  [saveRowOrder, rowIds, totalRowId]);
+
+  const deleteRows = useCallback(async (deletedRowIds: string[]) => {
+    // The Total row stays, it is computed from the other rows
+    const deleted = new Set(deletedRowIds.filter((rowId) => rowId !== totalRowId));
+    if (deleted.size === 0) return true;
+
+    selectionHook.clearSelection();
+    return saveRowOrder(rowIds.filter((rowId) => !deleted.has(rowId)));
+  }, [saveRowOrder, rowIds, totalRowId, selectionHook]);
+
+  const moveRows = useCallback(async (movedRowIds: string[], targetRowId: string, placement: RowPlacement) => {
+    const nextRowIds = moveRowIds(
+      rowIds,
+      movedRowIds.filter((rowId) => rowId !== totalRowId),
+      targetRowId,
+      // Nothing goes below the Total row
+      targetRowId === totalRowId ? 'above' : placement
+    );
+    if (!nextRowIds || nextRowIds.every((rowId, index) => rowId === rowIds[index])) return true;
+
+    return saveRowOrder(nextRowIds);
+  }, [saveRowOrder, rowIds, totalRowId]);
+
+  return useMemo(
+    () => ({ getTargetRowIds, insertRow, deleteRows, moveRows }),
+    [getTargetRowIds, insertRow, deleteRows, moveRows]
+  );
+};
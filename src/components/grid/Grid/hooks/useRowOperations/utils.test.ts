@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { insertRowId, moveRowIds, reorderReportRows } from './utils';
+import type { ReportData } from '@/components/grid/types/common';
+
+const reportData: ReportData = {
+  Values: {
+    columns: [
+      { key: 'product', name: 'Product' },
+      { key: '2020', name: '2020' },
+    ],
+    items: [
+      { rowId: 'row-a', product: 'A', '2020': 10 },
+      { rowId: 'row-b', product: 'B', '2020': 20 },
+      { rowId: 'row-c', product: 'C', '2020': 30 },
+    ],
+    formulas: {
+      'row-c': { '2020': '=B1+B2' },
+    },
+  },
+  'YoY Growth': {
+    columns: [
+      { key: 'product', name: 'Product' },
+      { key: '2021', name: '2021' },
+    ],
+    items: [
+      { rowId: 'row-a', product: 'A', '2021': 0.1 },
+      { rowId: 'row-b', product: 'B', '2021': 0.2 },
+      { rowId: 'row-c', product: 'C', '2021': 0.3 },
+    ],
+  },
+};
+
+const getIds = (data: ReportData, section: string) => data[section].items.map((item) => item.rowId);
+
+describe('reorderReportRows', () => {
+  it('should keep the items of every section aligned', () => {
+    const result = reorderReportRows(reportData, ['row-c', 'row-a', 'row-b']);
+
+    expect(getIds(result, 'Values')).toEqual(['row-c', 'row-a', 'row-b']);
+    expect(getIds(result, 'YoY Growth')).toEqual(['row-c', 'row-a', 'row-b']);
+    expect(result['YoY Growth'].items[0]).toEqual({ rowId: 'row-c', product: 'C', '2021': 0.3 });
+  });
+
+  it('should insert blank items for new rows in every section', () => {
+    const result = reorderReportRows(reportData, ['row-a', 'row-new', 'row-b', 'row-c']);
+
+    expect(result.Values.items[1]).toEqual({ rowId: 'row-new', product: '', '2020': '' });
+    expect(result['YoY Growth'].items[1]).toEqual({ rowId: 'row-new', product: '', '2021': '' });
+  });
+
+  it('should update formula references to the rows they pointed at', () => {
+    const result = reorderReportRows(reportData, ['row-a', 'row-new', 'row-b', 'row-c']);
+
+    expect(result.Values.formulas).toEqual({ 'row-c': { '2020': '=B1+B3' } });
+  });
+
+  it('should turn references to deleted rows into #REF!', () => {
+    const result = reorderReportRows(reportData, ['row-b', 'row-c']);
+
+    expect(getIds(result, 'Values')).toEqual(['row-b', 'row-c']);
+    expect(result.Values.formulas).toEqual({ 'row-c': { '2020': '=#REF!+B1' } });
+  });
+
+  it('should drop the formulas of deleted rows', () => {
+    const result = reorderReportRows(reportData, ['row-a', 'row-b']);
+
+    expect(result.Values.formulas).toEqual({});
+    expect(result['YoY Growth'].formulas).toBeUndefined();
+  });
+});
+
+describe('insertRowId', () => {
+  const rowIds = ['row-a', 'row-b', 'row-c'];
+
+  it('should insert above or below the anchor row', () => {
+    expect(insertRowId(rowIds, 'row-b', 'above', 'row-new')).toEqual(['row-a', 'row-new', 'row-b', 'row-c']);
+    expect(insertRowId(rowIds, 'row-b', 'below', 'row-new')).toEqual(['row-a', 'row-b', 'row-new', 'row-c']);
+  });
+
+  it('should append when the anchor row is unknown', () => {
+    expect(insertRowId(rowIds, 'missing', 'above', 'row-new')).toEqual([...rowIds, 'row-new']);
+  });
+});
+
+describe('moveRowIds', () => {
+  const rowIds = ['row-a', 'row-b', 'row-c', 'row-d'];
+
+  it('should move rows next to the target keeping their relative order', () => {
+    expect(moveRowIds(rowIds, ['row-d', 'row-a'], 'row-b', 'below')).toEqual(['row-b', 'row-a', 'row-d', 'row-c']);
+    expect(moveRowIds(rowIds, ['row-c'], 'row-a', 'above')).toEqual(['row-c', 'row-a', 'row-b', 'row-d']);
+  });
+
+  it('should return null when the target is one of the moved rows', () => {
+    expect(moveRowIds(rowIds, ['row-a', 'row-b'], 'row-b', 'above')).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import { ROW_ID_KEY } from '@/lib/cellKeys';
+import type { ReportData, ReportItem, ReportSection } from '@/components/grid/types/common';
+import { remapFormulaRows } from '@/components/grid/utils/formulas';
+
+/**
+ * New persistent row ID, unique across clients inserting rows at the same time
+ */
+export const createRowId = (): string => `row-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 9)}`;
+
+/**
+ * Item of a new row, with every column of the section empty
+ */
+const createBlankItem = (section: ReportSection, rowId: string): ReportItem => ({
+  ...Object.fromEntries(section.columns.map(({ key }) => [key, ''])),
+  [ROW_ID_KEY]: rowId,
+});
+
+/**
+ * Puts the rows of every section in the given order, so their items stay aligned
+ * Rows left out are deleted, IDs not in the report are inserted as blank rows.
+ * Formulas follow the rows they reference, references to deleted rows become #REF!.
+ */
+export const reorderReportRows = (data: ReportData, rowIds: string[]): ReportData => {
+  // Formulas refer to rows by their position in the first section, like the grid rows
+  const previousIds = (Object.values(data)[0]?.items ?? []).map((item) => String(item[ROW_ID_KEY]));
+  const newIndexById = new Map(rowIds.map((rowId, index) => [rowId, index]));
+  // References past the last row already point outside the report and stay as they are
+  const getRow = (row: number) => (row < previousIds.length ? newIndexById.get(previousIds[row]) ?? null : row);
+
+  return Object.fromEntries(
+    Object.entries(data).map(([sectionName, section]): [string, ReportSection] => {
+      const itemsById = new Map(section.items.map((item) => [String(item[ROW_ID_KEY]), item]));
+      const items = rowIds.map((rowId) => itemsById.get(rowId) ?? createBlankItem(section, rowId));
+
+      if (!section.formulas) {
+        return [sectionName, { ...section, items }];
+      }
+      const formulas = Object.fromEntries(
+        Object.entries(section.formulas)
+          .filter(([rowId]) => newIndexById.has(rowId))
+          .map(([rowId, rowFormulas]) => [
+            rowId,
+            Object.fromEntries(
+              Object.entries(rowFormulas).map(([key, formula]) => [key, remapFormulaRows(formula, getRow)])
+            ),
+          ])
+      );
+      return [sectionName, { ...section, items, formulas }];
+    })
+  );
+};
+
+/**
+ * Row order with a new row inserted above or below another row
+ */
+export const insertRowId = (
+  rowIds: string[],
+  anchorRowId: string,
+  placement: 'above' | 'below',
+  newRowId: string
+): string[] => {
+  const anchorIndex = rowIds.indexOf(anchorRowId);
+  const index = anchorIndex === -1 ? rowIds.length : anchorIndex + (placement === 'below' ? 1 : 0);
+  return [...rowIds.slice(0, index), newRowId, ...rowIds.slice(index)];
+};
+
+/**
+ * Row order with rows moved above or below a target row, keeping their relative order
+ * Returns null when the target is one of the moved rows.
+ */
+export const moveRowIds = (
+  rowIds: string[],
+  movedRowIds: string[],
+  targetRowId: string,
+  placement: 'above' | 'below'
+): string[] | null => {
+  const moved = new Set(movedRowIds);
+  if (moved.has(targetRowId)) return null;
+
+  const remaining = rowIds.filter((rowId) => !moved.has(rowId));
+  const index = remaining.indexOf(targetRowId) + (placement === 'below' ? 1 : 0);
+  return [...remaining.slice(0, index), ...rowIds.filter((rowId) => moved.has(rowId)), ...remaining.slice(index)];
+};
@@ -0,0 +1,26 @@
+import type { Dispatch, SetStateAction } from "react";
+import type { AdapterOutput } from "@/components/grid/Grid/hooks/useReportData/utils";
+import type { ReportData } from "@/components/grid/types/common";
+import type { ReportDataSource } from "@/api/dataSources/types";
+
+export interface UseSaveReportProps {
+    data: AdapterOutput;
+    onDataUpdate: Dispatch<SetStateAction<AdapterOutput>>;
+    dataSource: ReportDataSource;
+    reportId: string;
+    // Version of the report once pending cell changes are written, the save builds on it
+    getSavedVersion: () => Promise<number>;
+}
+
+// Structural change of the report: rows or columns added, removed, moved or renamed
+export type ReportTransform = (report: ReportData) => ReportData;
+
+// Resolves to false when the save failed and the change was rolled back
+export type SaveReport = (transform: ReportTransform) => Promise<boolean>;
+
+export interface UseSaveReportReturn {
+    saveReport: SaveReport;
+    // Why the last change was rolled back, shown until dismissed or the next save
+    saveError: string | null;
+    clearSaveError: () => void;
+}
@@ -0,0 +1,67 @@
+import { useCallback, useState } from 'react';
+import { buildAdapterOutput } from '@/components/grid/Grid/hooks/useReportData/utils';
+import { convertToSpreadsheetData } from '../useEditData/utils';
+import { withRecalculatedReport, withRemappedFormulaColumns } from './utils';
+import type { ReportTransform, UseSaveReportProps, UseSaveReportReturn } from './types';
+
+/**
+ * useSaveReport - Applies a structural change to the whole report and saves it in one write
+ * The grid is rebuilt from the changed report right away and rolled back when
+ * the save fails. Formulas are rewritten to the new column layout and every
+ * computed cell is recalculated, formatting follows the persistent IDs.
+ * Cell changes still being written go first, so the save builds on their version.
+ */
+export const useSaveReport = ({
+  data,
+  onDataUpdate,
+  dataSource,
+  reportId,
+  getSavedVersion,
+}: UseSaveReportProps): UseSaveReportReturn => {
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const saveReport = useCallback(async (transform: ReportTransform): Promise<boolean> => {
+    const previous = data;
+    const cellsFormatting = Array.from(data.cellMetadata.values()).flatMap((metadata) =>
+      metadata.formatting ? [metadata.formatting] : []
+    );
+    const report = transform(convertToSpreadsheetData(data, reportId));
+    const next = withRecalculatedReport(
+      withRemappedFormulaColumns(
+        buildAdapterOutput(reportId, { data: report, version: data.version }, cellsFormatting),
+        data.columnOrder
+      ),
+      reportId
+    );
+    onDataUpdate(next);
+    setSaveError(null);
+
+    let error: string;
+    try {
+      const baseVersion = Math.max(data.version, await getSavedVersion());
+      const response = await dataSource.updateReport(reportId, convertToSpreadsheetData(next, reportId), baseVersion);
+      if (response.status === 200 && response.data !== null) {
+        const version = response.data;
+        onDataUpdate((prev) => (prev.version >= version ? prev : { ...prev, version }));
+        return true;
+      }
+      // A conflict means someone else saved the report after the cells confirmed last
+      error = response.status === 409
+        ? 'Someone else changed the report at the same time. Your change was undone, try it again.'
+        : `Your change was undone: ${response.message || 'the report could not be saved'}.`;
+      console.error('Failed to save report:', response.message);
+    } catch (e) {
+      error = 'Your change was undone: the report could not be saved.';
+      console.error('Error saving report:', e);
+    }
+
+    // Rollback
+    onDataUpdate(previous);
+    setSaveError(error);
+    return false;
+  }, [data, reportId, dataSource, onDataUpdate, getSavedVersion]);
+
+  const clearSaveError = useCallback(() => setSaveError(null), []);
+
+  return { saveReport, saveError, clearSaveError };
+};
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { withRemappedFormulaColumns } from './utils';
+import type { AdapterOutput } from '@/components/grid/Grid/hooks/useReportData/utils';
+
+const createOutput = (columnOrder: string[], formulas: Array<[string, string]>) =>
+  ({ columnOrder, formulas: new Map(formulas) }) as AdapterOutput;
+
+describe('withRemappedFormulaColumns', () => {
+  it('should point formulas at the columns they referenced before', () => {
+    const output = createOutput(
+      ['product', 'values_2022', 'values_2023', 'values_2024'],
+      [['r1:row-0:values_2024', '=C1*1.1+SUM(B1:C1)']]
+    );
+
+    const result = withRemappedFormulaColumns(output, ['product', 'values_2023', 'values_2024']);
+
+    expect(result.formulas.get('r1:row-0:values_2024')).toBe('=D1*1.1+SUM(C1:D1)');
+  });
+
+  it('should turn references to deleted columns into #REF!', () => {
+    const output = createOutput(['product', 'values_2024'], [['r1:row-0:values_2024', '=B1+C1']]);
+
+    const result = withRemappedFormulaColumns(output, ['product', 'values_2023', 'values_2024']);
+
+    expect(result.formulas.get('r1:row-0:values_2024')).toBe('=#REF!+B1');
+  });
+
+  it('should return the output as it is when the columns stayed in place', () => {
+    const output = createOutput(['product', 'values_2024'], [['r1:row-0:values_2024', '=B2']]);
+
+    expect(withRemappedFormulaColumns(output, ['product', 'values_2024'])).toBe(output);
+  });
+});
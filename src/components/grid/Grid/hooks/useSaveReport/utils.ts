@@ -0,0 +1,67 @@
+import type { AdapterOutput } from '@/components/grid/Grid/hooks/useReportData/utils';
+import { ROW_ID_KEY, generateCellKey } from '@/lib/cellKeys';
+import { remapFormulaColumns } from '@/components/grid/utils/formulas';
+import { withDerivedValues, withRecalculatedFormulas } from '../useEditData/utils';
+import type { CellValueChange } from '../useEditData/types';
+
+/**
+ * Rewrites the column letters of every formula once columns were added,
+ * deleted or moved, so they keep pointing at the same columns
+ * References to deleted columns become #REF!.
+ */
+export const withRemappedFormulaColumns = (adapterOutput: AdapterOutput, previousColumnOrder: string[]): AdapterOutput => {
+  const { columnOrder } = adapterOutput;
+  if (columnOrder.length === previousColumnOrder.length && columnOrder.every((id, index) => id === previousColumnOrder[index])) {
+    return adapterOutput;
+  }
+
+  // References past the last column already point outside the report and stay as they are
+  const getColumn = (column: number) => {
+    if (column >= previousColumnOrder.length) return column;
+    const index = columnOrder.indexOf(previousColumnOrder[column]);
+    return index === -1 ? null : index;
+  };
+  return {
+    ...adapterOutput,
+    formulas: new Map(
+      Array.from(adapterOutput.formulas, ([cellKey, formula]) => [cellKey, remapFormulaColumns(formula, getColumn)])
+    ),
+  };
+};
+
+/**
+ * Recalculates every formula of the grid along with the Total row and derived
+ * cells reading them, as needed once rows or columns moved under the formulas
+ */
+export const withRecalculatedReport = (adapterOutput: AdapterOutput, reportId: string): AdapterOutput => {
+  const formulaChanges = adapterOutput.rows.flatMap((row) => {
+    const rowId = String(row[ROW_ID_KEY]);
+    return adapterOutput.columnOrder.flatMap((columnId): CellValueChange[] => {
+      const formula = adapterOutput.formulas.get(generateCellKey(reportId, rowId, columnId));
+      return formula === undefined ? [] : [{ identity: { rowId, columnId }, value: row[columnId] ?? '', formula }];
+    });
+  });
+  if (formulaChanges.length === 0) return adapterOutput;
+
+  // Same order as saving values: formulas, the cells computed from them, formulas reading those
+  const changes = withRecalculatedFormulas(
+    adapterOutput,
+    reportId,
+    withDerivedValues(adapterOutput, withRecalculatedFormulas(adapterOutput, reportId, formulaChanges))
+  );
+
+  const changedValuesByRow = new Map<string, Record<string, string | number>>();
+  for (const { identity, value } of changes) {
+    changedValuesByRow.set(identity.rowId, {
+      ...changedValuesByRow.get(identity.rowId),
+      [identity.columnId]: value,
+    });
+  }
+  return {
+    ...adapterOutput,
+    rows: adapterOutput.rows.map((row) => {
+      const changedValues = changedValuesByRow.get(String(row[ROW_ID_KEY]));
+      return changedValues ? { ...row, ...changedValues } : row;
+    }),
+  };
+};
@@ -0,0 +1,15 @@
+import type { RefObject } from "react";
+import type { Table } from "@tanstack/react-table";
+import type { Virtualizer } from "@tanstack/react-virtual";
+import type { FlattenedRow } from "@/components/grid/Grid/hooks/useReportData/utils";
+import type { CellPosition, SelectionState } from "@/components/grid/types/common";
+
+export interface UseScrollToActiveCellProps {
+    table: Table<FlattenedRow>;
+    rowVirtualizer: Virtualizer<HTMLDivElement, Element>;
+    tableContainerRef: RefObject<HTMLDivElement | null>;
+    // Column IDs by position, positions index into this order
+    columnOrder: string[];
+    selectionState: SelectionState;
+    editingCell: CellPosition | null;
+  }
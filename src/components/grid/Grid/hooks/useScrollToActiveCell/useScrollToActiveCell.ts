@@ -0,0 +1,61 @@
+import { useEffect } from 'react';
+import { useEventCallback } from 'usehooks-ts';
+import type { CellPosition } from '@/components/grid/types/common';
+import { getSelectionFocus } from '../useKeyboardEvents/utils';
+import type { UseScrollToActiveCellProps } from './types';
+
+/**
+ * useScrollToActiveCell - Keeps the cell the user works with inside the viewport
+ * Rows outside the viewport aren't rendered by the virtualizer, so the row is
+ * scrolled to through the virtualizer and the column through the container.
+ * Follows the active cell (Tab/Enter navigation, edits) and the moving corner
+ * of a range (Shift+Arrow extension). Scrolling reads the virtualizer and
+ * column sizes at the time, only a change of cell scrolls.
+ */
+export const useScrollToActiveCell = ({
+  table,
+  rowVirtualizer,
+  tableContainerRef,
+  columnOrder,
+  selectionState,
+  editingCell,
+}: UseScrollToActiveCellProps) => {
+  const scrollToCell = useEventCallback((position: CellPosition) => {
+    const container = tableContainerRef.current;
+    if (!container) return;
+
+    // 'auto' only scrolls when the row isn't fully visible
+    if (position.row >= 0 && position.row < rowVirtualizer.options.count) {
+      rowVirtualizer.scrollToIndex(position.row, { align: 'auto' });
+    }
+
+    const column = table.getColumn(columnOrder[position.column] ?? '');
+    if (!column) return;
+
+    const left = column.getStart();
+    const right = left + column.getSize();
+    if (left < container.scrollLeft) {
+      container.scrollLeft = left;
+    } else if (right > container.scrollLeft + container.clientWidth) {
+      container.scrollLeft = right - container.clientWidth;
+    }
+  });
+
+  const { activeCell } = selectionState;
+  const activeRow = activeCell?.row;
+  const activeColumn = activeCell?.column;
+  const focus = getSelectionFocus(selectionState);
+  const focusRow = focus?.row;
+  const focusColumn = focus?.column;
+
+  // Starting and finishing an edit brings the edited cell back into view
+  useEffect(() => {
+    if (activeRow === undefined || activeColumn === undefined) return;
+    scrollToCell({ row: activeRow, column: activeColumn });
+  }, [activeRow, activeColumn, editingCell, scrollToCell]);
+
+  useEffect(() => {
+    if (focusRow === undefined || focusColumn === undefined) return;
+    scrollToCell({ row: focusRow, column: focusColumn });
+  }, [focusRow, focusColumn, scrollToCell]);
+};
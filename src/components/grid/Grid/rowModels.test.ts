@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { createTable, getCoreRowModel } from "@tanstack/react-table";
+import type { ColumnFiltersState, SortingState } from "@tanstack/react-table";
+import { getFilteredRowModelWithTotal, getSortedRowModelWithTotalLast } from "./rowModels";
+import type { FlattenedRow, SectionMetadata } from "./hooks/useReportData/utils";
+import { createColumnFilterFn } from "../utils/columnFilters";
+
+const rows: FlattenedRow[] = [
+  { rowId: "row-0", product: "Product A", values_2020: 100 },
+  { rowId: "row-1", product: "Total", values_2020: 400 },
+  { rowId: "row-2", product: "Product B", values_2020: 300 },
+];
+
+const createSortedTable = (sorting: SortingState) => {
+  const table = createTable<FlattenedRow>({
+    data: rows,
+    columns: [
+      { id: "product", accessorKey: "product" },
+      { id: "values_2020", accessorKey: "values_2020" },
+    ],
+    getRowId: (row) => String(row.rowId),
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModelWithTotalLast(),
+    state: {},
+    onStateChange: () => {},
+    renderFallbackValue: null,
+  });
+  table.setOptions((prev) => ({ ...prev, state: { ...table.initialState, sorting } }));
+  return table;
+};
+
+describe("getSortedRowModelWithTotalLast", () => {
+  it("should keep the Total row at the bottom in both sort directions", () => {
+    const ascending = createSortedTable([{ id: "values_2020", desc: false }]);
+    const descending = createSortedTable([{ id: "values_2020", desc: true }]);
+
+    expect(ascending.getRowModel().rows.map((row) => row.id)).toEqual(["row-0", "row-2", "row-1"]);
+    expect(descending.getRowModel().rows.map((row) => row.id)).toEqual(["row-2", "row-0", "row-1"]);
+  });
+
+  it("should pin the Total row without sorting and keep the model between calls", () => {
+    const table = createSortedTable([]);
+
+    expect(table.getRowModel().rows.map((row) => row.id)).toEqual(["row-0", "row-2", "row-1"]);
+    expect(table.getRowModel()).toBe(table.getRowModel());
+  });
+});
+
+describe("getFilteredRowModelWithTotal", () => {
+  const sections: SectionMetadata[] = [
+    {
+      name: "Values",
+      type: "currency",
+      columns: [{ id: "values_2020", name: "2020", originalKey: "2020", originalSection: "Values", section: "Values", type: "currency" }],
+    },
+  ];
+
+  const createFilteredTable = (columnFilters: ColumnFiltersState) => {
+    const filterFn = createColumnFilterFn(rows);
+    const table = createTable<FlattenedRow>({
+      data: rows,
+      columns: [
+        { id: "product", accessorKey: "product", filterFn },
+        { id: "values_2020", accessorKey: "values_2020", filterFn },
+      ],
+      getRowId: (row) => String(row.rowId),
+      getCoreRowModel: getCoreRowModel(),
+      getFilteredRowModel: getFilteredRowModelWithTotal(),
+      getSortedRowModel: getSortedRowModelWithTotalLast(),
+      meta: { sections },
+      state: {},
+      onStateChange: () => {},
+      renderFallbackValue: null,
+    });
+    table.setOptions((prev) => ({ ...prev, state: { ...table.initialState, columnFilters } }));
+    return table;
+  };
+
+  it("should keep the Total row and recompute it over the filtered rows", () => {
+    const table = createFilteredTable([{ id: "values_2020", value: { type: "greaterThan", value: 150 } }]);
+    const displayed = table.getRowModel().rows;
+
+    expect(displayed.map((row) => row.id)).toEqual(["row-2", "row-1"]);
+    expect(displayed[1].getValue("values_2020")).toBe(300);
+    expect(table.getRowModel()).toBe(table.getRowModel());
+  });
+
+  it("should keep the stored Total row without filters", () => {
+    const table = createFilteredTable([]);
+    expect(table.getRowModel().rows[2].original).toBe(rows[1]);
+  });
+});
@@ -0,0 +1,110 @@
+import { createRow, getFilteredRowModel, getSortedRowModel } from "@tanstack/react-table";
+import type { RowData, RowModel, Table } from "@tanstack/react-table";
+import type { FlattenedRow, SectionMetadata } from "./hooks/useReportData/utils";
+import { isTotalRow } from "../utils/derivedSections";
+import { computeFilteredTotalRow } from "../utils/columnFilters";
+
+declare module "@tanstack/react-table" {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface TableMeta<TData extends RowData> {
+    // Sections of the report, the filtered Total row is recomputed with them
+    sections?: SectionMetadata[];
+  }
+}
+
+/**
+ * Moves the Total row to the end of a row model
+ */
+const moveTotalRowLast = (rowModel: RowModel<FlattenedRow>): RowModel<FlattenedRow> => {
+  const totalIndex = rowModel.rows.findIndex((row) => isTotalRow(row.original));
+  if (totalIndex === -1 || totalIndex === rowModel.rows.length - 1) return rowModel;
+
+  const totalRow = rowModel.rows[totalIndex];
+  const withTotalLast = (rows: typeof rowModel.rows) => [...rows.filter((row) => row !== totalRow), totalRow];
+  return {
+    ...rowModel,
+    rows: withTotalLast(rowModel.rows),
+    flatRows: withTotalLast(rowModel.flatRows),
+  };
+};
+
+/**
+ * TanStack's sorted row model with the Total row pinned to the bottom
+ * in every sort order. The result is cached per sorted model, so the row
+ * model keeps its identity between renders like the one it wraps.
+ */
+export const getSortedRowModelWithTotalLast = (): ((
+  table: Table<FlattenedRow>
+) => () => RowModel<FlattenedRow>) => {
+  const getSorted = getSortedRowModel<FlattenedRow>();
+
+  return (table) => {
+    const getSortedModel = getSorted(table);
+    let sortedModel: RowModel<FlattenedRow> | null = null;
+    let pinnedModel: RowModel<FlattenedRow> | null = null;
+
+    return () => {
+      const model = getSortedModel();
+      if (model !== sortedModel || !pinnedModel) {
+        sortedModel = model;
+        pinnedModel = moveTotalRowLast(model);
+      }
+      return pinnedModel;
+    };
+  };
+};
+
+/**
+ * Replaces the Total row of a filtered row model with one computed over the
+ * rows the filters left, the stored Total row covers all rows
+ */
+const recomputeTotalRow = (
+  table: Table<FlattenedRow>,
+  rowModel: RowModel<FlattenedRow>
+): RowModel<FlattenedRow> => {
+  const totalIndex = rowModel.rows.findIndex((row) => isTotalRow(row.original));
+  if (totalIndex === -1) return rowModel;
+
+  const totalRow = rowModel.rows[totalIndex];
+  const original = computeFilteredTotalRow(
+    rowModel.rows.map((row) => row.original),
+    table.options.meta?.sections ?? []
+  );
+  if (!original || original === totalRow.original) return rowModel;
+
+  const filteredTotalRow = createRow(table, totalRow.id, original, totalRow.index, totalRow.depth);
+  const replaceTotal = (rows: typeof rowModel.rows) => rows.map((row) => (row === totalRow ? filteredTotalRow : row));
+  return {
+    rows: replaceTotal(rowModel.rows),
+    flatRows: replaceTotal(rowModel.flatRows),
+    rowsById: { ...rowModel.rowsById, [totalRow.id]: filteredTotalRow },
+  };
+};
+
+/**
+ * TanStack's filtered row model, filters keep the Total row (see createColumnFilterFn)
+ * and it is recomputed over the rows that are left. Without filters the model
+ * is the unfiltered one as is. Cached per filtered model like the sorted one.
+ */
+export const getFilteredRowModelWithTotal = (): ((
+  table: Table<FlattenedRow>
+) => () => RowModel<FlattenedRow>) => {
+  const getFiltered = getFilteredRowModel<FlattenedRow>();
+
+  return (table) => {
+    const getFilteredModel = getFiltered(table);
+    let filteredModel: RowModel<FlattenedRow> | null = null;
+    let totalModel: RowModel<FlattenedRow> | null = null;
+
+    return () => {
+      const model = getFilteredModel();
+      if (table.getState().columnFilters.length === 0) return model;
+
+      if (model !== filteredModel || !totalModel) {
+        filteredModel = model;
+        totalModel = recomputeTotalRow(table, model);
+      }
+      return totalModel;
+    };
+  };
+};
@@ -1,35 +1,187 @@
 import { createColumnHelper } from "@tanstack/react-table";
-import type { ColumnDef } from "@tanstack/react-table";
+import type { Column, ColumnDef, Row, Table } from "@tanstack/react-table";
 import { ArrowUpDown, ChevronUp, ChevronDown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { SpreadsheetCell } from "./components/SpreadsheetCell/SpreadsheetCell";
+import { ColumnFilterMenu } from "./components/ColumnFilterMenu/ColumnFilterMenu";
+import { RowHeaderCell } from "./components/RowHeaderCell/RowHeaderCell";
+import { ColumnHeaderMenu } from "./components/ColumnHeaderMenu/ColumnHeaderMenu";
+import { SectionHeaderMenu } from "./components/SectionHeaderMenu/SectionHeaderMenu";
 import { getMetadataForCell } from "../utils/formatting";
+import { toColumnLetter } from "../utils/formulas";
+import { isTotalRow } from "../utils/derivedSections";
 import type { FlattenedRow, AdapterOutput } from "./hooks/useReportData/utils";
-import type { CellPosition } from "../types/common";
-import { generateCellKey } from "@/components/grid/utils/formatting";
-import { REPORT_ID } from "@/api";
+import type { CellPosition, ColumnFilter, ConditionalCellFormat } from "../types/common";
+import { createColumnFilterFn, getFilterOptions } from "../utils/columnFilters";
+import { getNextSorting, naturalSortingFn } from "../utils/sorting";
+import { generateCellKey } from "@/lib/cellKeys";
 
 const columnHelper = createColumnHelper<FlattenedRow>();
 
+// Display index lookup per row model, rebuilt only when sorting or data change
+const displayIndexCache = new WeakMap<Row<FlattenedRow>[], Map<string, number>>();
+
+/**
+ * Returns the row's position in the displayed (sorted) row model
+ * row.index is the position in the original data, which differs once sorted
+ */
+const getDisplayRowIndex = (
+  table: Table<FlattenedRow>,
+  row: Row<FlattenedRow>
+): number => {
+  const { rows } = table.getRowModel();
+  let indexById = displayIndexCache.get(rows);
+  if (!indexById) {
+    indexById = new Map(rows.map((displayRow, index) => [displayRow.id, index]));
+    displayIndexCache.set(rows, indexById);
+  }
+  return indexById.get(row.id) ?? row.index;
+};
+
+/**
+ * Column letter formulas use to refer to a column, shown next to its name
+ */
+const renderColumnLetter = (columnIndex: number) => (
+  <span className="mr-1 text-xs font-normal text-slate-400">
+    {toColumnLetter(columnIndex)}
+  </span>
+);
+
+/**
+ * Column name with its letter and sort direction, clicking sorts by the column
+ * alone and Shift+click adds it to the columns already sorted
+ */
+const renderSortButton = (
+  table: Table<FlattenedRow>,
+  column: Column<FlattenedRow>,
+  columnIndex: number,
+  columnName: string
+) => {
+  if (!column.getCanSort()) {
+    return (
+      <>
+        {renderColumnLetter(columnIndex)}
+        <span className="mr-1">{columnName}</span>
+      </>
+    );
+  }
+
+  const sortDirection = column.getIsSorted();
+  const isSorted = sortDirection !== false;
+
+  return (
+    <Button
+      variant="ghost"
+      onClick={(e) => table.setSorting((sorting) => getNextSorting(sorting, column.id, e.shiftKey))}
+      // Shift+click doesn't select the header text
+      onMouseDown={(e) => e.shiftKey && e.preventDefault()}
+      className={cn(
+        "h-auto p-1 font-semibold transition-all duration-200",
+        "hover:bg-slate-100 hover:text-slate-900",
+        "focus:outline-none",
+        "group"
+      )}
+    >
+      {renderColumnLetter(columnIndex)}
+      <span className="mr-1">{columnName}</span>
+      <div className="relative ml-1 flex items-center">
+        {!isSorted && (
+          <ArrowUpDown
+            className={cn(
+              "h-4 w-4 transition-all duration-200",
+              "text-slate-400 group-hover:text-slate-600",
+              "group-focus:text-slate-700"
+            )}
+          />
+        )}
+        {sortDirection === "asc" && (
+          <ChevronUp
+            className={cn(
+              "h-4 w-4 transition-all duration-200",
+              "text-blue-600 group-hover:text-blue-700",
+              "group-focus:text-blue-800"
+            )}
+          />
+        )}
+        {sortDirection === "desc" && (
+          <ChevronDown
+            className={cn(
+              "h-4 w-4 transition-all duration-200",
+              "text-blue-600 group-hover:text-blue-700",
+              "group-focus:text-blue-800"
+            )}
+          />
+        )}
+      </div>
+    </Button>
+  );
+};
+
+/**
+ * Filter button of a column header, numeric columns filter by conditions
+ * and columns with options by a checklist of their values
+ */
+const renderFilterMenu = (column: Column<FlattenedRow>, columnName: string, options?: string[]) => (
+  <ColumnFilterMenu
+    columnName={columnName}
+    filter={column.getFilterValue() as ColumnFilter | undefined}
+    onFilterChange={column.setFilterValue}
+    options={options}
+  />
+);
+
 export const createTableColumns = (
   adapterOutput: AdapterOutput,
-  createCellPosition: (row: number, col: number) => CellPosition
+  createCellPosition: (row: number, col: number) => CellPosition,
+  reportId: string,
+  // Result of the report's conditional formatting rules by cell key
+  conditionalFormats: Map<string, ConditionalCellFormat> = new Map()
 ): ColumnDef<FlattenedRow>[] => {
   const columns: ColumnDef<FlattenedRow>[] = [];
 
+  // Filters keep the Total row, top N is computed over all rows
+  const columnFilterFn = createColumnFilterFn(adapterOutput.rows);
+
+  // Row numbers formulas use to refer to a row, they follow the stored
+  // row order so references keep pointing at the same row when sorted
+  const rowNumberColumn = columnHelper.display({
+    id: "row-number",
+    header: "",
+    cell: ({ row, column, table }) => (
+      <RowHeaderCell
+        rowId={row.id}
+        rowNumber={row.index + 1}
+        displayRow={getDisplayRowIndex(table, row)}
+        isTotal={isTotalRow(row.original)}
+        // Dropped rows land where they are shown only in the stored order
+        canReorder={table.getState().sorting.length === 0}
+        size={column.getSize()}
+      />
+    ),
+    size: 48,
+  });
+
   // First, add the product column as a grouped column with empty header
   const productColumn = columnHelper.accessor("product", {
     id: "product",
-    header: "Product",
-    cell: ({ getValue, row, column }) => {
+    header: ({ column, table }) => (
+      <>
+        {renderSortButton(table, column, adapterOutput.columnOrder.indexOf("product"), "Product")}
+        {renderFilterMenu(column, "Product", getFilterOptions(adapterOutput.rows, "product"))}
+      </>
+    ),
+    cell: ({ getValue, row, column, table }) => {
       const value = getValue();
       const columnIndex = adapterOutput.columnOrder.indexOf("product");
-      const position = createCellPosition(row.index, columnIndex);
-      const isTotal = String(value).toLowerCase() === "total";
+      const position = createCellPosition(
+        getDisplayRowIndex(table, row),
+        columnIndex
+      );
+      const isTotal = isTotalRow(row.original);
 
-      // Get metadata from adapter output using correct key format
-      const cellKey = generateCellKey(REPORT_ID, row.index, columnIndex);
+      // Get metadata from adapter output using the row's persistent ID
+      const cellKey = generateCellKey(reportId, row.id, "product");
       const metadata =
         adapterOutput.cellMetadata.get(cellKey) ||
         getMetadataForCell("product", "product", isTotal);
@@ -39,12 +191,15 @@ export const createTableColumns = (
           rawValue={value}
           metadata={metadata}
           position={position}
+          conditionalFormat={conditionalFormats.get(cellKey)}
           columnKey="product"
           size={column.getSize()}
         />
       );
     },
     enableSorting: true,
+    sortingFn: naturalSortingFn,
+    filterFn: columnFilterFn,
     size: 200,
   });
 
@@ -52,7 +207,7 @@ export const createTableColumns = (
   const productGroup = columnHelper.group({
     id: "product-group",
     header: () => "", // Placeholder header - renders nothing
-    columns: [productColumn],
+    columns: [rowNumberColumn, productColumn],
   });
 
   columns.push(productGroup);
@@ -66,79 +221,24 @@ export const createTableColumns = (
       for (const col of section.columns) {
         const column = columnHelper.accessor(col.id, {
           id: col.id,
-          header: ({ column }) => {
-            if (column.getCanSort()) {
-              const sortDirection = column.getIsSorted();
-              const isSorted = sortDirection !== false;
-
-              return (
-                <Button
-                  variant="ghost"
-                  onClick={() => {
-                    const currentSort = column.getIsSorted();
-                    if (currentSort === false) {
-                      // No sort → Ascending
-                      column.toggleSorting(false);
-                    } else if (currentSort === "asc") {
-                      // Ascending → Descending
-                      column.toggleSorting(true);
-                    } else {
-                      // Descending → No sort
-                      column.clearSorting();
-                    }
-                  }}
-                  className={cn(
-                    "h-auto p-1 font-semibold transition-all duration-200",
-                    "hover:bg-slate-100 hover:text-slate-900",
-                    "focus:outline-none",
-                    "group"
-                  )}
-                >
-                  <span className="mr-1">{col.name}</span>
-                  <div className="relative ml-1 flex items-center">
-                    {!isSorted && (
-                      <ArrowUpDown
-                        className={cn(
-                          "h-4 w-4 transition-all duration-200",
-                          "text-slate-400 group-hover:text-slate-600",
-                          "group-focus:text-slate-700"
-                        )}
-                      />
-                    )}
-                    {sortDirection === "asc" && (
-                      <ChevronUp
-                        className={cn(
-                          "h-4 w-4 transition-all duration-200",
-                          "text-blue-600 group-hover:text-blue-700",
-                          "group-focus:text-blue-800"
-                        )}
-                      />
-                    )}
-                    {sortDirection === "desc" && (
-                      <ChevronDown
-                        className={cn(
-                          "h-4 w-4 transition-all duration-200",
-                          "text-blue-600 group-hover:text-blue-700",
-                          "group-focus:text-blue-800"
-                        )}
-                      />
-                    )}
-                  </div>
-                </Button>
-              );
-            } else {
-              return col.name;
-            }
-          },
-          cell: ({ getValue, row, column }) => {
+          // Right click adds, renames and deletes columns
+          header: ({ column, table }) => (
+            <ColumnHeaderMenu column={col}>
+              {renderSortButton(table, column, adapterOutput.columnOrder.indexOf(col.id), col.name)}
+              {renderFilterMenu(column, `${section.name} ${col.name}`)}
+            </ColumnHeaderMenu>
+          ),
+          cell: ({ getValue, row, column, table }) => {
             const value = getValue();
             const columnIndex = adapterOutput.columnOrder.indexOf(col.id);
-            const position = createCellPosition(row.index, columnIndex);
-            const isTotal =
-              String(row.original.product).toLowerCase() === "total";
+            const position = createCellPosition(
+              getDisplayRowIndex(table, row),
+              columnIndex
+            );
+            const isTotal = isTotalRow(row.original);
 
-            // Get metadata from adapter output using correct key format
-            const cellKey = generateCellKey(REPORT_ID, row.index, columnIndex);
+            // Get metadata from adapter output using the row's persistent ID
+            const cellKey = generateCellKey(reportId, row.id, col.id);
             const metadata =
               adapterOutput.cellMetadata.get(cellKey) ||
               getMetadataForCell(col.id, col.originalSection, isTotal);
@@ -148,12 +248,15 @@ export const createTableColumns = (
                 rawValue={value}
                 metadata={metadata}
                 position={position}
+                conditionalFormat={conditionalFormats.get(cellKey)}
                 columnKey={col.originalKey}
                 size={column.getSize()}
               />
             );
           },
           enableSorting: true,
+          sortingFn: naturalSortingFn,
+          filterFn: columnFilterFn,
         });
 
         groupColumns.push(column as ColumnDef<FlattenedRow>);
@@ -163,7 +266,8 @@ export const createTableColumns = (
       if (groupColumns.length > 0) {
         const groupColumn = columnHelper.group({
           id: section.name,
-          header: section.name,
+          // Right click adds, renames and deletes sections
+          header: () => <SectionHeaderMenu section={section}>{section.name}</SectionHeaderMenu>,
           columns: groupColumns,
         });
 
@@ -0,0 +1,42 @@
+import { createContext, use } from "react";
+import type { ReactNode } from "react";
+import type { ReportDataSource } from "@/api/dataSources/types";
+import type { CellPosition } from "../types/common";
+import type { UseRowOperationsReturn } from "../Grid/hooks/useRowOperations/types";
+import type { UseColumnOperationsReturn } from "../Grid/hooks/useColumnOperations/types";
+
+export interface ReportContextValue {
+  // Report shown by the grid, also the namespace of its cell keys
+  reportId: string;
+  // Backend the report is loaded from and saved to
+  dataSource: ReportDataSource;
+  // Resolves a position in the displayed grid to the key of the cell shown there
+  getCellKey: (position: CellPosition) => string | null;
+  // Inserts, deletes and moves rows from the row headers
+  rowOperations: UseRowOperationsReturn;
+  // Adds, renames and deletes columns and sections from the column headers
+  columnOperations: UseColumnOperationsReturn;
+}
+
+const ReportContext = createContext<ReportContextValue | null>(null);
+
+// eslint-disable-next-line react-refresh/only-export-components
+export const useReportContext = () => {
+  const context = use(ReportContext);
+  if (!context) {
+    throw new Error("useReportContext must be used within ReportProvider");
+  }
+  return context;
+};
+
+interface ReportProviderProps {
+  children: ReactNode;
+  value: ReportContextValue;
+}
+
+export const ReportProvider: React.FC<ReportProviderProps> = ({
+  children,
+  value,
+}) => {
+  return <ReportContext value={value}>{children}</ReportContext>;
+};
@@ -1,6 +1,7 @@
 import { createContext, use } from "react";
 import type { ReactNode } from "react";
-import type { SelectionState, CellPosition } from "../types/common";
+import type { SelectionState, CellPosition, CellIdentity } from "../types/common";
+import type { EditConflict } from "../Grid/hooks/useEditData/types";
 
 export interface SelectionContextValue {
   // Selection state
@@ -35,6 +36,21 @@ export interface SelectionContextValue {
   saveEdit: () => Promise<void>;
   updateEditValue: (value: string) => void;
   isCellEditing: (position: CellPosition) => boolean;
+  isCellReadOnly: (position: CellPosition) => boolean;
+
+  // Conflicts with changes made by someone else
+  getCellConflict: (position: CellPosition) => EditConflict | null;
+  resolveConflict: (identity: CellIdentity, keep: "theirs" | "mine") => Promise<void>;
+
+  // Find results to highlight
+  getFindMatch: (position: CellPosition) => "match" | "current" | null;
+
+  // Fill handle drawn on the bottom right cell of the selection
+  fillHandleCell: CellPosition | null;
+  isFilling: boolean;
+  isCellInFillRange: (position: CellPosition) => boolean;
+  startFill: () => void;
+  updateFill: (position: CellPosition) => void;
 }
 
 const SelectionContext = createContext<SelectionContextValue | null>(null);
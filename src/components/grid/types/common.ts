@@ -6,26 +6,71 @@
 export interface ReportColumn {
   name: string;
   key: string;
+  // Persistent column ID, stays the same when the column moves or is renamed
+  id?: string;
 }
 
 export interface ReportItem {
   [key: string]: string | number;
 }
 
+// How the Total row of a section is computed from the other rows
+export type TotalAggregate = 'sum' | 'average' | 'min' | 'max' | 'none';
+
+// Kind of values a section holds, decides formatting, derived columns and the Total row
+export type SectionType = 'product' | 'currency' | 'percentage' | 'growth' | 'other';
+
 export interface ReportSection {
   columns: ReportColumn[];
   items: ReportItem[];
+  // Only stored when the section name doesn't imply it, e.g. after a rename
+  type?: SectionType;
+  // Defaults to 'sum' for Values and to the derived computation for derived sections
+  totalAggregate?: TotalAggregate;
+  // Formula text by row ID and column key, the items hold their last result
+  formulas?: { [rowId: string]: { [key: string]: string } };
 }
 
 export interface ReportData {
   [sectionKey: string]: ReportSection;
 }
 
+// Report values together with the revision they were read at
+export interface VersionedReport {
+  data: ReportData;
+  version: number;        // Incremented by every save
+}
+
+// Single cell change sent to the backend instead of the whole report
+export interface CellPatch {
+  section: string;        // Original section name: 'Values'
+  rowId: string;          // Persistent row ID of the item
+  key: string;            // Original column key: '2020'
+  value: string | number;
+  baseValue?: string | number; // Value the change was made on, used to detect concurrent edits
+  formula?: string | null; // Formula producing the value, null removes it, undefined leaves it as is
+}
+
+// Cell changed by someone else since the saving client last read it
+export interface CellConflict {
+  section: string;
+  rowId: string;
+  key: string;
+  theirValue: string | number; // Value currently stored
+  yourValue: string | number;  // Value the rejected save tried to write
+}
+
 export interface CellPosition {
   row: number;
   column: number;
 }
 
+// Persistent identity of a cell, independent of sorting and row/column order
+export interface CellIdentity {
+  rowId: string;
+  columnId: string;
+}
+
 export interface CellRange {
   start: CellPosition;
   end: CellPosition;
@@ -48,6 +93,17 @@ export interface SelectionState {
   activeCell: CellPosition | null;
 }
 
+// How a numeric cell displays its value, always stored with every field set
+export interface NumberFormat {
+  decimals: number;                           // Digits after the decimal point
+  thousandsSeparator: boolean;                // 1,234 instead of 1234
+  notation: 'full' | 'compact';               // compact shows 1.2K, 3.4M, 5.6B
+  negative: 'minus' | 'parentheses' | 'red';  // -5, (5) or -5 in red
+  currency: string;                           // ISO code of currency cells: 'USD', 'EUR'
+  currencyDisplay: 'symbol' | 'code';         // $5 or USD 5
+  percentScale: 'percent' | 'fraction';       // Percentage cells store 12.5 or 0.125 for 12.5%
+}
+
 export interface CellFormatting {
   id: string;
   bold?: boolean;
@@ -56,8 +112,56 @@ export interface CellFormatting {
   alignment?: 'left' | 'center' | 'right';
   backgroundColor?: string;
   textColor?: string;
+  // Unset cells use the default display of their type
+  numberFormat?: NumberFormat;
 }
 
+// When a conditional formatting rule applies to a cell
+export type ConditionalFormatCondition =
+  | { type: 'greaterThan'; value: number }
+  | { type: 'lessThan'; value: number }
+  | { type: 'between'; min: number; max: number }
+  | { type: 'top'; count: number }
+  | { type: 'bottom'; count: number }
+  | { type: 'negative' }
+  // Rules below style every cell by its value relative to the other cells of the rule
+  | { type: 'colorScale'; minColor: string; maxColor: string }
+  | { type: 'dataBar'; color: string }
+  | { type: 'iconSet'; icons: 'arrows' | 'circles' };
+
+// Formatting added to the cells matching a highlight rule
+export interface ConditionalFormatStyle {
+  backgroundColor?: string;
+  textColor?: string;
+  bold?: boolean;
+}
+
+// Rule-based formatting of a report, rules listed first take priority
+export interface ConditionalFormatRule {
+  id: string;
+  // Columns the rule applies to by persistent column ID
+  columnIds: string[];
+  // Rows the rule applies to by persistent row ID, every row when unset
+  rowIds?: string[];
+  condition: ConditionalFormatCondition;
+  // Used by the highlight conditions: greaterThan, lessThan, between, top, bottom, negative
+  style?: ConditionalFormatStyle;
+}
+
+// Result of the conditional formatting rules for one cell, drawn over its stored formatting
+export interface ConditionalCellFormat extends ConditionalFormatStyle {
+  dataBar?: { color: string; width: number };  // Width in percent of the cell
+  icon?: { name: 'arrow-up' | 'arrow-right' | 'arrow-down' | 'circle'; color: string };
+}
+
+// Rows a column filter keeps, the Total row is always kept
+export type ColumnFilter =
+  | { type: 'values'; values: string[] }  // Rows whose value is one of these, as displayed text
+  | { type: 'greaterThan'; value: number }
+  | { type: 'lessThan'; value: number }
+  | { type: 'between'; min: number; max: number }
+  | { type: 'top'; count: number };
+
 export interface CellMetadata {
   type: 'text' | 'number' | 'currency' | 'percentage' | 'product';
   section: 'Values' | 'YoY Growth' | 'Percent of Total' | 'Product';
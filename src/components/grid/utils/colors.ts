@@ -0,0 +1,48 @@
+import type { CSSProperties } from 'react';
+import type { CellFormatting } from '../types/common';
+
+/**
+ * Colors offered by the formatting toolbar
+ * Fills are light so dark text stays readable, text colors are strong so they
+ * stay readable on white and on the fills.
+ */
+
+export interface CellColor {
+  name: string;
+  value: string;
+}
+
+export const FILL_COLORS: CellColor[] = [
+  { name: 'Gray', value: '#f1f5f9' },
+  { name: 'Red', value: '#fee2e2' },
+  { name: 'Orange', value: '#ffedd5' },
+  { name: 'Yellow', value: '#fef9c3' },
+  { name: 'Green', value: '#dcfce7' },
+  { name: 'Teal', value: '#ccfbf1' },
+  { name: 'Blue', value: '#dbeafe' },
+  { name: 'Indigo', value: '#e0e7ff' },
+  { name: 'Purple', value: '#f3e8ff' },
+  { name: 'Pink', value: '#fce7f3' },
+];
+
+export const TEXT_COLORS: CellColor[] = [
+  { name: 'Gray', value: '#475569' },
+  { name: 'Red', value: '#dc2626' },
+  { name: 'Orange', value: '#ea580c' },
+  { name: 'Yellow', value: '#ca8a04' },
+  { name: 'Green', value: '#16a34a' },
+  { name: 'Teal', value: '#0d9488' },
+  { name: 'Blue', value: '#2563eb' },
+  { name: 'Indigo', value: '#4f46e5' },
+  { name: 'Purple', value: '#9333ea' },
+  { name: 'Pink', value: '#db2777' },
+];
+
+/**
+ * CSS variables carrying the cell's colors, the cell decides with classes
+ * when to use them so selection and editing styles keep priority
+ */
+export const getCellColorStyle = (formatting: CellFormatting | undefined): CSSProperties => ({
+  ...(formatting?.backgroundColor && { '--cell-fill': formatting.backgroundColor }),
+  ...(formatting?.textColor && { '--cell-text': formatting.textColor }),
+} as CSSProperties);
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeFilteredTotalRow,
+  getFilterOptions,
+  getTopThreshold,
+  matchesColumnFilter,
+  parseColumnFilters,
+  serializeColumnFilters,
+} from './columnFilters';
+import type { SectionMetadata } from '../Grid/hooks/useReportData/utils';
+
+const rows = [
+  { rowId: 'row-0', product: 'Product B', values_2020: 100 },
+  { rowId: 'row-1', product: 'Product A', values_2020: 300 },
+  { rowId: 'row-2', product: 'Product C', values_2020: 200 },
+  { rowId: 'row-3', product: 'Total', values_2020: 600 },
+];
+
+describe('matchesColumnFilter', () => {
+  it('should match values from the checklist as text', () => {
+    expect(matchesColumnFilter('Product A', { type: 'values', values: ['Product A'] })).toBe(true);
+    expect(matchesColumnFilter(5, { type: 'values', values: ['5'] })).toBe(true);
+    expect(matchesColumnFilter('Product B', { type: 'values', values: ['Product A'] })).toBe(false);
+  });
+
+  it('should compare numbers and reject text', () => {
+    expect(matchesColumnFilter(150, { type: 'greaterThan', value: 100 })).toBe(true);
+    expect(matchesColumnFilter('50', { type: 'lessThan', value: 100 })).toBe(true);
+    expect(matchesColumnFilter(150, { type: 'between', min: 200, max: 100 })).toBe(true);
+    expect(matchesColumnFilter('n/a', { type: 'greaterThan', value: 0 })).toBe(false);
+  });
+
+  it('should keep top values down to the threshold', () => {
+    const threshold = getTopThreshold(rows, 'values_2020', 2);
+
+    expect(threshold).toBe(200);
+    expect(matchesColumnFilter(200, { type: 'top', count: 2 }, threshold)).toBe(true);
+    expect(matchesColumnFilter(100, { type: 'top', count: 2 }, threshold)).toBe(false);
+  });
+});
+
+describe('getFilterOptions', () => {
+  it('should list distinct values without the Total row in natural order', () => {
+    expect(getFilterOptions([...rows, { rowId: 'row-4', product: 'Product A' }], 'product')).toEqual([
+      'Product A',
+      'Product B',
+      'Product C',
+    ]);
+  });
+});
+
+describe('computeFilteredTotalRow', () => {
+  it('should total the rows left by the filters', () => {
+    const sections: SectionMetadata[] = [
+      {
+        name: 'Values',
+        type: 'currency',
+        columns: [{ id: 'values_2020', name: '2020', originalKey: '2020', originalSection: 'Values', section: 'Values', type: 'currency' }],
+      },
+    ];
+
+    expect(computeFilteredTotalRow([rows[0], rows[2], rows[3]], sections)).toMatchObject({ values_2020: 300 });
+    expect(computeFilteredTotalRow([rows[0]], sections)).toBeNull();
+  });
+});
+
+describe('URL filters', () => {
+  it('should round-trip the filters of a report and keep other parameters', () => {
+    const filters = [{ id: 'values_2020', value: { type: 'top', count: 10 } }];
+    const search = serializeColumnFilters('?tab=1', 'report1', filters);
+
+    expect(new URLSearchParams(search).get('tab')).toBe('1');
+    expect(parseColumnFilters(search, 'report1')).toEqual(filters);
+    expect(parseColumnFilters(search, 'report2')).toEqual([]);
+    expect(serializeColumnFilters(search, 'report1', [])).toBe('?tab=1');
+  });
+
+  it('should ignore filters that are not valid', () => {
+    expect(parseColumnFilters('?filters.report1=not-json', 'report1')).toEqual([]);
+    expect(parseColumnFilters('?filters.report1=[1]', 'report1')).toEqual([]);
+  });
+
+  it('should drop filters that don\'t match the shape of their type', () => {
+    const filters = {
+      product: { type: 'values' },
+      region: { type: 'values', values: ['North', 1] },
+      values_2020: { type: 'greaterThan', value: '100' },
+      values_2021: { type: 'between', min: 1 },
+      values_2022: { type: 'top', count: null },
+      values_2023: { type: 'startsWith', value: 1 },
+      values_2024: { type: 'lessThan', value: 50 },
+    };
+    const search = `?filters.report1=${encodeURIComponent(JSON.stringify(filters))}`;
+
+    expect(parseColumnFilters(search, 'report1')).toEqual([
+      { id: 'values_2024', value: { type: 'lessThan', value: 50 } },
+    ]);
+  });
+});
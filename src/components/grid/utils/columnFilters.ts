@@ -0,0 +1,176 @@
+import type { ColumnFiltersState, FilterFn } from '@tanstack/react-table';
+import type { ColumnFilter } from '../types/common';
+import type { FlattenedRow, SectionMetadata } from '../Grid/hooks/useReportData/utils';
+import { computeDerivedValues, isTotalRow } from './derivedSections';
+
+/**
+ * Column filters hide the rows that don't match, the Total row always stays
+ * and is recomputed over the rows that are left. Filters are kept in the URL
+ * so a filtered view can be shared and survives a reload.
+ */
+
+const toNumber = (value: string | number | undefined): number | null => {
+  if (typeof value === 'number') return value;
+  if (value === undefined || value.trim() === '' || isNaN(Number(value))) return null;
+  return Number(value);
+};
+
+/**
+ * Smallest value still among the highest `count` values of a column, Total row left out
+ */
+export const getTopThreshold = (rows: FlattenedRow[], columnId: string, count: number): number | null => {
+  const values = rows
+    .filter((row) => !isTotalRow(row))
+    .flatMap((row) => toNumber(row[columnId]) ?? [])
+    .sort((a, b) => b - a);
+  if (count <= 0 || values.length === 0) return null;
+  return values[Math.min(count, values.length) - 1];
+};
+
+/**
+ * Checks whether a value passes a filter, top N compares against the given threshold
+ */
+export const matchesColumnFilter = (
+  value: string | number | undefined,
+  filter: ColumnFilter,
+  topThreshold: number | null = null
+): boolean => {
+  if (filter.type === 'values') {
+    return filter.values.includes(String(value ?? ''));
+  }
+
+  const number = toNumber(value);
+  if (number === null) return false;
+
+  switch (filter.type) {
+    case 'greaterThan':
+      return number > filter.value;
+    case 'lessThan':
+      return number < filter.value;
+    case 'between':
+      return number >= Math.min(filter.min, filter.max) && number <= Math.max(filter.min, filter.max);
+    case 'top':
+      return topThreshold !== null && number >= topThreshold;
+  }
+};
+
+/**
+ * Filter function of the grid columns, keeps the Total row in every filter
+ * Top N thresholds are computed over all rows once per column and count.
+ */
+export const createColumnFilterFn = (rows: FlattenedRow[]): FilterFn<FlattenedRow> => {
+  const thresholds = new Map<string, number | null>();
+
+  const filterFn: FilterFn<FlattenedRow> = (row, columnId, filter: ColumnFilter) => {
+    if (isTotalRow(row.original)) return true;
+
+    let threshold: number | null = null;
+    if (filter.type === 'top') {
+      const key = `${columnId}:${filter.count}`;
+      if (!thresholds.has(key)) {
+        thresholds.set(key, getTopThreshold(rows, columnId, filter.count));
+      }
+      threshold = thresholds.get(key) ?? null;
+    }
+    return matchesColumnFilter(row.original[columnId], filter, threshold);
+  };
+  return filterFn;
+};
+
+/**
+ * Distinct values of a column offered by its value checklist, Total row left out
+ */
+export const getFilterOptions = (rows: FlattenedRow[], columnId: string): string[] =>
+  [...new Set(rows.filter((row) => !isTotalRow(row)).map((row) => String(row[columnId] ?? '')))].sort((a, b) =>
+    a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' })
+  );
+
+/**
+ * Total row computed over the rows left by the filters, like computeDerivedValues
+ * computes it over all rows. Returns null when there is no Total row.
+ */
+export const computeFilteredTotalRow = (rows: FlattenedRow[], sections: SectionMetadata[]): FlattenedRow | null => {
+  const totalRow = rows.find(isTotalRow);
+  if (!totalRow) return null;
+
+  const computed = computeDerivedValues([...rows.filter((row) => row !== totalRow), totalRow], sections);
+  return computed[computed.length - 1];
+};
+
+/**
+ * Short description of a filter for the header tooltip
+ */
+export const describeColumnFilter = (filter: ColumnFilter): string => {
+  switch (filter.type) {
+    case 'values':
+      return `${filter.values.length} value${filter.values.length === 1 ? '' : 's'}`;
+    case 'greaterThan':
+      return `Greater than ${filter.value}`;
+    case 'lessThan':
+      return `Less than ${filter.value}`;
+    case 'between':
+      return `Between ${filter.min} and ${filter.max}`;
+    case 'top':
+      return `Top ${filter.count}`;
+  }
+};
+
+/**
+ * URL search parameter holding the filters of a report, several grids can share a page
+ */
+export const getFiltersParam = (reportId: string): string => `filters.${reportId}`;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Checks a filter read from a shared URL against the shape of its type
+const isColumnFilter = (filter: unknown): filter is ColumnFilter => {
+  if (typeof filter !== 'object' || filter === null) return false;
+  const candidate = filter as Record<string, unknown>;
+
+  switch (candidate.type) {
+    case 'values':
+      return Array.isArray(candidate.values) && candidate.values.every((value) => typeof value === 'string');
+    case 'greaterThan':
+    case 'lessThan':
+      return isFiniteNumber(candidate.value);
+    case 'between':
+      return isFiniteNumber(candidate.min) && isFiniteNumber(candidate.max);
+    case 'top':
+      return isFiniteNumber(candidate.count);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Reads the filters of a report from a URL query string, invalid filters are ignored
+ */
+export const parseColumnFilters = (search: string, reportId: string): ColumnFiltersState => {
+  const param = new URLSearchParams(search).get(getFiltersParam(reportId));
+  if (!param) return [];
+
+  try {
+    const filters = JSON.parse(param) as unknown;
+    if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) return [];
+    return Object.entries(filters as Record<string, unknown>)
+      .filter(([, filter]) => isColumnFilter(filter))
+      .map(([id, value]) => ({ id, value }));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Query string with the filters of a report replaced, other parameters are kept
+ */
+export const serializeColumnFilters = (search: string, reportId: string, filters: ColumnFiltersState): string => {
+  const params = new URLSearchParams(search);
+  if (filters.length === 0) {
+    params.delete(getFiltersParam(reportId));
+  } else {
+    params.set(getFiltersParam(reportId), JSON.stringify(Object.fromEntries(filters.map(({ id, value }) => [id, value]))));
+  }
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
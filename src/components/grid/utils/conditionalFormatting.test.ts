@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import type { ConditionalFormatRule } from '../types/common';
+import type { SectionMetadata } from '../Grid/hooks/useReportData/utils';
+import {
+  describeCondition,
+  evaluateConditionalFormats,
+  getDefaultConditionalFormats,
+  interpolateColor,
+  layerConditionalFormat,
+} from './conditionalFormatting';
+
+const rows = [
+  { rowId: 'row-0', product: 'A', value: 10 },
+  { rowId: 'row-1', product: 'B', value: -5 },
+  { rowId: 'row-2', product: 'C', value: 30 },
+  { rowId: 'row-3', product: 'D', value: 'n/a' },
+  { rowId: 'row-4', product: 'Total', value: 35 },
+];
+
+const key = (rowId: string) => `report:${rowId}:value`;
+
+const evaluate = (...rules: Array<Omit<ConditionalFormatRule, 'id' | 'columnIds'>>) =>
+  evaluateConditionalFormats(
+    rules.map((rule, index) => ({ id: `rule-${index}`, columnIds: ['value'], ...rule })),
+    rows,
+    'report'
+  );
+
+describe('evaluateConditionalFormats', () => {
+  it('should highlight cells matching value conditions', () => {
+    const formats = evaluate(
+      { condition: { type: 'greaterThan', value: 20 }, style: { bold: true } },
+      { condition: { type: 'negative' }, style: { textColor: '#dc2626' } }
+    );
+
+    expect(formats.get(key('row-2'))).toMatchObject({ bold: true });
+    expect(formats.get(key('row-4'))).toMatchObject({ bold: true });
+    expect(formats.get(key('row-1'))).toMatchObject({ textColor: '#dc2626' });
+    expect(formats.has(key('row-0'))).toBe(false);
+    expect(formats.has(key('row-3'))).toBe(false);
+  });
+
+  it('should match between in either order of bounds', () => {
+    const formats = evaluate({ condition: { type: 'between', min: 15, max: 0 }, style: { bold: true } });
+    expect(Array.from(formats.keys())).toEqual([key('row-0')]);
+  });
+
+  it('should rank top and bottom cells without the Total row', () => {
+    const top = evaluate({ condition: { type: 'top', count: 1 }, style: { bold: true } });
+    const bottom = evaluate({ condition: { type: 'bottom', count: 2 }, style: { bold: true } });
+
+    expect(Array.from(top.keys())).toEqual([key('row-2')]);
+    expect(Array.from(bottom.keys())).toEqual([key('row-0'), key('row-1')]);
+  });
+
+  it('should include the Total row when rows are chosen', () => {
+    const formats = evaluateConditionalFormats(
+      [{ id: 'rule', columnIds: ['value'], rowIds: ['row-2', 'row-4'], condition: { type: 'top', count: 1 }, style: { bold: true } }],
+      rows,
+      'report'
+    );
+    expect(Array.from(formats.keys())).toEqual([key('row-4')]);
+  });
+
+  it('should scale colors, bars and icons over the range of values', () => {
+    const formats = evaluate(
+      { condition: { type: 'colorScale', minColor: '#000000', maxColor: '#ffffff' } },
+      { condition: { type: 'dataBar', color: '#2563eb' } },
+      { condition: { type: 'iconSet', icons: 'arrows' } }
+    );
+
+    expect(formats.get(key('row-1'))).toMatchObject({
+      backgroundColor: '#000000',
+      dataBar: { color: '#2563eb', width: (5 / 30) * 100 },
+      icon: { name: 'arrow-down' },
+    });
+    expect(formats.get(key('row-2'))).toMatchObject({
+      backgroundColor: '#ffffff',
+      dataBar: { width: 100 },
+      icon: { name: 'arrow-up' },
+    });
+  });
+
+  it('should give earlier rules priority', () => {
+    const formats = evaluate(
+      { condition: { type: 'greaterThan', value: 0 }, style: { textColor: '#16a34a' } },
+      { condition: { type: 'greaterThan', value: 20 }, style: { textColor: '#dc2626', bold: true } }
+    );
+    expect(formats.get(key('row-2'))).toMatchObject({ textColor: '#16a34a', bold: true });
+  });
+});
+
+describe('layerConditionalFormat', () => {
+  it('should draw rule colors over the stored formatting', () => {
+    const metadata = {
+      type: 'number' as const,
+      section: 'Values' as const,
+      formatting: { id: 'format', italic: true, backgroundColor: '#ffffff', textColor: '#000000' },
+    };
+
+    expect(layerConditionalFormat(metadata, { textColor: '#dc2626', bold: true }).formatting).toEqual({
+      id: 'format',
+      italic: true,
+      backgroundColor: '#ffffff',
+      textColor: '#dc2626',
+      bold: true,
+    });
+    expect(layerConditionalFormat(metadata, { icon: { name: 'circle', color: '#16a34a' } })).toBe(metadata);
+  });
+});
+
+describe('interpolateColor', () => {
+  it('should mix two colors', () => {
+    expect(interpolateColor('#000000', '#ffffff', 0.5)).toBe('#808080');
+    expect(interpolateColor('#ff0000', '#0000ff', 0)).toBe('#ff0000');
+  });
+});
+
+describe('getDefaultConditionalFormats', () => {
+  it('should color growth columns above and below zero', () => {
+    const sections: SectionMetadata[] = [
+      { name: 'Values', type: 'currency', columns: [] },
+      {
+        name: 'YoY Growth',
+        type: 'growth',
+        columns: [{ id: 'yoy_growth_2021', name: '2021', originalKey: '2021', originalSection: 'YoY Growth', section: 'YoY Growth', type: 'growth' }],
+      },
+    ];
+
+    const rules = getDefaultConditionalFormats(sections);
+    expect(rules.map(({ condition }) => describeCondition(condition))).toEqual(['Greater than 0', 'Less than 0']);
+    expect(rules[0].columnIds).toEqual(['yoy_growth_2021']);
+  });
+});
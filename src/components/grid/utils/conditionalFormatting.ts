@@ -0,0 +1,234 @@
+import type {
+  CellMetadata,
+  ConditionalCellFormat,
+  ConditionalFormatCondition,
+  ConditionalFormatRule,
+} from '../types/common';
+import type { FlattenedRow, SectionMetadata } from '../Grid/hooks/useReportData/utils';
+import { isTotalRow } from './derivedSections';
+import { ROW_ID_KEY, generateCellKey } from '@/lib/cellKeys';
+
+/**
+ * Conditional formatting evaluates the rules of a report against raw cell values
+ * Highlight rules style the cells matching their condition, the other rules
+ * style every cell by its value relative to the rest of the rule's cells.
+ * Rules listed first take priority, a later rule only fills in what is left.
+ */
+
+const COMPARING_CONDITIONS = new Set<ConditionalFormatCondition['type']>([
+  'top',
+  'bottom',
+  'colorScale',
+  'dataBar',
+  'iconSet',
+]);
+
+/**
+ * Whether the rule adds its style to matching cells, rather than styling all its cells
+ */
+export const isHighlightRule = (condition: ConditionalFormatCondition): boolean =>
+  condition.type !== 'colorScale' && condition.type !== 'dataBar' && condition.type !== 'iconSet';
+
+const toNumber = (value: string | number | undefined): number | null => {
+  if (typeof value === 'number') return value;
+  if (value === undefined || value.trim() === '' || isNaN(Number(value))) return null;
+  return Number(value);
+};
+
+const parseHexColor = (color: string): [number, number, number] => {
+  const hex = color.replace('#', '');
+  return [0, 2, 4].map((offset) => parseInt(hex.slice(offset, offset + 2), 16) || 0) as [number, number, number];
+};
+
+/**
+ * Color between two #rrggbb colors, ratio 0 is the first and 1 the second
+ */
+export const interpolateColor = (from: string, to: string, ratio: number): string => {
+  const start = parseHexColor(from);
+  const end = parseHexColor(to);
+  return `#${start
+    .map((channel, index) => Math.round(channel + (end[index] - channel) * ratio).toString(16).padStart(2, '0'))
+    .join('')}`;
+};
+
+interface RuleCell {
+  key: string;
+  value: number;
+}
+
+/**
+ * Checks the highlight conditions that only look at the cell's own value
+ */
+const matchesValue = (condition: ConditionalFormatCondition, value: number): boolean => {
+  switch (condition.type) {
+    case 'greaterThan':
+      return value > condition.value;
+    case 'lessThan':
+      return value < condition.value;
+    case 'between':
+      return value >= Math.min(condition.min, condition.max) && value <= Math.max(condition.min, condition.max);
+    case 'negative':
+      return value < 0;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Cells of the rule matching a top/bottom N condition, ties with the Nth value included
+ */
+const getRankedCells = (cells: RuleCell[], type: 'top' | 'bottom', count: number): RuleCell[] => {
+  if (count <= 0 || cells.length === 0) return [];
+  const sorted = [...cells].sort((a, b) => (type === 'top' ? b.value - a.value : a.value - b.value));
+  const threshold = sorted[Math.min(count, sorted.length) - 1].value;
+  return cells.filter(({ value }) => (type === 'top' ? value >= threshold : value <= threshold));
+};
+
+/**
+ * Formats every cell of a rule gets, keyed by cell key
+ */
+const evaluateRule = (rule: ConditionalFormatRule, cells: RuleCell[]): Map<string, ConditionalCellFormat> => {
+  const { condition } = rule;
+  const formats = new Map<string, ConditionalCellFormat>();
+  const style = rule.style ?? {};
+
+  if (condition.type === 'top' || condition.type === 'bottom') {
+    getRankedCells(cells, condition.type, condition.count).forEach(({ key }) => formats.set(key, style));
+    return formats;
+  }
+
+  if (isHighlightRule(condition)) {
+    cells.filter(({ value }) => matchesValue(condition, value)).forEach(({ key }) => formats.set(key, style));
+    return formats;
+  }
+
+  const values = cells.map(({ value }) => value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const maxMagnitude = Math.max(...values.map(Math.abs));
+
+  for (const { key, value } of cells) {
+    const ratio = max === min ? 0 : (value - min) / (max - min);
+
+    if (condition.type === 'colorScale') {
+      formats.set(key, { backgroundColor: interpolateColor(condition.minColor, condition.maxColor, ratio) });
+    } else if (condition.type === 'dataBar') {
+      const width = maxMagnitude === 0 ? 0 : (Math.abs(value) / maxMagnitude) * 100;
+      formats.set(key, { dataBar: { color: condition.color, width } });
+    } else if (condition.type === 'iconSet') {
+      // Values are split into thirds of the range
+      const level = ratio >= 2 / 3 ? 2 : ratio >= 1 / 3 ? 1 : 0;
+      formats.set(key, {
+        icon: condition.icons === 'arrows'
+          ? { name: (['arrow-down', 'arrow-right', 'arrow-up'] as const)[level], color: ['#dc2626', '#ca8a04', '#16a34a'][level] }
+          : { name: 'circle', color: ['#dc2626', '#eab308', '#16a34a'][level] },
+      });
+    }
+  }
+
+  return formats;
+};
+
+/**
+ * Evaluates the rules against the rows, returns the format of every cell a rule applies to
+ * keyed by cell key. Rules comparing cells with each other leave the Total row out unless
+ * their rows are chosen, since it aggregates the other rows.
+ */
+export const evaluateConditionalFormats = (
+  rules: ConditionalFormatRule[],
+  rows: FlattenedRow[],
+  reportId: string
+): Map<string, ConditionalCellFormat> => {
+  const result = new Map<string, ConditionalCellFormat>();
+
+  for (const rule of rules) {
+    const rowIds = rule.rowIds ? new Set(rule.rowIds) : null;
+    const ruleRows = rows.filter((row) =>
+      rowIds ? rowIds.has(String(row[ROW_ID_KEY])) : !(COMPARING_CONDITIONS.has(rule.condition.type) && isTotalRow(row))
+    );
+
+    const cells = ruleRows.flatMap((row) =>
+      rule.columnIds.flatMap((columnId) => {
+        const value = toNumber(row[columnId]);
+        return value === null ? [] : [{ key: generateCellKey(reportId, String(row[ROW_ID_KEY]), columnId), value }];
+      })
+    );
+    if (cells.length === 0) continue;
+
+    // Earlier rules keep what they set
+    for (const [key, format] of evaluateRule(rule, cells)) {
+      const current = result.get(key) ?? {};
+      result.set(key, {
+        backgroundColor: current.backgroundColor ?? format.backgroundColor,
+        textColor: current.textColor ?? format.textColor,
+        bold: current.bold ?? format.bold,
+        dataBar: current.dataBar ?? format.dataBar,
+        icon: current.icon ?? format.icon,
+      });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Metadata a cell is drawn with, colors and bold of its rules replace the stored ones
+ */
+export const layerConditionalFormat = (
+  metadata: CellMetadata,
+  format: ConditionalCellFormat | undefined
+): CellMetadata => {
+  if (!format || (!format.backgroundColor && !format.textColor && !format.bold)) return metadata;
+
+  const formatting = metadata.formatting ?? { id: 'conditional' };
+  return {
+    ...metadata,
+    formatting: {
+      ...formatting,
+      backgroundColor: format.backgroundColor ?? formatting.backgroundColor,
+      textColor: format.textColor ?? formatting.textColor,
+      bold: format.bold || formatting.bold,
+    },
+  };
+};
+
+/**
+ * Rules of a report that hasn't saved any yet: growth is green above zero and red below
+ */
+export const getDefaultConditionalFormats = (sections: SectionMetadata[]): ConditionalFormatRule[] => {
+  const columnIds = sections
+    .filter((section) => section.type === 'growth')
+    .flatMap((section) => section.columns.map(({ id }) => id));
+  if (columnIds.length === 0) return [];
+
+  return [
+    { id: 'default-growth-positive', columnIds, condition: { type: 'greaterThan', value: 0 }, style: { textColor: '#16a34a' } },
+    { id: 'default-growth-negative', columnIds, condition: { type: 'lessThan', value: 0 }, style: { textColor: '#dc2626' } },
+  ];
+};
+
+/**
+ * Short description of a condition for the rules list
+ */
+export const describeCondition = (condition: ConditionalFormatCondition): string => {
+  switch (condition.type) {
+    case 'greaterThan':
+      return `Greater than ${condition.value}`;
+    case 'lessThan':
+      return `Less than ${condition.value}`;
+    case 'between':
+      return `Between ${condition.min} and ${condition.max}`;
+    case 'top':
+      return `Top ${condition.count}`;
+    case 'bottom':
+      return `Bottom ${condition.count}`;
+    case 'negative':
+      return 'Negative values';
+    case 'colorScale':
+      return 'Color scale';
+    case 'dataBar':
+      return 'Data bars';
+    case 'iconSet':
+      return condition.icons === 'arrows' ? 'Arrow icons' : 'Circle icons';
+  }
+};
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { computeDerivedValues, isDerivedColumn, linkDerivedColumns } from './derivedSections';
+import { FORMULA_ERRORS } from './formulas';
+import type { ColumnMetadata, SectionMetadata } from '../Grid/hooks/useReportData/utils';
+
+const createColumn = (id: string, originalKey: string, section: string, type: ColumnMetadata['type']): ColumnMetadata => ({
+  id,
+  name: originalKey,
+  originalKey,
+  originalSection: section,
+  section,
+  type,
+});
+
+const createSections = (): SectionMetadata[] => [
+  {
+    name: 'Values',
+    type: 'currency',
+    columns: [
+      createColumn('values_2020', '2020', 'Values', 'currency'),
+      createColumn('values_2021', '2021', 'Values', 'currency'),
+    ],
+  },
+  {
+    name: 'YoY Growth',
+    type: 'growth',
+    columns: [
+      createColumn('yoy_growth_2021', '2021', 'YoY Growth', 'growth'),
+      createColumn('yoy_growth_2030', '2030', 'YoY Growth', 'growth'),
+    ],
+  },
+  {
+    name: 'Percent of Total',
+    type: 'percentage',
+    columns: [createColumn('percent_of_2021', '2021', 'Percent of Total', 'percentage')],
+  },
+];
+
+describe('linkDerivedColumns', () => {
+  it('should link derived columns to the Values column with the same key', () => {
+    const sections = createSections();
+    linkDerivedColumns(sections);
+
+    expect(sections[1].columns[0].derivedFrom).toBe('values_2021');
+    expect(sections[2].columns[0].derivedFrom).toBe('values_2021');
+    expect(isDerivedColumn(sections[1].columns[0])).toBe(true);
+  });
+
+  it('should leave columns without a Values counterpart as stored data', () => {
+    const sections = createSections();
+    linkDerivedColumns(sections);
+
+    expect(isDerivedColumn(sections[1].columns[1])).toBe(false);
+    expect(isDerivedColumn(sections[0].columns[0])).toBe(false);
+  });
+});
+
+describe('computeDerivedValues', () => {
+  const sections = createSections();
+  linkDerivedColumns(sections);
+
+  it('should compute growth against the previous year and share of the Total row', () => {
+    const rows = [
+      { rowId: 'row-0', product: 'A', values_2020: 100, values_2021: 150, yoy_growth_2021: 1, percent_of_2021: 1 },
+      { rowId: 'row-1', product: 'B', values_2020: 300, values_2021: 450, yoy_growth_2021: 1, percent_of_2021: 1 },
+      { rowId: 'row-2', product: 'Total', values_2020: 0, values_2021: 0, yoy_growth_2021: 1, percent_of_2021: 1 },
+    ];
+
+    const [product, , total] = computeDerivedValues(rows, sections);
+    expect(product).toMatchObject({ yoy_growth_2021: 50, percent_of_2021: 25 });
+    expect(total).toMatchObject({ yoy_growth_2021: 50, percent_of_2021: 100 });
+  });
+
+  it('should keep rows that did not change', () => {
+    const rows = [
+      { rowId: 'row-0', product: 'A', values_2020: 1, values_2021: 2, yoy_growth_2021: 100, percent_of_2021: 100 },
+      { rowId: 'row-1', product: 'Total', values_2020: 1, values_2021: 2, yoy_growth_2021: 100, percent_of_2021: 100 },
+    ];
+    expect(computeDerivedValues(rows, sections)).toBe(rows);
+  });
+
+  it('should handle empty values and zero divisors', () => {
+    const rows = [
+      { rowId: 'row-0', product: 'A', values_2020: 0, values_2021: '', yoy_growth_2021: 5, percent_of_2021: 5 },
+      { rowId: 'row-1', product: 'Total', values_2020: 5, values_2021: 5, yoy_growth_2021: 5, percent_of_2021: 5 },
+    ];
+
+    const [product, total] = computeDerivedValues(rows, sections);
+    expect(product).toMatchObject({ yoy_growth_2021: '', percent_of_2021: '' });
+    expect(total).toMatchObject({
+      yoy_growth_2021: FORMULA_ERRORS.divisionByZero,
+      percent_of_2021: FORMULA_ERRORS.divisionByZero,
+    });
+  });
+
+  it('should keep stored shares when there is no Total row', () => {
+    const rows = [{ rowId: 'row-0', product: 'A', values_2020: 100, values_2021: 110, yoy_growth_2021: 0, percent_of_2021: 42 }];
+    expect(computeDerivedValues(rows, sections)[0]).toMatchObject({ yoy_growth_2021: 10, percent_of_2021: 42 });
+  });
+
+  it('should use the aggregate configured for a section', () => {
+    const configured = createSections();
+    configured[0].totalAggregate = 'average';
+    configured[1].totalAggregate = 'max';
+    linkDerivedColumns(configured);
+    const rows = [
+      { rowId: 'row-0', product: 'A', values_2020: 100, values_2021: 150, yoy_growth_2021: 0 },
+      { rowId: 'row-1', product: 'B', values_2020: 300, values_2021: 330, yoy_growth_2021: 0 },
+      { rowId: 'row-2', product: 'Total', values_2020: 0, values_2021: 0, yoy_growth_2021: 0 },
+    ];
+
+    expect(computeDerivedValues(rows, configured)[2]).toMatchObject({
+      values_2020: 200,
+      values_2021: 240,
+      yoy_growth_2021: 50,
+    });
+  });
+
+  it('should keep stored totals of sections without an aggregate', () => {
+    const configured = createSections();
+    configured[0].totalAggregate = 'none';
+    linkDerivedColumns(configured);
+    const rows = [
+      { rowId: 'row-0', product: 'A', values_2020: 100, values_2021: 150 },
+      { rowId: 'row-1', product: 'Total', values_2020: 400, values_2021: 600 },
+    ];
+
+    expect(computeDerivedValues(rows, configured)[1]).toMatchObject({ values_2020: 400, values_2021: 600 });
+  });
+});
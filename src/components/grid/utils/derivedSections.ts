@@ -0,0 +1,173 @@
+import type {
+  ColumnMetadata,
+  FlattenedRow,
+  SectionMetadata,
+} from '../Grid/hooks/useReportData/utils';
+import type { TotalAggregate } from '../types/common';
+import { FORMULA_ERRORS } from './formulas';
+
+/**
+ * Derived sections are computed from the Values section instead of being stored
+ * data: YoY Growth compares a year with the previous year column, Percent of
+ * Total compares a product with the Total row. Both are percentages, 12.5 = 12.5%.
+ * The Total row itself aggregates the product rows of each section.
+ */
+
+/**
+ * Checks whether a row is the Total row aggregating all other rows
+ */
+export const isTotalRow = (row: FlattenedRow): boolean =>
+  String(row.product).toLowerCase() === 'total';
+
+/**
+ * How the Total row of a section is computed. Values are summed by default,
+ * derived sections compute the Total row from its values like any other row,
+ * and other sections keep what is stored.
+ */
+export const getTotalAggregate = (section: SectionMetadata): TotalAggregate =>
+  section.totalAggregate ?? (section.type === 'currency' ? 'sum' : 'none');
+
+/**
+ * Checks whether a column is computed from the Values section and so read-only
+ */
+export const isDerivedColumn = (column: ColumnMetadata | undefined): boolean =>
+  column?.derivedFrom !== undefined;
+
+/**
+ * Links the growth and percentage columns of a report to the Values column
+ * with the same key. Columns without a counterpart stay plain stored data.
+ */
+export const linkDerivedColumns = (sections: SectionMetadata[]): void => {
+  const valuesSection = sections.find((section) => section.type === 'currency');
+  if (!valuesSection) return;
+
+  for (const section of sections) {
+    if (section.type !== 'growth' && section.type !== 'percentage') continue;
+
+    for (const column of section.columns) {
+      const source = valuesSection.columns.find((valueColumn) => valueColumn.originalKey === column.originalKey);
+      if (source) {
+        column.derivedFrom = source.id;
+      }
+    }
+  }
+};
+
+const toNumber = (value: string | number | undefined): number | null => {
+  if (typeof value === 'number') return value;
+  if (value === undefined || value.trim() === '' || isNaN(Number(value))) return null;
+  return Number(value);
+};
+
+const toPercentage = (part: number | null, whole: number | null): string | number => {
+  if (part === null || whole === null) return '';
+  if (whole === 0) return FORMULA_ERRORS.divisionByZero;
+  return Number(((part / whole) * 100).toPrecision(15));
+};
+
+const aggregateNumbers = (numbers: number[], aggregate: Exclude<TotalAggregate, 'none'>): string | number => {
+  if (aggregate !== 'sum' && numbers.length === 0) return '';
+
+  switch (aggregate) {
+    case 'sum':
+      return Number(numbers.reduce((sum, number) => sum + number, 0).toPrecision(15));
+    case 'average':
+      return Number((numbers.reduce((sum, number) => sum + number, 0) / numbers.length).toPrecision(15));
+    case 'min':
+      return Math.min(...numbers);
+    case 'max':
+      return Math.max(...numbers);
+  }
+};
+
+/**
+ * Computes the Total row cells of the given columns from all other rows
+ */
+const aggregateTotalRow = (
+  rows: FlattenedRow[],
+  columns: Array<{ id: string; aggregate: Exclude<TotalAggregate, 'none'> }>
+): FlattenedRow[] => {
+  const totalIndex = rows.findIndex(isTotalRow);
+  if (totalIndex === -1 || columns.length === 0) return rows;
+
+  const productRows = rows.filter((_, index) => index !== totalIndex);
+  let totalRow = rows[totalIndex];
+
+  for (const column of columns) {
+    const numbers = productRows.flatMap((row) => toNumber(row[column.id]) ?? []);
+    const total = aggregateNumbers(numbers, column.aggregate);
+    if (totalRow[column.id] !== total) {
+      totalRow = { ...totalRow, [column.id]: total };
+    }
+  }
+
+  if (totalRow === rows[totalIndex]) return rows;
+  const newRows = [...rows];
+  newRows[totalIndex] = totalRow;
+  return newRows;
+};
+
+/**
+ * Computes growth and share cells of every row
+ */
+const deriveColumns = (
+  rows: FlattenedRow[],
+  sections: SectionMetadata[]
+): FlattenedRow[] => {
+  const derivedColumns = sections.flatMap((section) => section.columns).filter(isDerivedColumn);
+  if (derivedColumns.length === 0) return rows;
+
+  const valueColumnIds = sections.find((section) => section.type === 'currency')?.columns.map(({ id }) => id) ?? [];
+  const totalRow = rows.find(isTotalRow);
+
+  const derivedRows = rows.map((row) => {
+    let derivedRow = row;
+
+    for (const column of derivedColumns) {
+      const sourceId = column.derivedFrom!;
+      const value = toNumber(row[sourceId]);
+
+      let derivedValue: string | number;
+      if (column.type === 'growth') {
+        // The first year has nothing to grow from
+        const previousId = valueColumnIds[valueColumnIds.indexOf(sourceId) - 1];
+        const previous = previousId === undefined ? null : toNumber(row[previousId]);
+        derivedValue = toPercentage(value === null || previous === null ? null : value - previous, previous);
+      } else {
+        // Without a Total row there is nothing to compare against, keep the stored share
+        if (!totalRow) continue;
+        derivedValue = toPercentage(value, toNumber(totalRow[sourceId]));
+      }
+
+      if (derivedRow[column.id] !== derivedValue) {
+        derivedRow = { ...derivedRow, [column.id]: derivedValue };
+      }
+    }
+
+    return derivedRow;
+  });
+
+  return derivedRows.every((row, index) => row === rows[index]) ? rows : derivedRows;
+};
+
+/**
+ * Computes the Total row and every derived cell from the Values section
+ * Values are aggregated first so derived cells of the Total row build on the
+ * new totals, derived sections with their own aggregate are aggregated last.
+ * Returns new rows, rows whose computed cells didn't change are kept as they are.
+ */
+export const computeDerivedValues = (
+  rows: FlattenedRow[],
+  sections: SectionMetadata[]
+): FlattenedRow[] => {
+  const aggregatedColumns = sections.flatMap((section) => {
+    const aggregate = getTotalAggregate(section);
+    return aggregate === 'none' ? [] : section.columns.map((column) => ({ column, id: column.id, aggregate }));
+  });
+  const totaledRows = aggregateTotalRow(rows, aggregatedColumns.filter(({ column }) => !isDerivedColumn(column)));
+
+  return aggregateTotalRow(
+    deriveColumns(totaledRows, sections),
+    aggregatedColumns.filter(({ column }) => isDerivedColumn(column))
+  );
+};
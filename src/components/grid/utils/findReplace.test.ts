@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_FIND_OPTIONS, createFindPattern, matchesCellText, replaceCellText } from './findReplace';
+
+describe('createFindPattern', () => {
+  it('should search for the query as plain text ignoring case by default', () => {
+    const pattern = createFindPattern('a.b', DEFAULT_FIND_OPTIONS)!;
+
+    expect(matchesCellText(pattern, ['xA.By'])).toBe(true);
+    expect(matchesCellText(pattern, ['axb'])).toBe(false);
+  });
+
+  it('should match case and whole cells when asked', () => {
+    const pattern = createFindPattern('Product', { ...DEFAULT_FIND_OPTIONS, matchCase: true, wholeCell: true })!;
+
+    expect(matchesCellText(pattern, ['Product'])).toBe(true);
+    expect(matchesCellText(pattern, ['product'])).toBe(false);
+    expect(matchesCellText(pattern, ['Product A'])).toBe(false);
+  });
+
+  it('should accept regular expressions and reject invalid ones', () => {
+    const options = { ...DEFAULT_FIND_OPTIONS, regex: true };
+
+    expect(matchesCellText(createFindPattern('^\\d+$', options)!, ['1200'])).toBe(true);
+    expect(createFindPattern('(', options)).toBeNull();
+  });
+
+  it('should return null for an empty query', () => {
+    expect(createFindPattern('', DEFAULT_FIND_OPTIONS)).toBeNull();
+  });
+});
+
+describe('matchesCellText', () => {
+  it('should match any of the texts of a cell', () => {
+    const pattern = createFindPattern('$1,200', DEFAULT_FIND_OPTIONS)!;
+
+    expect(matchesCellText(pattern, ['1200', '$1,200.00'])).toBe(true);
+    // The pattern is global, repeated searches start over
+    expect(matchesCellText(pattern, ['1200', '$1,200.00'])).toBe(true);
+  });
+});
+
+describe('replaceCellText', () => {
+  it('should replace every occurrence', () => {
+    expect(replaceCellText('Product A / product a', createFindPattern('product', DEFAULT_FIND_OPTIONS)!, 'Item')).toBe(
+      'Item A / Item a'
+    );
+  });
+
+  it('should support regex groups', () => {
+    const pattern = createFindPattern('B(\\d+)', { ...DEFAULT_FIND_OPTIONS, regex: true, matchCase: true })!;
+
+    expect(replaceCellText('=SUM(B2:B10)', pattern, 'C$1')).toBe('=SUM(C2:C10)');
+  });
+});
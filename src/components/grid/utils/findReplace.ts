@@ -0,0 +1,54 @@
+/**
+ * Find and replace searches the text of cells, both as stored and as displayed
+ * Replacing works on the text a cell is edited with (its formula or raw value),
+ * so replaced values go through the same validation as typed ones.
+ */
+
+export interface FindOptions {
+  matchCase: boolean;
+  // The query has to match the whole cell rather than part of it
+  wholeCell: boolean;
+  // The query is a regular expression
+  regex: boolean;
+}
+
+export const DEFAULT_FIND_OPTIONS: FindOptions = {
+  matchCase: false,
+  wholeCell: false,
+  regex: false,
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Pattern searching for the query, null when there is nothing to search for
+ * or the regular expression is not valid
+ */
+export const createFindPattern = (query: string, options: FindOptions): RegExp | null => {
+  if (query === '') return null;
+
+  const source = options.regex ? query : escapeRegExp(query);
+  try {
+    return new RegExp(options.wholeCell ? `^(?:${source})$` : source, options.matchCase ? 'g' : 'gi');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Checks whether any of the texts of a cell contains the pattern
+ */
+export const matchesCellText = (pattern: RegExp, texts: string[]): boolean =>
+  texts.some((text) => {
+    // Global patterns keep their position between tests
+    pattern.lastIndex = 0;
+    return pattern.test(text);
+  });
+
+/**
+ * Replaces every occurrence of the pattern, `$1` refers to regex groups
+ */
+export const replaceCellText = (text: string, pattern: RegExp, replacement: string): string => {
+  pattern.lastIndex = 0;
+  return text.replace(pattern, replacement);
+};
@@ -1,9 +1,13 @@
 import { describe, it, expect, vi } from 'vitest';
 import {
-  generateCellKey,
   getSelectedCells,
   applyFormattingToSelection,
   applyAlignmentToSelection,
+  applyNumberFormatToSelection,
+  applyColorToSelection,
+  pasteFormattingToSelection,
+  clearFormattingOfSelection,
+  getFormattingFields,
   formatValue,
   formatCurrency,
   formatPercentage,
@@ -12,26 +16,25 @@ import {
   formatText,
   getCellClasses,
   getMetadataForCell,
-  getGrowthIndicator,
   safeStringify,
 } from './formatting';
-import type { CellMetadata } from '../types/common';
+import { generateCellKey } from '@/lib/cellKeys';
+import type { CellMetadata, CellPosition } from '../types/common';
 import type { UseSelectionReturn } from '../Grid/hooks/useSelection/types';
 
-// Mock the REPORT_ID import
-vi.mock('@/api', () => ({
-  REPORT_ID: 'test-report-id',
-}));
+// Resolves positions the way the grid does before any sorting is applied
+const mockGetCellKey = (position: CellPosition) =>
+  generateCellKey('test-report-id', `row-${position.row}`, `col-${position.column}`);
 
 describe('generateCellKey', () => {
   it('should generate a cell key with correct format', () => {
-    const result = generateCellKey('report-123', 5, 10);
-    expect(result).toBe('report-123:5:10');
+    const result = generateCellKey('report-123', 'row-5', 'values_2020');
+    expect(result).toBe('report-123:row-5:values_2020');
   });
 
-  it('should handle zero values', () => {
-    const result = generateCellKey('report-456', 0, 0);
-    expect(result).toBe('report-456:0:0');
+  it('should not depend on the row position', () => {
+    const result = generateCellKey('report-456', 'row-0', 'product');
+    expect(result).toBe('report-456:row-0:product');
   });
 });
 
@@ -204,12 +207,13 @@ describe('applyFormattingToSelection', () => {
       'bold',
       mockUpdateCellFormatting,
       mockCellMetadata,
+      mockGetCellKey,
       mockUpdateMultipleCellsFormatting
     );
 
     expect(mockUpdateMultipleCellsFormatting).toHaveBeenCalledWith([
       {
-        position: { row: 1, column: 2 },
+        cellKey: 'test-report-id:row-1:col-2',
         formatting: { bold: true },
       },
     ]);
@@ -231,7 +235,7 @@ describe('applyFormattingToSelection', () => {
     const mockCellMetadata = new Map<string, CellMetadata>();
     
     // Add existing metadata with bold=true
-    mockCellMetadata.set('test-report-id:1:2', {
+    mockCellMetadata.set('test-report-id:row-1:col-2', {
       type: 'text',
       section: 'Values',
       formatting: { id: 'test-id', bold: true },
@@ -242,12 +246,13 @@ describe('applyFormattingToSelection', () => {
       'bold',
       mockUpdateCellFormatting,
       mockCellMetadata,
+      mockGetCellKey,
       mockUpdateMultipleCellsFormatting
     );
 
     expect(mockUpdateMultipleCellsFormatting).toHaveBeenCalledWith([
       {
-        position: { row: 1, column: 2 },
+        cellKey: 'test-report-id:row-1:col-2',
         formatting: { bold: false },
       },
     ]);
@@ -270,10 +275,11 @@ describe('applyFormattingToSelection', () => {
       mockSelection,
       'italic',
       mockUpdateCellFormatting,
-      mockCellMetadata
+      mockCellMetadata,
+      mockGetCellKey
     );
 
-    expect(mockUpdateCellFormatting).toHaveBeenCalledWith(1, 2, { italic: true });
+    expect(mockUpdateCellFormatting).toHaveBeenCalledWith('test-report-id:row-1:col-2', { italic: true });
   });
 });
 
@@ -295,12 +301,13 @@ describe('applyAlignmentToSelection', () => {
       mockSelection,
       'center',
       mockUpdateCellFormatting,
+      mockGetCellKey,
       mockUpdateMultipleCellsFormatting
     );
 
     expect(mockUpdateMultipleCellsFormatting).toHaveBeenCalledWith([
       {
-        position: { row: 1, column: 2 },
+        cellKey: 'test-report-id:row-1:col-2',
         formatting: { alignment: 'center' },
       },
     ]);
@@ -322,10 +329,137 @@ describe('applyAlignmentToSelection', () => {
     applyAlignmentToSelection(
       mockSelection,
       'right',
-      mockUpdateCellFormatting
+      mockUpdateCellFormatting,
+      mockGetCellKey
+    );
+
+    expect(mockUpdateCellFormatting).toHaveBeenCalledWith('test-report-id:row-1:col-2', { alignment: 'right' });
+  });
+});
+
+describe('applyColorToSelection', () => {
+  const mockSelection = {
+    selectionState: {
+      selectedCells: {
+        type: 'single',
+        single: { row: 1, column: 2 },
+      },
+    },
+  } as unknown as UseSelectionReturn;
+
+  it('should set the color with a batch update', () => {
+    const mockUpdateMultipleCellsFormatting = vi.fn();
+
+    applyColorToSelection(mockSelection, 'backgroundColor', '#fef9c3', vi.fn(), mockGetCellKey, mockUpdateMultipleCellsFormatting);
+
+    expect(mockUpdateMultipleCellsFormatting).toHaveBeenCalledWith([
+      { cellKey: 'test-report-id:row-1:col-2', formatting: { backgroundColor: '#fef9c3' } },
+    ]);
+  });
+
+  it('should clear the color', () => {
+    const mockUpdateMultipleCellsFormatting = vi.fn();
+
+    applyColorToSelection(mockSelection, 'textColor', undefined, vi.fn(), mockGetCellKey, mockUpdateMultipleCellsFormatting);
+
+    expect(mockUpdateMultipleCellsFormatting).toHaveBeenCalledWith([
+      { cellKey: 'test-report-id:row-1:col-2', formatting: { textColor: undefined } },
+    ]);
+  });
+});
+
+describe('pasteFormattingToSelection', () => {
+  it('should give every selected cell all fields of the source formatting', () => {
+    const mockSelection = {
+      selectionState: {
+        selectedCells: {
+          type: 'range',
+          range: { start: { row: 0, column: 0 }, end: { row: 1, column: 0 } },
+        },
+      },
+    } as unknown as UseSelectionReturn;
+    const mockUpdateMultipleCellsFormatting = vi.fn();
+    const formatting = getFormattingFields({ id: 'source', bold: true, textColor: '#dc2626' });
+
+    pasteFormattingToSelection(mockSelection, formatting, vi.fn(), mockGetCellKey, mockUpdateMultipleCellsFormatting);
+
+    expect(formatting).not.toHaveProperty('id');
+    expect(formatting).toHaveProperty('italic', undefined);
+    expect(mockUpdateMultipleCellsFormatting).toHaveBeenCalledWith([
+      { cellKey: 'test-report-id:row-0:col-0', formatting },
+      { cellKey: 'test-report-id:row-1:col-0', formatting },
+    ]);
+  });
+});
+
+describe('clearFormattingOfSelection', () => {
+  it('should reset the selected cells to their default formatting', () => {
+    const mockSelection = {
+      selectionState: {
+        selectedCells: {
+          type: 'single',
+          single: { row: 1, column: 2 },
+        },
+      },
+    } as unknown as UseSelectionReturn;
+    const mockUpdateMultipleCellsFormatting = vi.fn();
+
+    clearFormattingOfSelection(
+      mockSelection,
+      () => getMetadataForCell('values_2020', 'Values', true),
+      vi.fn(),
+      mockGetCellKey,
+      mockUpdateMultipleCellsFormatting
     );
 
-    expect(mockUpdateCellFormatting).toHaveBeenCalledWith(1, 2, { alignment: 'right' });
+    expect(mockUpdateMultipleCellsFormatting).toHaveBeenCalledWith([
+      {
+        cellKey: 'test-report-id:row-1:col-2',
+        formatting: {
+          bold: true,
+          italic: undefined,
+          strikethrough: undefined,
+          alignment: 'left',
+          backgroundColor: undefined,
+          textColor: undefined,
+          numberFormat: undefined,
+        },
+      },
+    ]);
+  });
+});
+
+describe('applyNumberFormatToSelection', () => {
+  it('should change the format of numeric cells from their default', () => {
+    const mockSelection = {
+      selectionState: {
+        selectedCells: {
+          type: 'range',
+          range: { start: { row: 0, column: 0 }, end: { row: 0, column: 1 } },
+        },
+      },
+    } as unknown as UseSelectionReturn;
+    const cellMetadata = new Map<string, CellMetadata>([
+      ['test-report-id:row-0:col-0', { type: 'product', section: 'Product', formatting: { id: 'a' } }],
+      ['test-report-id:row-0:col-1', { type: 'currency', section: 'Values', formatting: { id: 'b' } }],
+    ]);
+    const mockUpdateMultipleCellsFormatting = vi.fn();
+
+    applyNumberFormatToSelection(
+      mockSelection,
+      (format) => ({ ...format, decimals: format.decimals + 1 }),
+      vi.fn(),
+      cellMetadata,
+      mockGetCellKey,
+      mockUpdateMultipleCellsFormatting
+    );
+
+    expect(mockUpdateMultipleCellsFormatting).toHaveBeenCalledWith([
+      {
+        cellKey: 'test-report-id:row-0:col-1',
+        formatting: { numberFormat: expect.objectContaining({ decimals: 1, currency: 'USD' }) as unknown },
+      },
+    ]);
   });
 });
 
@@ -354,6 +488,26 @@ describe('formatValue', () => {
     expect(result).toBe('Product Name');
   });
 
+  it('should use the number format of the cell', () => {
+    const metadata: CellMetadata = {
+      type: 'currency',
+      section: 'Values',
+      formatting: {
+        id: 'fmt',
+        numberFormat: {
+          decimals: 2,
+          thousandsSeparator: true,
+          notation: 'full',
+          negative: 'parentheses',
+          currency: 'EUR',
+          currencyDisplay: 'symbol',
+          percentScale: 'percent',
+        },
+      },
+    };
+    expect(formatValue(-1234567.891, metadata)).toBe('(€1,234,567.89)');
+  });
+
   it('should format text values by default', () => {
     const metadata: CellMetadata = { type: 'text', section: 'Values' };
     const result = formatValue('Some text', metadata);
@@ -506,13 +660,14 @@ describe('getCellClasses', () => {
     expect(result).toContain('text-left font-medium');
   });
 
-  it('should include YoY Growth color classes', () => {
+  it('should leave growth coloring to conditional formats', () => {
     const metadata: CellMetadata = {
       type: 'percentage',
       section: 'YoY Growth',
     };
     const result = getCellClasses(metadata);
-    expect(result).toContain('data-[growth="positive"]:text-green-600 data-[growth="negative"]:text-red-600');
+    expect(result).not.toContain('text-green-600');
+    expect(result).not.toContain('text-red-600');
   });
 
   it('should include formatting classes when provided', () => {
@@ -605,37 +760,6 @@ describe('getMetadataForCell', () => {
   });
 });
 
-describe('getGrowthIndicator', () => {
-  it('should return positive for positive numbers', () => {
-    expect(getGrowthIndicator(5)).toBe('positive');
-    expect(getGrowthIndicator(0.1)).toBe('positive');
-  });
-
-  it('should return negative for negative numbers', () => {
-    expect(getGrowthIndicator(-5)).toBe('negative');
-    expect(getGrowthIndicator(-0.1)).toBe('negative');
-  });
-
-  it('should return neutral for zero', () => {
-    expect(getGrowthIndicator(0)).toBe('neutral');
-  });
-
-  it('should handle string numbers', () => {
-    expect(getGrowthIndicator('5')).toBe('positive');
-    expect(getGrowthIndicator('-5')).toBe('negative');
-    expect(getGrowthIndicator('0')).toBe('neutral');
-  });
-
-  it('should return neutral for invalid strings', () => {
-    expect(getGrowthIndicator('invalid')).toBe('neutral');
-    expect(getGrowthIndicator('')).toBe('neutral');
-  });
-
-  it('should return neutral for non-numeric types', () => {
-    expect(getGrowthIndicator('text')).toBe('neutral');
-  });
-});
-
 describe('safeStringify', () => {
   it('should return empty string for null and undefined', () => {
     expect(safeStringify(null)).toBe('');
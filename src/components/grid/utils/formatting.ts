@@ -1,19 +1,12 @@
-import type { CellMetadata, CellPosition, CellFormatting } from '../types/common';
+import type { CellMetadata, CellPosition, CellFormatting, NumberFormat } from '../types/common';
 import type { UseSelectionReturn } from '../Grid/hooks/useSelection/types';
-import { REPORT_ID } from '@/api';
+import { formatWithNumberFormat, getDefaultNumberFormat, hasNumberFormat } from './numberFormat';
 
 /**
  * Uniform cell formatter utilities that handle raw data and metadata
  * Each cell uses these formatters to display its content based on metadata
  */
 
-/**
- * Helper function to generate cell key
- */
-export const generateCellKey = (reportId: string, row: number, column: number): string => {
-  return `${reportId}:${row}:${column}`;
-};
-
 /**
  * Gets all currently selected cells from the selection state
  */
@@ -58,26 +51,28 @@ export const getSelectedCells = (selectionHook: UseSelectionReturn): CellPositio
 export const applyFormattingToSelection = (
   selectionHook: UseSelectionReturn,
   formattingType: "bold" | "italic" | "strikethrough",
-  updateCellFormatting: (row: number, column: number, formatting: Partial<CellFormatting>) => Promise<void>,
+  updateCellFormatting: (cellKey: string, formatting: Partial<CellFormatting>) => Promise<void>,
   cellMetadata: Map<string, CellMetadata>,
+  getCellKey: (position: CellPosition) => string | null,
   updateMultipleCellsFormatting?: (cellUpdates: Array<{
-    position: CellPosition;
+    cellKey: string;
     formatting: Partial<CellFormatting>;
   }>) => Promise<void>
 ) => {
-  const selectedCells = getSelectedCells(selectionHook);
-  console.log("selectedCells", selectedCells);
+  // Resolve selected positions to the cells they currently show
+  const cellKeys = getSelectedCells(selectionHook)
+    .map(getCellKey)
+    .filter((cellKey): cellKey is string => cellKey !== null);
   
   // Use batch update if available, otherwise fall back to individual updates
   if (updateMultipleCellsFormatting) {
-    const cellUpdates = selectedCells.map((cell) => {
+    const cellUpdates = cellKeys.map((cellKey) => {
       // Get current formatting to toggle the specific property
-      const cellKey = generateCellKey(REPORT_ID, cell.row, cell.column);
       const currentMetadata = cellMetadata.get(cellKey);
       const currentValue = currentMetadata?.formatting?.[formattingType] || false;
       
       return {
-        position: cell,
+        cellKey,
         formatting: {
           [formattingType]: !currentValue,
         },
@@ -87,13 +82,12 @@ export const applyFormattingToSelection = (
     void updateMultipleCellsFormatting(cellUpdates);
   } else {
     // Fallback to individual updates
-    selectedCells.forEach((cell) => {
+    cellKeys.forEach((cellKey) => {
       // Get current formatting to toggle the specific property
-      const cellKey = generateCellKey(REPORT_ID, cell.row, cell.column);
       const currentMetadata = cellMetadata.get(cellKey);
       const currentValue = currentMetadata?.formatting?.[formattingType] || false;
       
-      void updateCellFormatting(cell.row, cell.column, {
+      void updateCellFormatting(cellKey, {
         [formattingType]: !currentValue,
       });
     });
@@ -106,18 +100,22 @@ export const applyFormattingToSelection = (
 export const applyAlignmentToSelection = (
   selectionHook: UseSelectionReturn,
   alignment: "left" | "center" | "right",
-  updateCellFormatting: (row: number, column: number, formatting: Partial<CellFormatting>) => Promise<void>,
+  updateCellFormatting: (cellKey: string, formatting: Partial<CellFormatting>) => Promise<void>,
+  getCellKey: (position: CellPosition) => string | null,
   updateMultipleCellsFormatting?: (cellUpdates: Array<{
-    position: CellPosition;
+    cellKey: string;
     formatting: Partial<CellFormatting>;
   }>) => Promise<void>
 ) => {
-  const selectedCells = getSelectedCells(selectionHook);
+  // Resolve selected positions to the cells they currently show
+  const cellKeys = getSelectedCells(selectionHook)
+    .map(getCellKey)
+    .filter((cellKey): cellKey is string => cellKey !== null);
   
   // Use batch update if available, otherwise fall back to individual updates
   if (updateMultipleCellsFormatting) {
-    const cellUpdates = selectedCells.map((cell) => ({
-      position: cell,
+    const cellUpdates = cellKeys.map((cellKey) => ({
+      cellKey,
       formatting: {
         alignment: alignment,
       },
@@ -126,19 +124,165 @@ export const applyAlignmentToSelection = (
     void updateMultipleCellsFormatting(cellUpdates);
   } else {
     // Fallback to individual updates
-    selectedCells.forEach((cell) => {
-      void updateCellFormatting(cell.row, cell.column, {
+    cellKeys.forEach((cellKey) => {
+      void updateCellFormatting(cellKey, {
         alignment: alignment,
       });
     });
   }
 };
 
+/**
+ * Applies a fill or text color to all selected cells, undefined clears it
+ */
+export const applyColorToSelection = (
+  selectionHook: UseSelectionReturn,
+  field: "backgroundColor" | "textColor",
+  color: string | undefined,
+  updateCellFormatting: (cellKey: string, formatting: Partial<CellFormatting>) => Promise<void>,
+  getCellKey: (position: CellPosition) => string | null,
+  updateMultipleCellsFormatting?: (cellUpdates: Array<{
+    cellKey: string;
+    formatting: Partial<CellFormatting>;
+  }>) => Promise<void>
+) => {
+  const cellUpdates = getSelectedCells(selectionHook)
+    .map(getCellKey)
+    .filter((cellKey): cellKey is string => cellKey !== null)
+    .map((cellKey) => ({ cellKey, formatting: { [field]: color } }));
+
+  // Use batch update if available, otherwise fall back to individual updates
+  if (updateMultipleCellsFormatting) {
+    void updateMultipleCellsFormatting(cellUpdates);
+  } else {
+    cellUpdates.forEach(({ cellKey, formatting }) => {
+      void updateCellFormatting(cellKey, formatting);
+    });
+  }
+};
+
+/**
+ * Applies a number format change to all selected numeric cells
+ * Each cell's format is changed from its current one, or from the default of its type,
+ * returning undefined resets the cells to the default display
+ */
+export const applyNumberFormatToSelection = (
+  selectionHook: UseSelectionReturn,
+  changeFormat: (format: NumberFormat) => NumberFormat | undefined,
+  updateCellFormatting: (cellKey: string, formatting: Partial<CellFormatting>) => Promise<void>,
+  cellMetadata: Map<string, CellMetadata>,
+  getCellKey: (position: CellPosition) => string | null,
+  updateMultipleCellsFormatting?: (cellUpdates: Array<{
+    cellKey: string;
+    formatting: Partial<CellFormatting>;
+  }>) => Promise<void>
+) => {
+  const cellUpdates = getSelectedCells(selectionHook).flatMap((position) => {
+    const cellKey = getCellKey(position);
+    const metadata = cellKey ? cellMetadata.get(cellKey) : undefined;
+    if (!cellKey || !metadata || !hasNumberFormat(metadata.type)) return [];
+
+    const currentFormat = metadata.formatting?.numberFormat ?? getDefaultNumberFormat(metadata.type);
+    return [{ cellKey, formatting: { numberFormat: changeFormat(currentFormat) } }];
+  });
+
+  // Use batch update if available, otherwise fall back to individual updates
+  if (updateMultipleCellsFormatting) {
+    void updateMultipleCellsFormatting(cellUpdates);
+  } else {
+    cellUpdates.forEach(({ cellKey, formatting }) => {
+      void updateCellFormatting(cellKey, formatting);
+    });
+  }
+};
+
+// Fields of CellFormatting describing the cell's look, everything but its ID
+const FORMATTING_FIELDS = [
+  'bold',
+  'italic',
+  'strikethrough',
+  'alignment',
+  'backgroundColor',
+  'textColor',
+  'numberFormat',
+] as const satisfies ReadonlyArray<keyof CellFormatting>;
+
+/**
+ * Every formatting field of a cell, fields the cell doesn't set are undefined
+ * so applying them to another cell also removes what that cell had set
+ */
+export const getFormattingFields = (formatting: CellFormatting | undefined): Partial<CellFormatting> =>
+  Object.fromEntries(FORMATTING_FIELDS.map((field) => [field, formatting?.[field]]));
+
+/**
+ * Gives all selected cells the same formatting, used by the format painter
+ */
+export const pasteFormattingToSelection = (
+  selectionHook: UseSelectionReturn,
+  formatting: Partial<CellFormatting>,
+  updateCellFormatting: (cellKey: string, formatting: Partial<CellFormatting>) => Promise<void>,
+  getCellKey: (position: CellPosition) => string | null,
+  updateMultipleCellsFormatting?: (cellUpdates: Array<{
+    cellKey: string;
+    formatting: Partial<CellFormatting>;
+  }>) => Promise<void>
+) => {
+  const cellUpdates = getSelectedCells(selectionHook)
+    .map(getCellKey)
+    .filter((cellKey): cellKey is string => cellKey !== null)
+    .map((cellKey) => ({ cellKey, formatting }));
+
+  // Use batch update if available, otherwise fall back to individual updates
+  if (updateMultipleCellsFormatting) {
+    void updateMultipleCellsFormatting(cellUpdates);
+  } else {
+    cellUpdates.forEach(({ cellKey, formatting }) => {
+      void updateCellFormatting(cellKey, formatting);
+    });
+  }
+};
+
+/**
+ * Resets all selected cells to the formatting of their column and row,
+ * as given by getMetadataForCell
+ */
+export const clearFormattingOfSelection = (
+  selectionHook: UseSelectionReturn,
+  getDefaultMetadata: (position: CellPosition) => CellMetadata | null,
+  updateCellFormatting: (cellKey: string, formatting: Partial<CellFormatting>) => Promise<void>,
+  getCellKey: (position: CellPosition) => string | null,
+  updateMultipleCellsFormatting?: (cellUpdates: Array<{
+    cellKey: string;
+    formatting: Partial<CellFormatting>;
+  }>) => Promise<void>
+) => {
+  const cellUpdates = getSelectedCells(selectionHook).flatMap((position) => {
+    const cellKey = getCellKey(position);
+    const defaults = getDefaultMetadata(position);
+    return cellKey && defaults ? [{ cellKey, formatting: getFormattingFields(defaults.formatting) }] : [];
+  });
+
+  // Use batch update if available, otherwise fall back to individual updates
+  if (updateMultipleCellsFormatting) {
+    void updateMultipleCellsFormatting(cellUpdates);
+  } else {
+    cellUpdates.forEach(({ cellKey, formatting }) => {
+      void updateCellFormatting(cellKey, formatting);
+    });
+  }
+};
+
 /**
  * Format a cell value based on its metadata
  */
 export function formatValue(rawValue: string | number, metadata: CellMetadata): string {
   const { type } = metadata;
+
+  // A number format chosen for the cell replaces the default display of its type
+  const numberFormat = metadata.formatting?.numberFormat;
+  if (numberFormat && hasNumberFormat(type)) {
+    return formatWithNumberFormat(rawValue, type, numberFormat);
+  }
   
   switch (type) {
     case 'currency':
@@ -233,7 +377,7 @@ export function formatText(value: string | number): string {
  * Get CSS classes for a cell based on its metadata
  */
 export function getCellClasses(metadata: CellMetadata): string {
-  const { type, section, formatting } = metadata;
+  const { type, formatting } = metadata;
   
   let classes = 'cursor-pointer select-none transition-colors';
   
@@ -253,12 +397,6 @@ export function getCellClasses(metadata: CellMetadata): string {
       break;
   }
 
-  // Section-specific classes
-  if (section === 'YoY Growth') {
-    // Add color coding for growth values
-    classes += ' data-[growth="positive"]:text-green-600 data-[growth="negative"]:text-red-600';
-  }
-
   // Formatting classes
   if (formatting) {
     if (formatting.bold) classes += ' font-bold';
@@ -360,22 +498,6 @@ export function getMetadataForCell(
   };
 }
 
-/**
- * Get growth indicator for percentage values
- */
-export function getGrowthIndicator(value: string | number): 'positive' | 'negative' | 'neutral' {
-  if (typeof value === 'string' && value !== '' && !isNaN(Number(value))) {
-    value = Number(value);
-  }
-
-  if (typeof value === 'number') {
-    if (value > 0) return 'positive';
-    if (value < 0) return 'negative';
-  }
-
-  return 'neutral';
-} 
-
 /**
  * Converts a value to a string, returns empty string for null/undefined.
  */
@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FORMULA_ERRORS,
+  isFormula,
+  isFormulaError,
+  isValidFormula,
+  recalculateFormulas,
+  remapFormulaColumns,
+  remapFormulaRows,
+  shiftFormulaReferences,
+  toColumnLetter,
+  type FormulaCell,
+  type FormulaSheet,
+  type FormulaValue,
+} from './formulas';
+
+// Sheet built from rows of values, cells starting with "=" are formulas
+const createSheet = (rows: FormulaValue[][]): FormulaSheet => ({
+  rowCount: rows.length,
+  columnCount: rows[0].length,
+  getValue: ({ row, column }) => rows[row][column],
+  getFormula: ({ row, column }) => {
+    const value = rows[row][column];
+    return typeof value === 'string' && isFormula(value) ? value : undefined;
+  },
+});
+
+// Evaluates the formula placed in the last column of the first row
+const evaluate = (formula: string, values: FormulaValue[][] = [[0]]) => {
+  const rows = values.map((row, index) => [...row, index === 0 ? formula : '']);
+  const cell: FormulaCell = { row: 0, column: rows[0].length - 1 };
+  return recalculateFormulas(createSheet(rows), [cell])[0].value;
+};
+
+describe('isFormula', () => {
+  it('should recognise text starting with "="', () => {
+    expect(isFormula('=A1+1')).toBe(true);
+    expect(isFormula('  =SUM(A1:A2)')).toBe(true);
+    expect(isFormula('100')).toBe(false);
+  });
+});
+
+describe('isValidFormula', () => {
+  it('should accept well-formed formulas', () => {
+    expect(isValidFormula('=SUM(B2:B10)')).toBe(true);
+    expect(isValidFormula('=B3/B$12')).toBe(true);
+    expect(isValidFormula('=(C2-B2)/B2')).toBe(true);
+    expect(isValidFormula('=UNKNOWN(1)')).toBe(true);
+  });
+
+  it('should reject formulas that cannot be parsed', () => {
+    expect(isValidFormula('=(B2')).toBe(false);
+    expect(isValidFormula('=B2+')).toBe(false);
+    expect(isValidFormula('=B2 B3')).toBe(false);
+    expect(isValidFormula('=#')).toBe(false);
+  });
+});
+
+describe('toColumnLetter', () => {
+  it('should convert column indexes to letters', () => {
+    expect(toColumnLetter(0)).toBe('A');
+    expect(toColumnLetter(25)).toBe('Z');
+    expect(toColumnLetter(26)).toBe('AA');
+    expect(toColumnLetter(27)).toBe('AB');
+  });
+});
+
+describe('recalculateFormulas', () => {
+  it('should evaluate arithmetic with precedence', () => {
+    expect(evaluate('=1+2*3')).toBe(7);
+    expect(evaluate('=(1+2)*3')).toBe(9);
+    expect(evaluate('=-2^2')).toBe(4);
+    expect(evaluate('=50%')).toBe(0.5);
+    expect(evaluate('=0.1+0.2')).toBe(0.3);
+  });
+
+  it('should resolve relative and absolute references', () => {
+    const values = [[100, 110], [200, 0]];
+    expect(evaluate('=(B1-A1)/A1', values)).toBe(0.1);
+    expect(evaluate('=A1/$A$2', values)).toBe(0.5);
+  });
+
+  it('should evaluate functions over ranges', () => {
+    const values = [[1], [2], ['text'], ['']];
+    expect(evaluate('=SUM(A1:A4)', values)).toBe(3);
+    expect(evaluate('=AVERAGE(A1:A4)', values)).toBe(1.5);
+    expect(evaluate('=MAX(A1:A4, 10)', values)).toBe(10);
+    expect(evaluate('=COUNT(A1:A4)', values)).toBe(2);
+    expect(evaluate('=ROUND(2/3, 2)', values)).toBe(0.67);
+    expect(evaluate('=sum(a1:a2)', values)).toBe(3);
+  });
+
+  it('should return error values', () => {
+    const values = [[1, 0], ['text', '']];
+    expect(evaluate('=A1/B1', values)).toBe(FORMULA_ERRORS.divisionByZero);
+    expect(evaluate('=Z99', values)).toBe(FORMULA_ERRORS.reference);
+    expect(evaluate('=SUM(A1:Z99)', values)).toBe(FORMULA_ERRORS.reference);
+    expect(evaluate('=A2*2', values)).toBe(FORMULA_ERRORS.value);
+    expect(evaluate('=NOPE(A1)', values)).toBe(FORMULA_ERRORS.name);
+    expect(evaluate('=A1+', values)).toBe(FORMULA_ERRORS.syntax);
+  });
+
+  it('should propagate errors read from other cells', () => {
+    expect(evaluate('=A1+1', [[FORMULA_ERRORS.divisionByZero]])).toBe(FORMULA_ERRORS.divisionByZero);
+    expect(isFormulaError(FORMULA_ERRORS.reference)).toBe(true);
+    expect(isFormulaError('text')).toBe(false);
+  });
+
+  it('should recalculate transitive dependents in dependency order', () => {
+    // A1 changed, B1 reads C1 which reads A1
+    const rows: FormulaValue[][] = [[5, '=C1*2', '=A1+1', 42]];
+    const results = recalculateFormulas(createSheet(rows), [{ row: 0, column: 0 }]);
+
+    expect(results).toHaveLength(2);
+    expect(results).toEqual(expect.arrayContaining([
+      { row: 0, column: 1, value: 12 },
+      { row: 0, column: 2, value: 6 },
+    ]));
+  });
+
+  it('should leave formulas that do not depend on the change alone', () => {
+    const rows: FormulaValue[][] = [[1, 2, '=B1*2']];
+    expect(recalculateFormulas(createSheet(rows), [{ row: 0, column: 0 }])).toEqual([]);
+  });
+
+  it('should detect cycles', () => {
+    const rows: FormulaValue[][] = [[1, '=C1+A1', '=B1', '=B1*2'], [0, '=B2', 0, 0]];
+    const results = recalculateFormulas(createSheet(rows), [{ row: 0, column: 0 }, { row: 1, column: 1 }]);
+
+    expect(results).toEqual(expect.arrayContaining([
+      { row: 0, column: 1, value: FORMULA_ERRORS.cycle },
+      { row: 0, column: 2, value: FORMULA_ERRORS.cycle },
+      { row: 0, column: 3, value: FORMULA_ERRORS.cycle },
+      { row: 1, column: 1, value: FORMULA_ERRORS.cycle },
+    ]));
+  });
+});
+
+describe('remapFormulaRows', () => {
+  // Row 2 (index 1) deleted, the rows after it move up
+  const deleteSecondRow = (row: number) => (row === 1 ? null : row > 1 ? row - 1 : row);
+
+  it('should shift references to rows that moved', () => {
+    expect(remapFormulaRows('=B3/B$12+LOG10(C4)', (row) => row + 1)).toBe('=B4/B$13+LOG10(C5)');
+  });
+
+  it('should turn references to deleted rows into #REF!', () => {
+    const formula = remapFormulaRows('=A2+A3', deleteSecondRow);
+
+    expect(formula).toBe('=#REF!+A2');
+    expect(evaluate(formula, [[1], [2]])).toBe(FORMULA_ERRORS.reference);
+  });
+
+  it('should shrink ranges to the rows they still cover', () => {
+    expect(remapFormulaRows('=SUM(B1:B3)', deleteSecondRow)).toBe('=SUM(B1:B2)');
+    expect(remapFormulaRows('=SUM(B2:B2)', deleteSecondRow)).toBe('=SUM(#REF!)');
+  });
+});
+
+describe('remapFormulaColumns', () => {
+  // Column B (index 1) deleted, the columns after it move left
+  const deleteColumnB = (column: number) => (column === 1 ? null : column > 1 ? column - 1 : column);
+
+  it('should shift references to columns that moved, keeping $ markers', () => {
+    expect(remapFormulaColumns('=C2/$D$12+LOG10(E4)', (column) => column + 1)).toBe('=D2/$E$12+LOG10(F4)');
+  });
+
+  it('should turn references to deleted columns into #REF!', () => {
+    expect(remapFormulaColumns('=B2+C2', deleteColumnB)).toBe('=#REF!+B2');
+  });
+
+  it('should shrink ranges to the columns they still cover', () => {
+    expect(remapFormulaColumns('=SUM(A1:C1)', deleteColumnB)).toBe('=SUM(A1:B1)');
+  });
+});
+
+describe('shiftFormulaReferences', () => {
+  it('should move relative references by the offset', () => {
+    expect(shiftFormulaReferences('=SUM(B1:B3)*C2', 2, 1)).toBe('=SUM(C3:C5)*D4');
+  });
+
+  it('should keep the parts marked with $ in place', () => {
+    expect(shiftFormulaReferences('=B2/$B$12+C$1+$D4', 1, 1)).toBe('=C3/$B$12+D$1+$D5');
+  });
+
+  it('should turn references moved off the sheet into #REF!', () => {
+    expect(shiftFormulaReferences('=A2+B3', -2, 0)).toBe('=#REF!+B1');
+    expect(shiftFormulaReferences('=SUM(A1:B1)', 0, -1)).toBe('=SUM(#REF!)');
+  });
+});
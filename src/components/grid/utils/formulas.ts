@@ -0,0 +1,565 @@
+/**
+ * Formula engine for A1-style cell formulas such as `=SUM(B2:B10)` or `=(C2-B2)/B2`
+ * Formulas address cells by column letter and 1-based row number in the stored
+ * row order and the adapter's column order, so references don't move when the
+ * grid is sorted. `$` markers don't change how a formula evaluates, they only
+ * keep a reference in place when the formula is filled into other cells.
+ */
+
+export type FormulaValue = string | number;
+
+/**
+ * Position of a cell in the stored row order and the column order
+ */
+export interface FormulaCell {
+  row: number;
+  column: number;
+}
+
+/**
+ * Read access to the cells formulas are evaluated against
+ */
+export interface FormulaSheet {
+  rowCount: number;
+  columnCount: number;
+  getValue: (cell: FormulaCell) => FormulaValue;
+  // Formula text of a cell, undefined for cells holding a literal value
+  getFormula: (cell: FormulaCell) => string | undefined;
+}
+
+/**
+ * New value of a formula cell after recalculation
+ */
+export interface FormulaResult extends FormulaCell {
+  value: FormulaValue;
+}
+
+/**
+ * Error values shown in place of a result, like in other spreadsheets
+ */
+export const FORMULA_ERRORS = {
+  reference: '#REF!',
+  divisionByZero: '#DIV/0!',
+  value: '#VALUE!',
+  name: '#NAME?',
+  cycle: '#CYCLE!',
+  syntax: '#ERROR!',
+} as const;
+
+type FormulaErrorCode = (typeof FORMULA_ERRORS)[keyof typeof FORMULA_ERRORS];
+
+const errorCodes = new Set<string>(Object.values(FORMULA_ERRORS));
+
+/**
+ * Thrown while parsing or evaluating, turned into the error value of the cell
+ */
+class FormulaError extends Error {
+  readonly code: FormulaErrorCode;
+
+  constructor(code: FormulaErrorCode) {
+    super(code);
+    this.code = code;
+  }
+}
+
+type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'reference'; cell: FormulaCell }
+  | { type: 'range'; start: FormulaCell; end: FormulaCell }
+  | { type: 'unary'; operator: '-' | '+' | '%'; operand: FormulaNode }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] }
+  | { type: 'error'; code: FormulaErrorCode };
+
+interface Token {
+  type: 'number' | 'reference' | 'error' | 'name' | 'operator';
+  text: string;
+}
+
+const TOKEN_PATTERNS: Array<[Token['type'], RegExp]> = [
+  ['number', /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i],
+  // References to deleted rows, see remapFormulaRows
+  ['error', /^#REF!/i],
+  ['reference', /^\$?[a-z]{1,3}\$?\d+(?![\w(])/i],
+  ['name', /^[a-z_][\w.]*/i],
+  ['operator', /^[-+*/^%(),:]/],
+];
+
+/**
+ * Checks whether typed text is a formula rather than a literal value
+ */
+export const isFormula = (input: string): boolean => input.trim().startsWith('=');
+
+/**
+ * Checks whether a value is one of the formula error values
+ */
+export const isFormulaError = (value: unknown): boolean =>
+  typeof value === 'string' && errorCodes.has(value);
+
+/**
+ * Converts a 0-based column index to its letters: 0 → A, 26 → AA
+ */
+export const toColumnLetter = (index: number): string => {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+const fromColumnLetters = (letters: string): number =>
+  Array.from(letters.toUpperCase()).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const parseReference = (text: string): FormulaCell => {
+  const [, letters, digits] = /^\$?([a-z]+)\$?(\d+)$/i.exec(text) ?? [];
+  return { row: Number(digits) - 1, column: fromColumnLetters(letters) };
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let rest = source.trimStart();
+
+  while (rest.length > 0) {
+    const match = TOKEN_PATTERNS
+      .map(([type, pattern]) => ({ type, text: pattern.exec(rest)?.[0] }))
+      .find((candidate): candidate is Token => candidate.text !== undefined);
+    if (!match) throw new FormulaError(FORMULA_ERRORS.syntax);
+
+    tokens.push(match);
+    rest = rest.slice(match.text.length).trimStart();
+  }
+
+  return tokens;
+};
+
+/**
+ * Recursive descent parser, binding from loosest to tightest:
+ * + -, then * /, then ^, then unary + -, then postfix %
+ */
+const parse = (formula: string): FormulaNode => {
+  const tokens = tokenize(formula.trim().replace(/^=/, ''));
+  let position = 0;
+
+  const peek = () => tokens[position] as Token | undefined;
+  const isOperator = (text: string) => peek()?.type === 'operator' && peek()?.text === text;
+  const expect = (text: string) => {
+    if (!isOperator(text)) throw new FormulaError(FORMULA_ERRORS.syntax);
+    position++;
+  };
+
+  const parseExpression = (): FormulaNode => {
+    let node = parseTerm();
+    while (isOperator('+') || isOperator('-')) {
+      const operator = tokens[position++].text as '+' | '-';
+      node = { type: 'binary', operator, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  const parseTerm = (): FormulaNode => {
+    let node = parsePower();
+    while (isOperator('*') || isOperator('/')) {
+      const operator = tokens[position++].text as '*' | '/';
+      node = { type: 'binary', operator, left: node, right: parsePower() };
+    }
+    return node;
+  };
+
+  const parsePower = (): FormulaNode => {
+    let node = parseUnary();
+    while (isOperator('^')) {
+      position++;
+      node = { type: 'binary', operator: '^', left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (isOperator('-') || isOperator('+')) {
+      const operator = tokens[position++].text as '-' | '+';
+      return { type: 'unary', operator, operand: parseUnary() };
+    }
+    let node = parsePrimary();
+    while (isOperator('%')) {
+      position++;
+      node = { type: 'unary', operator: '%', operand: node };
+    }
+    return node;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[position++] as Token | undefined;
+    if (!token) throw new FormulaError(FORMULA_ERRORS.syntax);
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: Number(token.text) };
+      case 'error':
+        return { type: 'error', code: FORMULA_ERRORS.reference };
+      case 'reference': {
+        const start = parseReference(token.text);
+        if (!isOperator(':')) return { type: 'reference', cell: start };
+        position++;
+        const end = tokens[position++] as Token | undefined;
+        if (end?.type !== 'reference') throw new FormulaError(FORMULA_ERRORS.syntax);
+        return { type: 'range', start, end: parseReference(end.text) };
+      }
+      case 'name': {
+        expect('(');
+        const args: FormulaNode[] = [];
+        if (!isOperator(')')) {
+          args.push(parseExpression());
+          while (isOperator(',')) {
+            position++;
+            args.push(parseExpression());
+          }
+        }
+        expect(')');
+        return { type: 'call', name: token.text.toUpperCase(), args };
+      }
+      default: {
+        if (token.text !== '(') throw new FormulaError(FORMULA_ERRORS.syntax);
+        const node = parseExpression();
+        expect(')');
+        return node;
+      }
+    }
+  };
+
+  const node = parseExpression();
+  if (position < tokens.length) throw new FormulaError(FORMULA_ERRORS.syntax);
+  return node;
+};
+
+/**
+ * Checks whether a formula can be parsed, unknown functions are still valid
+ * and evaluate to #NAME?
+ */
+export const isValidFormula = (formula: string): boolean => {
+  try {
+    parse(formula);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isInSheet = ({ row, column }: FormulaCell, sheet: FormulaSheet) =>
+  row >= 0 && row < sheet.rowCount && column >= 0 && column < sheet.columnCount;
+
+const expandRange = (start: FormulaCell, end: FormulaCell): FormulaCell[] => {
+  const cells: FormulaCell[] = [];
+  for (let row = Math.min(start.row, end.row); row <= Math.max(start.row, end.row); row++) {
+    for (let column = Math.min(start.column, end.column); column <= Math.max(start.column, end.column); column++) {
+      cells.push({ row, column });
+    }
+  }
+  return cells;
+};
+
+/**
+ * Cells a formula reads, references outside the sheet are left out
+ */
+const getReferencedCells = (node: FormulaNode, sheet: FormulaSheet): FormulaCell[] => {
+  switch (node.type) {
+    case 'reference':
+      return isInSheet(node.cell, sheet) ? [node.cell] : [];
+    case 'range':
+      return isInSheet(node.start, sheet) && isInSheet(node.end, sheet) ? expandRange(node.start, node.end) : [];
+    case 'unary':
+      return getReferencedCells(node.operand, sheet);
+    case 'binary':
+      return [...getReferencedCells(node.left, sheet), ...getReferencedCells(node.right, sheet)];
+    case 'call':
+      return node.args.flatMap((arg) => getReferencedCells(arg, sheet));
+    default:
+      return [];
+  }
+};
+
+const toNumber = (value: FormulaValue): number => {
+  if (typeof value === 'number') return value;
+  if (errorCodes.has(value)) throw new FormulaError(value as FormulaErrorCode);
+  if (value.trim() === '') return 0;
+
+  const number = Number(value);
+  if (isNaN(number)) throw new FormulaError(FORMULA_ERRORS.value);
+  return number;
+};
+
+/**
+ * Numbers an aggregate reads from a value, text and empty cells are skipped
+ */
+const toAggregateNumbers = (value: FormulaValue): number[] => {
+  if (typeof value === 'number') return [value];
+  if (errorCodes.has(value)) throw new FormulaError(value as FormulaErrorCode);
+  return value.trim() !== '' && !isNaN(Number(value)) ? [Number(value)] : [];
+};
+
+const applyFunction = (name: string, args: number[][]): number => {
+  const numbers = args.flat();
+  const single = () => {
+    if (args.length !== 1 || args[0].length !== 1) throw new FormulaError(FORMULA_ERRORS.value);
+    return args[0][0];
+  };
+
+  switch (name) {
+    case 'SUM':
+      return numbers.reduce((sum, number) => sum + number, 0);
+    case 'AVERAGE':
+      if (numbers.length === 0) throw new FormulaError(FORMULA_ERRORS.divisionByZero);
+      return numbers.reduce((sum, number) => sum + number, 0) / numbers.length;
+    case 'MIN':
+      return numbers.length > 0 ? Math.min(...numbers) : 0;
+    case 'MAX':
+      return numbers.length > 0 ? Math.max(...numbers) : 0;
+    case 'COUNT':
+      return numbers.length;
+    case 'ABS':
+      return Math.abs(single());
+    case 'ROUND': {
+      if (args.length < 1 || args.length > 2 || args.some((arg) => arg.length !== 1)) {
+        throw new FormulaError(FORMULA_ERRORS.value);
+      }
+      const factor = 10 ** (args[1]?.[0] ?? 0);
+      return Math.round(args[0][0] * factor) / factor;
+    }
+    default:
+      throw new FormulaError(FORMULA_ERRORS.name);
+  }
+};
+
+const evaluateNode = (
+  node: FormulaNode,
+  sheet: FormulaSheet,
+  readCell: (cell: FormulaCell) => FormulaValue
+): FormulaValue => {
+  const readReference = (cell: FormulaCell) => {
+    if (!isInSheet(cell, sheet)) throw new FormulaError(FORMULA_ERRORS.reference);
+    return readCell(cell);
+  };
+  const evaluateNumber = (operand: FormulaNode) => toNumber(evaluateNode(operand, sheet, readCell));
+
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'error':
+      throw new FormulaError(node.code);
+    case 'reference': {
+      const value = readReference(node.cell);
+      // A plain reference shows text as is, other values go through number rules
+      return typeof value === 'string' && value.trim() !== '' && isNaN(Number(value)) && !errorCodes.has(value)
+        ? value
+        : toNumber(value);
+    }
+    case 'range':
+      // Ranges only make sense as function arguments
+      throw new FormulaError(FORMULA_ERRORS.value);
+    case 'unary': {
+      const operand = evaluateNumber(node.operand);
+      if (node.operator === '%') return operand / 100;
+      return node.operator === '-' ? -operand : operand;
+    }
+    case 'binary': {
+      const left = evaluateNumber(node.left);
+      const right = evaluateNumber(node.right);
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/':
+          if (right === 0) throw new FormulaError(FORMULA_ERRORS.divisionByZero);
+          return left / right;
+        case '^': return left ** right;
+      }
+      break;
+    }
+    case 'call': {
+      const args = node.args.map((arg) => {
+        switch (arg.type) {
+          case 'range':
+            if (!isInSheet(arg.start, sheet) || !isInSheet(arg.end, sheet)) {
+              throw new FormulaError(FORMULA_ERRORS.reference);
+            }
+            return expandRange(arg.start, arg.end).flatMap((cell) => toAggregateNumbers(readCell(cell)));
+          case 'reference':
+            return toAggregateNumbers(readReference(arg.cell));
+          default:
+            return [evaluateNumber(arg)];
+        }
+      });
+      return applyFunction(node.name, args);
+    }
+  }
+  throw new FormulaError(FORMULA_ERRORS.syntax);
+};
+
+/**
+ * Rounds away binary floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+ */
+const toResult = (value: FormulaValue): FormulaValue => {
+  if (typeof value !== 'number') return value;
+  if (!Number.isFinite(value)) return FORMULA_ERRORS.value;
+  return Number(value.toPrecision(15));
+};
+
+const getCellId = ({ row, column }: FormulaCell) => `${row}:${column}`;
+
+/**
+ * Recalculates the formula cells affected by changes to the given cells
+ * Builds the dependency graph of all formulas, then evaluates the changed
+ * formula cells and everything depending on the changed cells, each after the
+ * cells it reads. Formulas that end up reading themselves evaluate to #CYCLE!.
+ * Formula cells not affected by the change keep their current value.
+ */
+export const recalculateFormulas = (
+  sheet: FormulaSheet,
+  changedCells: FormulaCell[]
+): FormulaResult[] => {
+  const formulas = new Map<string, { cell: FormulaCell; node: FormulaNode | FormulaError }>();
+  const dependents = new Map<string, string[]>();
+
+  for (let row = 0; row < sheet.rowCount; row++) {
+    for (let column = 0; column < sheet.columnCount; column++) {
+      const cell = { row, column };
+      const formula = sheet.getFormula(cell);
+      if (formula === undefined) continue;
+
+      const cellId = getCellId(cell);
+      let node: FormulaNode | FormulaError;
+      try {
+        node = parse(formula);
+      } catch (error) {
+        node = error instanceof FormulaError ? error : new FormulaError(FORMULA_ERRORS.syntax);
+      }
+      formulas.set(cellId, { cell, node });
+
+      if (node instanceof FormulaError) continue;
+      for (const reference of getReferencedCells(node, sheet)) {
+        const referenceId = getCellId(reference);
+        dependents.set(referenceId, [...(dependents.get(referenceId) ?? []), cellId]);
+      }
+    }
+  }
+
+  // Everything reachable from the changed cells needs a new value
+  const dirty = new Set<string>();
+  const queue = changedCells.map(getCellId);
+  queue.filter((cellId) => formulas.has(cellId)).forEach((cellId) => dirty.add(cellId));
+  while (queue.length > 0) {
+    for (const dependent of dependents.get(queue.pop()!) ?? []) {
+      if (dirty.has(dependent)) continue;
+      dirty.add(dependent);
+      queue.push(dependent);
+    }
+  }
+
+  const results = new Map<string, FormulaValue>();
+  const evaluating = new Set<string>();
+
+  const evaluateCell = (cellId: string): FormulaValue => {
+    const computed = results.get(cellId);
+    if (computed !== undefined) return computed;
+    if (evaluating.has(cellId)) throw new FormulaError(FORMULA_ERRORS.cycle);
+
+    const { node } = formulas.get(cellId)!;
+    let value: FormulaValue;
+    evaluating.add(cellId);
+    try {
+      if (node instanceof FormulaError) throw node;
+      value = toResult(evaluateNode(node, sheet, readCell));
+    } catch (error) {
+      value = error instanceof FormulaError ? error.code : FORMULA_ERRORS.value;
+    }
+    evaluating.delete(cellId);
+    results.set(cellId, value);
+    return value;
+  };
+
+  const readCell = (cell: FormulaCell): FormulaValue => {
+    const cellId = getCellId(cell);
+    return dirty.has(cellId) ? evaluateCell(cellId) : sheet.getValue(cell);
+  };
+
+  return Array.from(dirty, (cellId) => ({ ...formulas.get(cellId)!.cell, value: evaluateCell(cellId) }));
+};
+
+// A reference or a range of two, not part of a longer name or a function call
+const REFERENCE_TEXT_PATTERN =
+  /(^|[^\w$.#])(\$?[a-z]{1,3}\$?\d+)(?::(\$?[a-z]{1,3}\$?\d+))?(?![\w(])/gi;
+
+const withRow = (reference: string, row: number): string => reference.replace(/\d+$/, String(row + 1));
+
+const withColumn = (reference: string, column: number): string =>
+  reference.replace(/^(\$?)[a-z]+/i, `$1${toColumnLetter(column)}`);
+
+/**
+ * Rewrites the references of a formula along one axis, see remapFormulaRows
+ */
+const remapReferences = (
+  formula: string,
+  axis: keyof FormulaCell,
+  getIndex: (index: number) => number | null
+): string => {
+  const withIndex = axis === 'row' ? withRow : withColumn;
+
+  return formula.replace(REFERENCE_TEXT_PATTERN, (_match, prefix: string, start: string, end: string | undefined) => {
+    const startIndex = parseReference(start)[axis];
+    if (end === undefined) {
+      const index = getIndex(startIndex);
+      return `${prefix}${index === null ? FORMULA_ERRORS.reference : withIndex(start, index)}`;
+    }
+
+    // The first and last rows or columns of the range that are left
+    const endIndex = parseReference(end)[axis];
+    const step = startIndex <= endIndex ? 1 : -1;
+    let first: number | null = null;
+    let last: number | null = null;
+    for (let index = startIndex; index !== endIndex + step; index += step) {
+      const newIndex = getIndex(index);
+      if (newIndex === null) continue;
+      first ??= newIndex;
+      last = newIndex;
+    }
+    if (first === null || last === null) return `${prefix}${FORMULA_ERRORS.reference}`;
+    return `${prefix}${withIndex(start, first)}:${withIndex(end, last)}`;
+  });
+};
+
+/**
+ * Rewrites the row numbers of a formula after rows were inserted, deleted or
+ * moved, so its references keep pointing at the same cells. `getRow` maps a row
+ * to its new index, null for deleted rows. References to deleted rows become
+ * #REF!, ranges shrink to the rows they still cover.
+ */
+export const remapFormulaRows = (formula: string, getRow: (row: number) => number | null): string =>
+  remapReferences(formula, 'row', getRow);
+
+/**
+ * Rewrites the column letters of a formula after columns were added, deleted
+ * or moved, like remapFormulaRows does for rows
+ */
+export const remapFormulaColumns = (formula: string, getColumn: (column: number) => number | null): string =>
+  remapReferences(formula, 'column', getColumn);
+
+/**
+ * Moves the references of a formula filled into a cell the given rows and
+ * columns away, like spreadsheets do. Parts marked with `$` stay in place,
+ * references moved off the sheet become #REF!.
+ */
+export const shiftFormulaReferences = (formula: string, rowOffset: number, columnOffset: number): string => {
+  const shift = (reference: string): string | null => {
+    const [, columnMarker, letters, rowMarker, digits] = /^(\$?)([a-z]+)(\$?)(\d+)$/i.exec(reference) ?? [];
+    const column = fromColumnLetters(letters) + (columnMarker ? 0 : columnOffset);
+    const row = Number(digits) - 1 + (rowMarker ? 0 : rowOffset);
+    if (column < 0 || row < 0) return null;
+    return `${columnMarker}${toColumnLetter(column)}${rowMarker}${row + 1}`;
+  };
+
+  return formula.replace(REFERENCE_TEXT_PATTERN, (_match, prefix: string, start: string, end: string | undefined) => {
+    const shiftedStart = shift(start);
+    const shiftedEnd = end === undefined ? undefined : shift(end);
+    if (shiftedStart === null || shiftedEnd === null) return `${prefix}${FORMULA_ERRORS.reference}`;
+    return `${prefix}${shiftedStart}${shiftedEnd === undefined ? '' : `:${shiftedEnd}`}`;
+  });
+};
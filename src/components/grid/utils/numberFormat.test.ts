@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import type { CellMetadata, NumberFormat } from '../types/common';
+import { changeDecimals, formatWithNumberFormat, getDefaultNumberFormat, isRedNegative, MAX_DECIMALS } from './numberFormat';
+
+const createFormat = (format: Partial<NumberFormat> = {}): NumberFormat => ({
+  ...getDefaultNumberFormat('number'),
+  ...format,
+});
+
+describe('formatWithNumberFormat', () => {
+  it('should apply decimals and the thousands separator', () => {
+    expect(formatWithNumberFormat(1234.5, 'number', createFormat({ decimals: 2 }))).toBe('1,234.50');
+    expect(formatWithNumberFormat('1234.5', 'number', createFormat({ decimals: 0, thousandsSeparator: false }))).toBe('1235');
+  });
+
+  it('should abbreviate large numbers in compact notation', () => {
+    const format = createFormat({ notation: 'compact', decimals: 1 });
+    expect(formatWithNumberFormat(950, 'number', format)).toBe('950.0');
+    expect(formatWithNumberFormat(1250, 'number', format)).toBe('1.3K');
+    expect(formatWithNumberFormat(2500000, 'number', format)).toBe('2.5M');
+    expect(formatWithNumberFormat(-3100000000, 'number', format)).toBe('-3.1B');
+  });
+
+  it('should show negative numbers with a minus or in parentheses', () => {
+    expect(formatWithNumberFormat(-5, 'number', createFormat({ decimals: 0 }))).toBe('-5');
+    expect(formatWithNumberFormat(-5, 'number', createFormat({ decimals: 0, negative: 'parentheses' }))).toBe('(5)');
+    expect(formatWithNumberFormat(-0.001, 'number', createFormat({ decimals: 2 }))).toBe('0.00');
+  });
+
+  it('should show the currency as symbol or code', () => {
+    const format = { ...getDefaultNumberFormat('currency'), currency: 'GBP' };
+    expect(formatWithNumberFormat(1500, 'currency', format)).toBe('£1,500');
+    expect(formatWithNumberFormat(1500, 'currency', { ...format, currencyDisplay: 'code' })).toBe('GBP 1,500');
+  });
+
+  it('should scale fractions to percentages', () => {
+    const format = getDefaultNumberFormat('percentage');
+    expect(formatWithNumberFormat(12.5, 'percentage', format)).toBe('12.5%');
+    expect(formatWithNumberFormat(0.125, 'percentage', { ...format, percentScale: 'fraction' })).toBe('12.5%');
+  });
+
+  it('should keep text that is not a number', () => {
+    expect(formatWithNumberFormat('#DIV/0!', 'currency', getDefaultNumberFormat('currency'))).toBe('#DIV/0!');
+    expect(formatWithNumberFormat('', 'number', createFormat())).toBe('');
+  });
+});
+
+describe('changeDecimals', () => {
+  it('should stay between zero and the maximum', () => {
+    expect(changeDecimals(createFormat({ decimals: 0 }), -1).decimals).toBe(0);
+    expect(changeDecimals(createFormat({ decimals: 2 }), 1).decimals).toBe(3);
+    expect(changeDecimals(createFormat({ decimals: MAX_DECIMALS }), 1).decimals).toBe(MAX_DECIMALS);
+  });
+});
+
+describe('isRedNegative', () => {
+  it('should only color negative values of formats that ask for it', () => {
+    const metadata = (negative: NumberFormat['negative']): CellMetadata => ({
+      type: 'currency',
+      section: 'Values',
+      formatting: { id: 'fmt', numberFormat: { ...getDefaultNumberFormat('currency'), negative } },
+    });
+
+    expect(isRedNegative(-10, metadata('red'))).toBe(true);
+    expect(isRedNegative(10, metadata('red'))).toBe(false);
+    expect(isRedNegative(-10, metadata('minus'))).toBe(false);
+  });
+});
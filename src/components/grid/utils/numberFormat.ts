@@ -0,0 +1,107 @@
+import type { CellMetadata, NumberFormat } from '../types/common';
+
+/**
+ * Number formats chosen per cell from the formatting toolbar
+ * Cells without a number format keep the default display of their type,
+ * the defaults below are where a cell starts from when one is first chosen.
+ */
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY'] as const;
+
+export const MAX_DECIMALS = 10;
+
+const COMPACT_UNITS: Array<[number, string]> = [
+  [1e9, 'B'],
+  [1e6, 'M'],
+  [1e3, 'K'],
+];
+
+/**
+ * Format a cell starts from when its number format is first changed
+ */
+export const getDefaultNumberFormat = (type: CellMetadata['type']): NumberFormat => ({
+  decimals: type === 'percentage' ? 1 : type === 'currency' ? 0 : 2,
+  thousandsSeparator: true,
+  notation: 'full',
+  negative: 'minus',
+  currency: 'USD',
+  currencyDisplay: 'symbol',
+  percentScale: 'percent',
+});
+
+/**
+ * Whether a cell type displays numbers and so has a number format
+ */
+export const hasNumberFormat = (type: CellMetadata['type']): boolean =>
+  type === 'currency' || type === 'percentage' || type === 'number';
+
+/**
+ * Adds decimals to or removes them from a format, within 0 and MAX_DECIMALS
+ */
+export const changeDecimals = (format: NumberFormat, delta: number): NumberFormat => ({
+  ...format,
+  decimals: Math.min(Math.max(format.decimals + delta, 0), MAX_DECIMALS),
+});
+
+const toNumber = (value: string | number): number | null => {
+  if (typeof value === 'number') return value;
+  if (value.trim() === '' || isNaN(Number(value))) return null;
+  return Number(value);
+};
+
+const getCurrencySymbol = (currency: string): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency, currencyDisplay: 'narrowSymbol' })
+    .formatToParts(0)
+    .find((part) => part.type === 'currency')?.value ?? currency;
+
+/**
+ * Formats a value of the given cell type, text that isn't a number is shown as is
+ */
+export const formatWithNumberFormat = (
+  rawValue: string | number,
+  type: CellMetadata['type'],
+  format: NumberFormat
+): string => {
+  const number = toNumber(rawValue);
+  if (number === null) return String(rawValue);
+
+  const value = type === 'percentage' && format.percentScale === 'fraction' ? number * 100 : number;
+  let magnitude = Math.abs(value);
+  let unit = '';
+  if (format.notation === 'compact') {
+    const compactUnit = COMPACT_UNITS.find(([threshold]) => magnitude >= threshold);
+    if (compactUnit) {
+      magnitude /= compactUnit[0];
+      unit = compactUnit[1];
+    }
+  }
+
+  const digits = magnitude.toLocaleString('en-US', {
+    minimumFractionDigits: format.decimals,
+    maximumFractionDigits: format.decimals,
+    useGrouping: format.thousandsSeparator,
+  });
+
+  let text = `${digits}${unit}`;
+  if (type === 'currency') {
+    text = format.currencyDisplay === 'code' ? `${format.currency} ${text}` : `${getCurrencySymbol(format.currency)}${text}`;
+  } else if (type === 'percentage') {
+    text = `${text}%`;
+  }
+
+  // Values rounding to zero aren't shown as negative
+  const isNegative = value < 0 && Number(magnitude.toFixed(format.decimals)) !== 0;
+  if (!isNegative) return text;
+  return format.negative === 'parentheses' ? `(${text})` : `-${text}`;
+};
+
+/**
+ * Whether a value is shown in red because its format colors negative numbers
+ */
+export const isRedNegative = (rawValue: string | number, metadata: CellMetadata): boolean => {
+  const format = metadata.formatting?.numberFormat;
+  if (format?.negative !== 'red' || !hasNumberFormat(metadata.type)) return false;
+
+  const number = toNumber(rawValue);
+  return number !== null && formatWithNumberFormat(number, metadata.type, format).startsWith('-');
+};
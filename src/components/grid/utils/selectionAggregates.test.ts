@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import type { CellData, CellMetadata } from '../types/common';
+import { formatAggregate, getSummaryMetadata, summarizeValues } from './selectionAggregates';
+
+const createCell = (rawValue: string | number, type: CellMetadata['type']): CellData => ({
+  rawValue,
+  metadata: { type, section: 'Values' },
+  position: { row: 0, column: 0 },
+});
+
+describe('summarizeValues', () => {
+  it('should count non-empty cells and aggregate numeric ones', () => {
+    expect(summarizeValues([100, '200', 'Product A', '', '#DIV/0!', 0.1, 0.2])).toEqual({
+      count: 6,
+      numericCount: 4,
+      sum: 300.3,
+      average: 75.075,
+      min: 0.1,
+      max: 200,
+    });
+  });
+
+  it('should leave numeric aggregates empty without numbers', () => {
+    expect(summarizeValues(['Product A', ''])).toEqual({
+      count: 1,
+      numericCount: 0,
+      sum: null,
+      average: null,
+      min: null,
+      max: null,
+    });
+  });
+});
+
+describe('getSummaryMetadata', () => {
+  it('should use the type shared by the numeric cells', () => {
+    expect(getSummaryMetadata([createCell(100, 'currency'), createCell('Total', 'product')]).type).toBe('currency');
+    expect(getSummaryMetadata([createCell(5, 'percentage'), createCell(7, 'percentage')]).type).toBe('percentage');
+  });
+
+  it('should fall back to plain numbers for mixed types', () => {
+    expect(getSummaryMetadata([createCell(100, 'currency'), createCell(5, 'percentage')]).type).toBe('number');
+  });
+});
+
+describe('formatAggregate', () => {
+  const summary = summarizeValues([1000, 2500]);
+
+  it('should format value aggregates with the cell type and counts as numbers', () => {
+    const metadata: CellMetadata = { type: 'currency', section: 'Values' };
+    expect(formatAggregate(summary, 'sum', metadata)).toBe('$3,500');
+    expect(formatAggregate(summary, 'count', metadata)).toBe('2');
+  });
+
+  it('should show a dash for aggregates without numbers', () => {
+    expect(formatAggregate(summarizeValues(['a']), 'max', { type: 'number', section: 'Values' })).toBe('—');
+  });
+});
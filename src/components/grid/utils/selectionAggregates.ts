@@ -0,0 +1,74 @@
+import type { CellData, CellMetadata } from '../types/common';
+import { formatNumber, formatValue } from './formatting';
+
+/**
+ * Aggregates of the selected cells shown in the status bar
+ * Count includes every non-empty cell, the other aggregates only numeric cells.
+ */
+
+export type SelectionAggregate = 'count' | 'numericCount' | 'sum' | 'average' | 'min' | 'max';
+
+export const SELECTION_AGGREGATES: Array<{ id: SelectionAggregate; label: string }> = [
+  { id: 'count', label: 'Count' },
+  { id: 'numericCount', label: 'Numeric count' },
+  { id: 'sum', label: 'Sum' },
+  { id: 'average', label: 'Average' },
+  { id: 'min', label: 'Min' },
+  { id: 'max', label: 'Max' },
+];
+
+export type SelectionSummary = Record<SelectionAggregate, number | null>;
+
+const toNumber = (value: string | number): number | null => {
+  if (typeof value === 'number') return value;
+  if (value.trim() === '' || isNaN(Number(value))) return null;
+  return Number(value);
+};
+
+/**
+ * Computes every aggregate of the cell values, numeric aggregates are null
+ * when no value is numeric
+ */
+export const summarizeValues = (values: Array<string | number>): SelectionSummary => {
+  const numbers = values.flatMap((value) => toNumber(value) ?? []);
+  const sum = numbers.length > 0 ? Number(numbers.reduce((total, number) => total + number, 0).toPrecision(15)) : null;
+
+  return {
+    count: values.filter((value) => String(value).trim() !== '').length,
+    numericCount: numbers.length,
+    sum,
+    average: sum === null ? null : Number((sum / numbers.length).toPrecision(15)),
+    min: numbers.length > 0 ? Math.min(...numbers) : null,
+    max: numbers.length > 0 ? Math.max(...numbers) : null,
+  };
+};
+
+/**
+ * Metadata the numeric aggregates are formatted with: the type the numeric
+ * cells share, or plain numbers when they mix currencies and percentages
+ */
+export const getSummaryMetadata = (cells: CellData[]): CellMetadata => {
+  const types = new Set(
+    cells.filter(({ rawValue }) => toNumber(rawValue) !== null).map(({ metadata }) => metadata.type)
+  );
+  const [type] = types;
+
+  return {
+    type: types.size === 1 && (type === 'currency' || type === 'percentage') ? type : 'number',
+    section: 'Values',
+  };
+};
+
+/**
+ * Formats one aggregate, counts are always plain numbers
+ */
+export const formatAggregate = (
+  summary: SelectionSummary,
+  aggregate: SelectionAggregate,
+  metadata: CellMetadata
+): string => {
+  const value = summary[aggregate];
+  if (value === null) return '—';
+  if (aggregate === 'count' || aggregate === 'numericCount') return formatNumber(value);
+  return formatValue(value, metadata);
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { compareNatural, getNextSorting } from './sorting';
+
+describe('getNextSorting', () => {
+  it('should cycle a column from ascending to descending to unsorted', () => {
+    const ascending = getNextSorting([], 'values_2020', false);
+    const descending = getNextSorting(ascending, 'values_2020', false);
+
+    expect(ascending).toEqual([{ id: 'values_2020', desc: false }]);
+    expect(descending).toEqual([{ id: 'values_2020', desc: true }]);
+    expect(getNextSorting(descending, 'values_2020', false)).toEqual([]);
+  });
+
+  it('should sort by the clicked column alone without Shift', () => {
+    expect(getNextSorting([{ id: 'product', desc: false }], 'values_2020', false)).toEqual([
+      { id: 'values_2020', desc: false },
+    ]);
+  });
+
+  it('should add columns after the sorted ones with Shift and keep their priority', () => {
+    const sorting = getNextSorting([{ id: 'product', desc: false }], 'values_2020', true);
+    expect(sorting).toEqual([
+      { id: 'product', desc: false },
+      { id: 'values_2020', desc: false },
+    ]);
+
+    expect(getNextSorting(sorting, 'product', true)).toEqual([
+      { id: 'product', desc: true },
+      { id: 'values_2020', desc: false },
+    ]);
+    expect(getNextSorting([{ id: 'product', desc: true }, { id: 'values_2020', desc: false }], 'product', true)).toEqual([
+      { id: 'values_2020', desc: false },
+    ]);
+  });
+});
+
+describe('compareNatural', () => {
+  it('should compare digits within text as numbers', () => {
+    expect(['Product 10', 'Product 2', 'product 1'].sort(compareNatural)).toEqual([
+      'product 1',
+      'Product 2',
+      'Product 10',
+    ]);
+  });
+
+  it('should sort numbers by value before text and empty cells', () => {
+    expect(['', '#DIV/0!', 1200, '300', -5].sort(compareNatural)).toEqual([-5, '300', 1200, '#DIV/0!', '']);
+  });
+});
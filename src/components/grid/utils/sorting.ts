@@ -0,0 +1,60 @@
+import type { SortingFn, SortingState } from '@tanstack/react-table';
+import type { FlattenedRow } from '../Grid/hooks/useReportData/utils';
+
+/**
+ * Sorting cycles a column from ascending to descending to unsorted. A plain
+ * click sorts by that column alone, Shift+click adds it after the columns
+ * already sorted, the order they were added in is their priority.
+ */
+
+/**
+ * Sorting after a column header is clicked, with Shift the other columns stay sorted
+ */
+export const getNextSorting = (sorting: SortingState, columnId: string, multi: boolean): SortingState => {
+  const current = sorting.find(({ id }) => id === columnId);
+  const others = multi ? sorting.filter(({ id }) => id !== columnId) : [];
+
+  if (!current) {
+    return [...others, { id: columnId, desc: false }];
+  }
+  if (current.desc) {
+    return others;
+  }
+  // Keeps its priority among the sorted columns
+  return multi
+    ? sorting.map((sort) => (sort.id === columnId ? { ...sort, desc: true } : sort))
+    : [{ id: columnId, desc: true }];
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || value.trim() === '' || isNaN(Number(value))) return null;
+  return Number(value);
+};
+
+/**
+ * Compares cell values: numbers by value and before text, text in the user's
+ * locale with digits compared as numbers ("Product 2" before "Product 10"),
+ * empty cells after both when ascending
+ */
+export const compareNatural = (a: unknown, b: unknown): number => {
+  const aEmpty = a === undefined || a === null || a === '';
+  const bEmpty = b === undefined || b === null || b === '';
+  if (aEmpty || bEmpty) return Number(aEmpty) - Number(bEmpty);
+
+  const aNumber = toNumber(a);
+  const bNumber = toNumber(b);
+  if (aNumber !== null && bNumber !== null) return aNumber - bNumber;
+  if (aNumber !== null) return -1;
+  if (bNumber !== null) return 1;
+  // Cell values that aren't numbers are text
+  return collator.compare(a as string, b as string);
+};
+
+/**
+ * Sorting function of the grid columns, see compareNatural
+ */
+export const naturalSortingFn: SortingFn<FlattenedRow> = (rowA, rowB, columnId) =>
+  compareNatural(rowA.getValue(columnId), rowB.getValue(columnId));
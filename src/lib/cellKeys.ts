@@ -0,0 +1,15 @@
+/**
+ * Keys identifying report rows and cells, shared by the data sources and the grid
+ */
+
+/**
+ * Item key holding the persistent row ID, stored on the items of every section
+ */
+export const ROW_ID_KEY = 'rowId';
+
+/**
+ * Helper function to generate cell key from the cell's persistent row and column IDs
+ */
+export const generateCellKey = (reportId: string, rowId: string, columnId: string): string => {
+  return `${reportId}:${rowId}:${columnId}`;
+};